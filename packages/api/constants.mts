@@ -13,4 +13,6 @@ export const SRCBOOK_DIR = path.join(HOME_DIR, '.srcbook');
 export const SRCBOOKS_DIR = path.join(SRCBOOK_DIR, 'srcbooks');
 export const DIST_DIR = _dirname;
 export const PROMPTS_DIR = path.join(DIST_DIR, 'prompts');
+// Scripts that run inside of processes spawned for a srcbook, e.g. the kernel.
+export const RUNTIME_DIR = path.join(DIST_DIR, 'runtime');
 export const IS_PRODUCTION = process.env.NODE_ENV === 'production';
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, unique } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, unique, index } from 'drizzle-orm/sqlite-core';
 import { randomid } from '@srcbook/shared';
 
 export const configs = sqliteTable('config', {
@@ -20,6 +20,8 @@ export const configs = sqliteTable('config', {
   aiBaseUrl: text('ai_base_url'),
   // Null: unset. Email: subscribed. "dismissed": dismissed the dialog.
   subscriptionEmail: text('subscription_email'),
+  // Cells and dependency installs running at once across all srcbooks. Null: one per CPU.
+  maxConcurrentProcesses: integer('max_concurrent_processes'),
 });
 
 export type Config = typeof configs.$inferSelect;
@@ -48,3 +50,23 @@ export const secretsToSession = sqliteTable(
 
 export type SecretsToSession = typeof secretsToSession.$inferSelect;
 
+// One row per run of a code cell. Times are milliseconds since the epoch.
+export const executions = sqliteTable(
+  'executions',
+  {
+    id: integer('id').primaryKey(),
+    sessionId: text('session_id').notNull(),
+    cellId: text('cell_id').notNull(),
+    sourceHash: text('source_hash').notNull(),
+    startedAt: integer('started_at').notNull(),
+    endedAt: integer('ended_at').notNull(),
+    exitCode: integer('exit_code'),
+    signal: text('signal'),
+    outputSize: integer('output_size').notNull().default(0),
+  },
+  (t) => ({
+    session_cell_idx: index('executions_session_id_cell_id_idx').on(t.sessionId, t.cellId),
+  }),
+);
+
+export type Execution = typeof executions.$inferSelect;
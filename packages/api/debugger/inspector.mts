@@ -0,0 +1,88 @@
+import { type RawData, WebSocket } from 'ws';
+
+export type InspectorHandlersType = {
+  onOpen: () => void;
+  onMessage: (message: string) => void;
+  onClose: () => void;
+};
+
+/**
+ * A connection to the inspector of a node process started with `--inspect-brk`.
+ *
+ * The inspector speaks the Chrome DevTools Protocol. Messages are passed through as is: the
+ * client sends the commands and makes sense of the responses and events, we only relay them.
+ *
+ * - https://chromedevtools.github.io/devtools-protocol/v8/
+ */
+export class Inspector {
+  readonly cellId: string;
+  private readonly socket: WebSocket;
+
+  constructor(cellId: string, url: string, handlers: InspectorHandlersType) {
+    this.cellId = cellId;
+    this.socket = new WebSocket(url);
+
+    this.socket.on('open', handlers.onOpen);
+    this.socket.on('message', (data: RawData) => handlers.onMessage(data.toString('utf8')));
+    this.socket.on('close', handlers.onClose);
+    this.socket.on('error', (error) => {
+      console.error(`Error in inspector for cell ${cellId}:`, error);
+    });
+  }
+
+  send(message: string) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+// What node prints on stderr about its inspector, as opposed to output of the cell.
+const LISTENING = /^Debugger listening on (ws:\/\/\S+)/;
+const WAITING_FOR_DISCONNECT = /^Waiting for the debugger to disconnect\.\.\./;
+const INSPECTOR_MESSAGES = [
+  LISTENING,
+  WAITING_FOR_DISCONNECT,
+  /^For help, see: https:\/\/nodejs\.org\/en\/docs\/inspector/,
+  /^Debugger attached\./,
+  /^Debugger ending on /,
+];
+
+/**
+ * Wrap the stderr callback of a process started with `--inspect-brk` to leave out what node
+ * prints about its inspector.
+ *
+ * `onListening` receives the URL to connect to. `onWaitingForDisconnect` is called once the
+ * process is done, since node does not exit before the debugger disconnects.
+ */
+export function inspectorStderr(
+  stderr: (data: Buffer) => void,
+  handlers: { onListening: (url: string) => void; onWaitingForDisconnect: () => void },
+) {
+  return (data: Buffer) => {
+    const lines = data.toString('utf8').split(/(?<=\n)/);
+    const output: string[] = [];
+
+    for (const line of lines) {
+      const listening = line.match(LISTENING);
+
+      if (listening) {
+        handlers.onListening(listening[1]!);
+      } else if (WAITING_FOR_DISCONNECT.test(line)) {
+        handlers.onWaitingForDisconnect();
+      }
+
+      if (!INSPECTOR_MESSAGES.some((message) => message.test(line))) {
+        output.push(line);
+      }
+    }
+
+    if (output.length > 0) {
+      stderr(Buffer.from(output.join(''), 'utf8'));
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { Inspector, type InspectorHandlersType } from './inspector.mjs';
+
+/**
+ * This object is responsible for managing the inspector connections of multiple sessions.
+ * A session debugs one cell at a time.
+ */
+export class Inspectors {
+  private inspectors: Record<string, Inspector> = {};
+
+  get(id: string) {
+    const inspector = this.inspectors[id];
+
+    if (!inspector) {
+      throw new Error(`inspector for ${id} does not exist.`);
+    }
+
+    return inspector;
+  }
+
+  has(id: string) {
+    return this.inspectors[id] !== undefined;
+  }
+
+  del(id: string) {
+    delete this.inspectors[id];
+  }
+
+  attach(id: string, cellId: string, url: string, handlers: InspectorHandlersType) {
+    if (this.has(id)) {
+      throw new Error(`inspector for ${id} already exists.`);
+    }
+
+    const inspector = new Inspector(cellId, url, {
+      ...handlers,
+      onClose: () => {
+        if (this.inspectors[id] === inspector) {
+          this.del(id);
+        }
+
+        handlers.onClose();
+      },
+    });
+
+    this.inspectors[id] = inspector;
+
+    return inspector;
+  }
+
+  detach(id: string) {
+    if (this.has(id)) {
+      this.get(id).close();
+    }
+  }
+}
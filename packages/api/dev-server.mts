@@ -3,9 +3,13 @@ import { WebSocketServer as WsWebSocketServer } from 'ws';
 
 import app from './server/http.mjs';
 import webSocketServer from './server/ws.mjs';
+import lifecycle from './lifecycle.mjs';
 
 export { SRCBOOK_DIR } from './constants.mjs';
 
+// Processes of a previous run of the server which did not shut down, e.g. after a crash.
+await lifecycle.reap();
+
 const server = http.createServer(app);
 
 const wss = new WsWebSocketServer({ server });
@@ -16,10 +20,14 @@ server.listen(port, () => {
   console.log(`Server is running at http://localhost:${port}`);
 });
 
-process.on('SIGINT', async function () {
+async function shutdown() {
   server.close();
+  await lifecycle.shutdown();
   process.exit();
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 if (import.meta.hot) {
   import.meta.hot.on('vite:beforeFullReload', () => {
     wss.close();
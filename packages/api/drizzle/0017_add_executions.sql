@@ -0,0 +1,13 @@
+CREATE TABLE `executions` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`cell_id` text NOT NULL,
+	`source_hash` text NOT NULL,
+	`started_at` integer NOT NULL,
+	`ended_at` integer NOT NULL,
+	`exit_code` integer,
+	`signal` text,
+	`output_size` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `executions_session_id_cell_id_idx` ON `executions` (`session_id`,`cell_id`);
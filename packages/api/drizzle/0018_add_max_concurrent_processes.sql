@@ -0,0 +1 @@
+ALTER TABLE `config` ADD `max_concurrent_processes` integer;
\ No newline at end of file
@@ -1,5 +1,21 @@
 import Path from 'node:path';
-import { spawn } from 'node:child_process';
+import { pathToFileURL } from 'node:url';
+import { spawn, type ChildProcess } from 'node:child_process';
+import {
+  DisplayDataSchema,
+  type DisplayDataType,
+  type ExecLimitsType,
+  type PermissionsType,
+  type RuntimeType,
+} from '@srcbook/shared';
+import { RUNTIME_DIR } from './constants.mjs';
+import {
+  cellEnv,
+  compileTypeScriptCells,
+  denoPermissionFlags,
+  nodePermissionOptions,
+} from './sandbox.mjs';
+import { profileFlags, sourceMapsEnv, type ProfileOptionsType } from './profiler.mjs';
 
 interface NodeError extends Error {
   code?: string;
@@ -13,9 +29,20 @@ export type BaseExecRequestType = {
   onError?: (err: NodeError) => void;
 };
 
+export type ExecLimitType = keyof ExecLimitsType;
+
 export type NodeRequestType = BaseExecRequestType & {
   env: NodeJS.ProcessEnv;
   entry: string;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  onDisplay?: (data: DisplayDataType) => void;
+  // Run sandboxed with these permissions (see sandbox.mts).
+  permissions?: PermissionsType;
+  // Start the inspector and wait for a debugger to attach before running (see debugger/).
+  inspect?: boolean;
+  // Write CPU, and optionally heap, profiles of the run (see profiler.mts).
+  profile?: ProfileOptionsType;
 };
 
 export type NPMInstallRequestType = BaseExecRequestType & {
@@ -36,14 +63,261 @@ type SpawnCallRequestType = {
   stderr: (data: Buffer) => void;
   onExit: (code: number | null, signal: NodeJS.Signals | null) => void;
   onError?: (err: NodeError) => void;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  // Receive what the process shows with `display` (see runtime/display.mjs). Opens an IPC channel.
+  onDisplay?: (data: DisplayDataType) => void;
+  // Receive any other message the process sends over IPC. Opens an IPC channel.
+  onMessage?: (message: unknown) => void;
+};
+
+type EnforceLimitsRequestType = {
+  limits: ExecLimitsType;
+  stdout: (data: Buffer) => void;
+  stderr: (data: Buffer) => void;
+  onExit: (code: number | null, signal: NodeJS.Signals | null) => void;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  // Stop the execution once a limit is exceeded.
+  kill: () => void;
 };
 
+/**
+ * Wrap the callbacks of an execution so that its limits are enforced.
+ *
+ * The wall-clock timer starts right away. Output beyond the output limit is dropped.
+ * The memory limit itself has to be passed to node (see `withMemoryLimit`); here we
+ * only detect that the process crashed because it ran out of memory.
+ */
+export function enforceLimits(options: EnforceLimitsRequestType) {
+  const { limits, onLimitExceeded, kill } = options;
+
+  let exited = false;
+  let exceeded = false;
+  let outputBytes = 0;
+
+  function exceed(limit: ExecLimitType) {
+    if (exceeded || exited) {
+      return;
+    }
+
+    exceeded = true;
+    onLimitExceeded?.(limit);
+    kill();
+  }
+
+  const timer =
+    limits.timeout !== undefined ? setTimeout(() => exceed('timeout'), limits.timeout) : null;
+
+  function limitOutput(write: (data: Buffer) => void) {
+    return (data: Buffer) => {
+      // Output of a stopped execution is dropped, e.g. further output after a timeout.
+      if (exceeded) {
+        return;
+      }
+
+      if (exited || limits.output === undefined) {
+        return write(data);
+      }
+
+      const remaining = limits.output - outputBytes;
+      outputBytes += data.length;
+
+      if (data.length <= remaining) {
+        return write(data);
+      }
+
+      if (remaining > 0) {
+        write(data.subarray(0, remaining));
+      }
+
+      exceed('output');
+    };
+  }
+
+  return {
+    stdout: limitOutput(options.stdout),
+    stderr: limitOutput(options.stderr),
+    onExit(code: number | null, signal: NodeJS.Signals | null) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+
+      exited = true;
+
+      // V8 aborts when it runs out of heap. tsx reports that as exit code 134 (128 + SIGABRT).
+      if (!exceeded && limits.memory !== undefined && (signal === 'SIGABRT' || code === 134)) {
+        exceeded = true;
+        onLimitExceeded?.('memory');
+      }
+
+      options.onExit(code, signal);
+    },
+  };
+}
+
+function withNodeOption(env: NodeJS.ProcessEnv, option: string): NodeJS.ProcessEnv {
+  const nodeOptions = [env.NODE_OPTIONS, option];
+
+  return { ...env, NODE_OPTIONS: nodeOptions.filter(Boolean).join(' ') };
+}
+
+/**
+ * Pass a memory limit to node processes, including those started by tsx.
+ */
+export function withMemoryLimit(env: NodeJS.ProcessEnv, memory?: number): NodeJS.ProcessEnv {
+  if (memory === undefined) {
+    return env;
+  }
+
+  return withNodeOption(env, `--max-old-space-size=${memory}`);
+}
+
+/**
+ * Preload the `display` global (runtime/display.mjs) into node processes, including those started by tsx.
+ */
+export function withDisplay(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const url = pathToFileURL(Path.join(RUNTIME_DIR, 'display.mjs')).href;
+  return withNodeOption(env, `--import=${url}`);
+}
+
+/**
+ * Preload runtime/source-maps.mjs into node processes run with the profiler, for profiles of
+ * compiled cells to be mapped back to their sources.
+ */
+export function withSourceMaps(
+  env: NodeJS.ProcessEnv,
+  profile?: ProfileOptionsType,
+): NodeJS.ProcessEnv {
+  if (!profile) {
+    return env;
+  }
+
+  const url = pathToFileURL(Path.join(RUNTIME_DIR, 'source-maps.mjs')).href;
+  return withNodeOption({ ...env, ...sourceMapsEnv(profile) }, `--import=${url}`);
+}
+
+/**
+ * Enforce the permissions of a srcbook in `cwd` in node processes. Without permissions, processes
+ * are not sandboxed.
+ */
+export function withPermissions(
+  env: NodeJS.ProcessEnv,
+  cwd: string,
+  permissions?: PermissionsType,
+): NodeJS.ProcessEnv {
+  if (!permissions) {
+    return env;
+  }
+
+  return withNodeOption(env, nodePermissionOptions(cwd, permissions).join(' '));
+}
+
+/**
+ * The display data in a message sent by a process over IPC, or null if it is not a valid display message.
+ */
+export function parseDisplayMessage(message: unknown): DisplayDataType | null {
+  if (typeof message !== 'object' || message === null || !('type' in message)) {
+    return null;
+  }
+
+  if (message.type !== 'display' || !('data' in message)) {
+    return null;
+  }
+
+  const result = DisplayDataSchema.safeParse(message.data);
+
+  return result.success ? result.data : null;
+}
+
+/**
+ * Whether processes are started in their own process group, so that stopping one also stops
+ * everything it spawned (dev servers, workers, `npx` commands, ...). Windows has no process groups.
+ */
+export const USE_PROCESS_GROUPS = process.platform !== 'win32';
+
+// How long a process has to exit after SIGTERM before it and its group are sent SIGKILL.
+export const KILL_GRACE_PERIOD = 5000;
+
+function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals) {
+  if (USE_PROCESS_GROUPS && typeof child.pid === 'number') {
+    try {
+      // A negative pid signals every process in the group.
+      return process.kill(-child.pid, signal);
+    } catch {
+      // The group is gone, or the process was not started in its own group.
+    }
+  }
+
+  return child.kill(signal);
+}
+
+function isProcessGroupAlive(child: ChildProcess) {
+  if (USE_PROCESS_GROUPS && typeof child.pid === 'number') {
+    try {
+      // Signal 0 only checks that the group still has a process in it.
+      return process.kill(-child.pid, 0);
+    } catch {
+      return false;
+    }
+  }
+
+  return child.exitCode === null && child.signalCode === null;
+}
+
+/**
+ * Stop a process and its process group: SIGTERM first, then SIGKILL for whatever
+ * is still running once the grace period is over. Children that outlive the
+ * process itself are stopped too.
+ */
+export function terminate(child: ChildProcess, gracePeriod: number = KILL_GRACE_PERIOD) {
+  const signaled = signalProcessGroup(child, 'SIGTERM');
+
+  const timer = setTimeout(() => {
+    if (isProcessGroupAlive(child)) {
+      signalProcessGroup(child, 'SIGKILL');
+    }
+  }, gracePeriod);
+
+  // Do not keep the server alive just to clean up.
+  timer.unref();
+
+  return signaled;
+}
+
 export function spawnCall(options: SpawnCallRequestType) {
-  const { cwd, env, command, args, stdout, stderr, onExit, onError } = options;
-  const child = spawn(command, args, { cwd: cwd, env: env });
+  const { cwd, command, args, onError, limits, onLimitExceeded, onDisplay, onMessage } = options;
+  const env = withMemoryLimit(options.env, limits?.memory);
+  const child = spawn(command, args, {
+    cwd: cwd,
+    env: env,
+    stdio: onDisplay || onMessage ? ['pipe', 'pipe', 'pipe', 'ipc'] : 'pipe',
+    detached: USE_PROCESS_GROUPS,
+  });
+
+  const { stdout, stderr, onExit } = limits
+    ? enforceLimits({
+        limits,
+        stdout: options.stdout,
+        stderr: options.stderr,
+        onExit: options.onExit,
+        onLimitExceeded,
+        kill: () => terminate(child),
+      })
+    : options;
+
+  child.stdout?.on('data', stdout);
+  child.stderr?.on('data', stderr);
 
-  child.stdout.on('data', stdout);
-  child.stderr.on('data', stderr);
+  if (onDisplay || onMessage) {
+    child.on('message', (message) => {
+      const data = parseDisplayMessage(message);
+      if (data) {
+        onDisplay?.(data);
+      } else {
+        onMessage?.(message);
+      }
+    });
+  }
 
   child.on('error', (err) => {
     if (onError) {
@@ -60,6 +334,20 @@ export function spawnCall(options: SpawnCallRequestType) {
   return child;
 }
 
+// Any free port. Node prints the URL to connect to on stderr.
+const INSPECT_FLAG = '--inspect-brk=127.0.0.1:0';
+
+// Node flags for debugging or profiling the cell, followed by the cell.
+function nodeArgs(options: NodeRequestType) {
+  const flags = options.inspect ? [INSPECT_FLAG] : [];
+
+  if (options.profile) {
+    flags.push(...profileFlags(options.profile));
+  }
+
+  return [...flags, options.entry];
+}
+
 /**
  * Execute a JavaScript file using node.
  *
@@ -76,16 +364,20 @@ export function spawnCall(options: SpawnCallRequestType) {
  *
  */
 export function node(options: NodeRequestType) {
-  const { cwd, env, entry, stdout, stderr, onExit } = options;
+  const { cwd, env, stdout, stderr, onExit, limits, onLimitExceeded, onDisplay } = options;
+  const { permissions } = options;
 
   return spawnCall({
     command: 'node',
     cwd,
-    args: [entry],
+    args: nodeArgs(options),
     stdout,
     stderr,
     onExit,
-    env: { ...process.env, ...env },
+    limits,
+    onLimitExceeded,
+    onDisplay,
+    env: withPermissions(withDisplay(cellEnv(env, permissions)), cwd, permissions),
   });
 }
 
@@ -105,21 +397,107 @@ export function node(options: NodeRequestType) {
  *
  */
 export function tsx(options: NodeRequestType) {
-  const { cwd, env, entry, stdout, stderr, onExit } = options;
+  const { cwd, env, entry, stdout, stderr, onExit, limits, onLimitExceeded, onDisplay } = options;
+
+  // tsx cannot run in the sandbox, see `compileTypeScriptCells`.
+  if (options.permissions) {
+    return node({
+      ...options,
+      env: withNodeOption(env, '--enable-source-maps'),
+      entry: compileTypeScriptCells(cwd, entry),
+    });
+  }
 
   // We are making an assumption about `tsx` being the tool of choice
   // for running TypeScript, as well as where it's located on the file system.
   return spawnCall({
     command: Path.join(cwd, 'node_modules', '.bin', 'tsx'),
     cwd,
-    args: [entry],
+    // tsx passes node flags on to the node process running the cell.
+    args: nodeArgs(options),
     stdout,
     stderr,
     onExit,
+    limits,
+    onLimitExceeded,
+    onDisplay,
+    env: withSourceMaps(withDisplay({ ...process.env, ...env }), options.profile),
+  });
+}
+
+// Sets up `display` before running the cell in runtimes that ignore NODE_OPTIONS.
+const LAUNCH_PATH = Path.join(RUNTIME_DIR, 'launch.mjs');
+
+/**
+ * Execute a JavaScript or TypeScript file using Bun.
+ *
+ * Bun has no option to limit its heap, so memory limits are not enforced.
+ */
+export function bun(options: NodeRequestType) {
+  const { cwd, env, entry, stdout, stderr, onExit, limits, onLimitExceeded, onDisplay } = options;
+
+  return spawnCall({
+    command: 'bun',
+    cwd,
+    args: [LAUNCH_PATH, entry],
+    stdout,
+    stderr,
+    onExit,
+    limits: limits && { ...limits, memory: undefined },
+    onLimitExceeded,
+    onDisplay,
     env: { ...process.env, ...env },
   });
 }
 
+/**
+ * Execute a JavaScript or TypeScript file using Deno.
+ *
+ * Cells get all permissions, as they do in node, unless the srcbook is sandboxed. Sloppy
+ * imports let TypeScript cells import each other by their `.js` names like they do with tsx.
+ */
+export function deno(options: NodeRequestType) {
+  const { cwd, env, entry, stdout, stderr, onExit, limits, onLimitExceeded, onDisplay } = options;
+  const { permissions } = options;
+
+  const args = [
+    'run',
+    ...(permissions ? denoPermissionFlags(cwd, permissions) : ['--allow-all']),
+    '--unstable-sloppy-imports',
+  ];
+
+  if (limits?.memory) {
+    args.push(`--v8-flags=--max-old-space-size=${limits.memory}`);
+  }
+
+  return spawnCall({
+    command: 'deno',
+    cwd,
+    args: [...args, LAUNCH_PATH, entry],
+    stdout,
+    stderr,
+    onExit,
+    limits,
+    onLimitExceeded,
+    onDisplay,
+    env: cellEnv(env, permissions),
+  });
+}
+
+const RUNTIMES: Record<RuntimeType, (options: NodeRequestType) => ChildProcess> = {
+  node,
+  tsx,
+  bun,
+  deno,
+};
+
+/**
+ * Execute a code cell file with the given runtime.
+ */
+export function execWithRuntime(runtime: RuntimeType, options: NodeRequestType) {
+  return RUNTIMES[runtime](options);
+}
+
 /**
  * Run npm install.
  *
@@ -0,0 +1,47 @@
+import crypto from 'node:crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import { executions, type Execution } from './db/schema.mjs';
+import { db } from './db/index.mjs';
+
+// The most runs listed at once, and how many are listed when no limit is given.
+export const MAX_EXECUTIONS = 100;
+
+export function hashSource(source: string) {
+  return crypto.createHash('sha256').update(source).digest('hex');
+}
+
+export async function recordExecution(attrs: Omit<Execution, 'id'>): Promise<Execution> {
+  const [execution] = await db.insert(executions).values(attrs).returning();
+  return execution as Execution;
+}
+
+/**
+ * The session's most recent runs first, optionally only those of one cell. The limit
+ * is clamped between 1 and MAX_EXECUTIONS.
+ */
+export async function getExecutions(
+  sessionId: string,
+  options: { cellId?: string; limit?: number } = {},
+): Promise<Execution[]> {
+  const conditions = [eq(executions.sessionId, sessionId)];
+
+  if (options.cellId) {
+    conditions.push(eq(executions.cellId, options.cellId));
+  }
+
+  return db
+    .select()
+    .from(executions)
+    .where(and(...conditions))
+    .orderBy(desc(executions.startedAt), desc(executions.id))
+    .limit(clampLimit(options.limit));
+}
+
+// SQLite treats a negative limit as no limit at all.
+function clampLimit(limit: number | undefined) {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return MAX_EXECUTIONS;
+  }
+
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_EXECUTIONS);
+}
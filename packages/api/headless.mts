@@ -0,0 +1,6 @@
+// Entry point of the `run` and `test` commands. Unlike index.mts, it must not load
+// the server, the database or the config: the commands only need a srcbook directory.
+import { runSrcbook, testSrcbook } from './srcbook/headless.mjs';
+import { toJUnitXml } from './test-runner.mjs';
+
+export { runSrcbook, testSrcbook, toJUnitXml };
@@ -0,0 +1,36 @@
+import Path from 'node:path';
+import type { DisplayDataType, ExecLimitsType } from '@srcbook/shared';
+import { RUNTIME_DIR } from './constants.mjs';
+import { spawnCall, type BaseExecRequestType, type ExecLimitType } from './exec.mjs';
+
+export type HttpRequestType = BaseExecRequestType & {
+  // Path to the file with the requests to send.
+  entry: string;
+  // Values of the {{NAME}} variables in the requests, the secrets associated with the session.
+  variables: Record<string, string>;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  onDisplay: (data: DisplayDataType) => void;
+};
+
+/**
+ * Send the requests of an HTTP cell with runtime/http-client.mjs, which displays each response.
+ *
+ * Variables are handed over on their own rather than as environment variables, so requests
+ * cannot read anything else from the server's environment.
+ */
+export function runHttp(options: HttpRequestType) {
+  return spawnCall({
+    command: 'node',
+    cwd: options.cwd,
+    args: [Path.join(RUNTIME_DIR, 'http-client.mjs'), options.entry],
+    stdout: options.stdout,
+    stderr: options.stderr,
+    onExit: options.onExit,
+    onError: options.onError,
+    limits: options.limits,
+    onLimitExceeded: options.onLimitExceeded,
+    onDisplay: options.onDisplay,
+    env: { ...process.env, SRCBOOK_HTTP_VARIABLES: JSON.stringify(options.variables) },
+  });
+}
@@ -2,5 +2,6 @@ import app from './server/http.mjs';
 import wss from './server/ws.mjs';
 import { SRCBOOKS_DIR } from './constants.mjs';
 import { posthog } from './posthog-client.mjs';
+import lifecycle from './lifecycle.mjs';
 
-export { app, wss, SRCBOOKS_DIR, posthog };
+export { app, wss, SRCBOOKS_DIR, posthog, lifecycle };
@@ -0,0 +1,3 @@
+import { Inspectors } from './debugger/inspectors.mjs';
+
+export default new Inspectors();
@@ -0,0 +1,176 @@
+import type { ChildProcess } from 'node:child_process';
+import type { DisplayDataType, ExecLimitsType } from '@srcbook/shared';
+import { enforceLimits, parseDisplayMessage, terminate, type ExecLimitType } from '../exec.mjs';
+
+type KernelMessageType =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; code: number }
+  | { type: 'display'; data: unknown };
+
+export type KernelExecRequestType = {
+  entry: string;
+  env: NodeJS.ProcessEnv;
+  stdout: (data: Buffer) => void;
+  stderr: (data: Buffer) => void;
+  onExit: (code: number | null, signal: NodeJS.Signals | null) => void;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  onDisplay?: (data: DisplayDataType) => void;
+};
+
+/**
+ * This class provides a wrapper around a process running the srcbook kernel (runtime/kernel.mjs).
+ *
+ * The kernel evaluates code cells in a shared module graph so that in-memory state survives
+ * between runs. Cells are executed one at a time, in the order they were requested. While a
+ * cell is executing, all output of the kernel process, including what is shown with `display`,
+ * is attributed to it. Output produced later, e.g. from a timer the cell scheduled, goes to the
+ * most recently executed cell.
+ *
+ * If the kernel process exits, every pending request is finished with the exit code and
+ * signal of the process, just like a cell running in its own process would. That includes
+ * a request exceeding its time or output limit: the only way to stop it is to shut down
+ * the kernel. The memory limit applies to the whole kernel and is set when it is spawned.
+ */
+export class Kernel {
+  private _seq: number = 0;
+  private ready: boolean = false;
+  private readonly process: ChildProcess;
+  private readonly queue: Array<KernelExecRequestType & { id: number }> = [];
+  private current: (KernelExecRequestType & { id: number }) | null = null;
+  private last: KernelExecRequestType | null = null;
+
+  constructor(process: ChildProcess) {
+    this.process = process;
+
+    this.process.stdout?.on('data', (chunk: Buffer) => {
+      this.outputTarget()?.stdout(chunk);
+    });
+
+    this.process.stderr?.on('data', (chunk: Buffer) => {
+      this.outputTarget()?.stderr(chunk);
+    });
+
+    this.process.on('message', (message: KernelMessageType) => {
+      this.handleMessage(message);
+    });
+
+    this.process.on('error', (err) => {
+      // The process could not be spawned, e.g. because tsx is not installed yet.
+      // No exit event is guaranteed in that case, so finish pending requests here.
+      if (this.process.pid === undefined) {
+        for (const request of this.pending()) {
+          request.stderr(Buffer.from(`Failed to start kernel: ${err.message}\n`));
+        }
+        this.finish(null, null);
+      }
+    });
+
+    this.process.on('exit', (code, signal) => {
+      this.finish(code, signal);
+    });
+  }
+
+  get pid() {
+    return this.process.pid;
+  }
+
+  private get seq() {
+    return this._seq++;
+  }
+
+  private pending() {
+    return this.current ? [this.current, ...this.queue] : [...this.queue];
+  }
+
+  private finish(code: number | null, signal: NodeJS.Signals | null) {
+    const pending = this.pending();
+    this.current = null;
+    this.queue.length = 0;
+    for (const request of pending) {
+      request.onExit(code, signal);
+    }
+  }
+
+  private outputTarget() {
+    return this.current || this.last;
+  }
+
+  private handleMessage(message: KernelMessageType) {
+    switch (message.type) {
+      case 'ready':
+        this.ready = true;
+        this.next();
+        break;
+      case 'result':
+        if (this.current === null || this.current.id !== message.id) {
+          console.warn(`Kernel sent a result for unknown request ${message.id}. Ignoring.`);
+          return;
+        }
+        this.last = this.current;
+        this.current = null;
+        this.last.onExit(message.code, null);
+        this.next();
+        break;
+      case 'display': {
+        const data = parseDisplayMessage(message);
+        if (data) {
+          this.outputTarget()?.onDisplay?.(data);
+        }
+        break;
+      }
+    }
+  }
+
+  private next() {
+    if (!this.ready || this.current !== null) {
+      return;
+    }
+
+    const request = this.queue.shift();
+
+    if (!request) {
+      return;
+    }
+
+    const { limits, onLimitExceeded } = request;
+
+    this.current = limits
+      ? {
+          ...request,
+          ...enforceLimits({
+            limits,
+            stdout: request.stdout,
+            stderr: request.stderr,
+            onExit: request.onExit,
+            onLimitExceeded,
+            kill: () => this.shutdown(),
+          }),
+        }
+      : request;
+
+    this.process.send({ type: 'exec', id: request.id, entry: request.entry, env: request.env });
+  }
+
+  /**
+   * Queue a file for execution in the kernel.
+   */
+  exec(request: KernelExecRequestType) {
+    this.queue.push({ ...request, id: this.seq });
+    this.next();
+  }
+
+  /**
+   * Whether the kernel is currently executing or has queued the given file.
+   */
+  isExecuting(entry: string) {
+    return this.current?.entry === entry || this.queue.some((r) => r.entry === entry);
+  }
+
+  /**
+   * Shutdown the underlying kernel process. All in-memory state is lost.
+   */
+  shutdown() {
+    return terminate(this.process);
+  }
+}
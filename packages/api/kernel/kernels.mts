@@ -0,0 +1,113 @@
+import Path from 'node:path';
+import { spawn } from 'node:child_process';
+import type { CodeLanguageType, PermissionsType } from '@srcbook/shared';
+import { RUNTIME_DIR } from '../constants.mjs';
+import { USE_PROCESS_GROUPS, withDisplay, withMemoryLimit, withPermissions } from '../exec.mjs';
+import { cellEnv } from '../sandbox.mjs';
+import { Kernel } from './kernel.mjs';
+
+/**
+ * This object is responsible for managing the kernels of multiple sessions.
+ */
+export class Kernels {
+  private kernels: Record<string, Kernel> = {};
+
+  get(id: string) {
+    const kernel = this.kernels[id];
+
+    if (!kernel) {
+      throw new Error(`kernel for ${id} does not exist.`);
+    }
+
+    return kernel;
+  }
+
+  set(id: string, kernel: Kernel) {
+    if (this.kernels[id]) {
+      throw new Error(`kernel for ${id} already exists.`);
+    }
+
+    this.kernels[id] = kernel;
+  }
+
+  has(id: string) {
+    return this.kernels[id] !== undefined;
+  }
+
+  del(id: string) {
+    delete this.kernels[id];
+  }
+
+  create(
+    id: string,
+    options: {
+      cwd: string;
+      language: CodeLanguageType;
+      memory?: number;
+      permissions?: PermissionsType;
+    },
+  ) {
+    if (this.has(id)) {
+      throw new Error(`kernel for ${id} already exists.`);
+    }
+
+    const { cwd, permissions } = options;
+
+    // Same assumption as for running TypeScript cells outside of a kernel:
+    // `tsx` is installed in the Srcbook's node_modules. Sandboxed kernels import
+    // compiled cells instead, since tsx cannot run in the sandbox.
+    const command =
+      options.language === 'typescript' && !permissions
+        ? Path.join(cwd, 'node_modules', '.bin', 'tsx')
+        : 'node';
+
+    // Compiled cells carry source maps for their stack traces to point to the cells' lines.
+    const flags = options.language === 'typescript' && permissions ? ['--enable-source-maps'] : [];
+
+    const env = withDisplay(withMemoryLimit(cellEnv({}, permissions), options.memory));
+
+    const child = spawn(command, [...flags, Path.join(RUNTIME_DIR, 'kernel.mjs')], {
+      cwd,
+      env: withPermissions(env, cwd, permissions),
+      stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
+      detached: USE_PROCESS_GROUPS,
+    });
+
+    const kernel = new Kernel(child);
+
+    this.set(id, kernel);
+
+    child.on('error', (err) => {
+      console.error(`Error in kernel for ${id}:`, err);
+
+      // The process failed to spawn and will never emit 'exit'.
+      if (child.pid === undefined && this.kernels[id] === kernel) {
+        this.del(id);
+      }
+    });
+
+    child.on('exit', () => {
+      // A kernel may have been replaced (restarted) before the old process exited.
+      if (this.kernels[id] === kernel) {
+        this.del(id);
+      }
+    });
+
+    return { kernel, process: child };
+  }
+
+  shutdown(id: string) {
+    if (!this.has(id)) {
+      console.warn(`kernel for ${id} does not exist. Skipping shutdown.`);
+      return;
+    }
+
+    const kernel = this.get(id);
+
+    // Remove the kernel right away so that a new one can be created
+    // for this session before the old process has finished exiting.
+    this.del(id);
+
+    return kernel.shutdown();
+  }
+}
@@ -0,0 +1,3 @@
+import { Kernels } from './kernel/kernels.mjs';
+
+export default new Kernels();
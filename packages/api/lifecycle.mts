@@ -0,0 +1,172 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import Path from 'node:path';
+import type { ChildProcess } from 'node:child_process';
+import { SRCBOOK_DIR } from './constants.mjs';
+import { KILL_GRACE_PERIOD, USE_PROCESS_GROUPS } from './exec.mjs';
+
+type PidFileType = {
+  // When the machine running the server booted, in ms since the epoch.
+  bootedAt: number;
+  pids: number[];
+};
+
+// Boot times computed from the uptime drift a little between calls.
+const BOOT_TIME_TOLERANCE = 60_000;
+
+function bootedAt() {
+  return Date.now() - os.uptime() * 1000;
+}
+
+function isAlive(pid: number) {
+  try {
+    return process.kill(pid, 0);
+  } catch (e) {
+    // The process exists, it is just not ours to signal.
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Processes are started in their own group where possible, see `USE_PROCESS_GROUPS`.
+function signalGroup(pid: number, signal: NodeJS.Signals | 0) {
+  try {
+    return process.kill(USE_PROCESS_GROUPS ? -pid : pid, signal);
+  } catch {
+    // The process or its group is gone.
+    return false;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stop processes and their groups: SIGTERM first, then SIGKILL for whatever is still running
+ * once the grace period is over. Returns the number of processes signaled.
+ */
+async function stop(pids: number[], gracePeriod: number) {
+  const signaled = pids.filter((pid) => signalGroup(pid, 'SIGTERM'));
+  const deadline = Date.now() + gracePeriod;
+
+  // Signal 0 only checks that the process, or a process of its group, is still there.
+  while (Date.now() < deadline && signaled.some((pid) => signalGroup(pid, 0))) {
+    await sleep(100);
+  }
+
+  for (const pid of signaled) {
+    signalGroup(pid, 'SIGKILL');
+  }
+
+  return signaled.length;
+}
+
+/**
+ * Keeps track of the processes the server starts for srcbooks (cells, kernels, dependency
+ * installs and tsservers) so none of them outlives it.
+ *
+ * Their pids are kept on disk in a file per server process. On a graceful shutdown the server
+ * stops them and removes its file. Files left behind belong to a server that crashed or was
+ * killed, and the processes listed in them are reaped when the next server starts.
+ */
+export class Lifecycle {
+  private readonly dir: string;
+  private pids = new Set<number>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Track a child process until it exits.
+   */
+  track(child: ChildProcess) {
+    const pid = child.pid;
+
+    if (typeof pid !== 'number' || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    this.pids.add(pid);
+    this.write();
+
+    child.once('exit', () => {
+      this.pids.delete(pid);
+      this.write();
+    });
+  }
+
+  /**
+   * Stop the processes left behind by servers which did not shut down gracefully, along with
+   * their process groups. Returns the number of processes signaled.
+   *
+   * Must run before this server starts any process.
+   */
+  async reap(gracePeriod: number = KILL_GRACE_PERIOD) {
+    let entries: string[];
+
+    try {
+      entries = await fs.promises.readdir(this.dir);
+    } catch {
+      return 0;
+    }
+
+    const leftovers: number[] = [];
+
+    for (const entry of entries) {
+      const owner = Number(Path.basename(entry, '.json'));
+
+      // A server still running owns its processes. Ours can only be a previous server's file
+      // when its pid was reused, e.g. in containers where the server always gets the same pid.
+      if (!Number.isInteger(owner) || (owner !== process.pid && isAlive(owner))) {
+        continue;
+      }
+
+      const file = Path.join(this.dir, entry);
+
+      try {
+        const data = JSON.parse(await fs.promises.readFile(file, 'utf8')) as PidFileType;
+
+        // After a reboot, the pids have been handed out again to unrelated processes.
+        if (Math.abs(data.bootedAt - bootedAt()) < BOOT_TIME_TOLERANCE) {
+          leftovers.push(...data.pids);
+        }
+      } catch (e) {
+        console.error(`Ignoring unreadable pid file ${file}:`, e);
+      }
+
+      await fs.promises.rm(file, { force: true });
+    }
+
+    return stop(leftovers, gracePeriod);
+  }
+
+  /**
+   * Stop every tracked process along with its process group, for the server to exit.
+   */
+  async shutdown(gracePeriod: number = KILL_GRACE_PERIOD) {
+    await stop([...this.pids], gracePeriod);
+
+    this.pids.clear();
+    fs.rmSync(this.file, { force: true });
+  }
+
+  private get file() {
+    return Path.join(this.dir, `${process.pid}.json`);
+  }
+
+  // Written synchronously, so the file is up to date should the server crash at any point.
+  private write() {
+    if (this.pids.size === 0) {
+      fs.rmSync(this.file, { force: true });
+      return;
+    }
+
+    const data: PidFileType = { bootedAt: bootedAt(), pids: [...this.pids] };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(data));
+  }
+}
+
+export default new Lifecycle(Path.join(SRCBOOK_DIR, 'pids'));
@@ -15,6 +15,16 @@ import {
 } from '../session.mjs';
 import { toValidPackageName } from '../apps/utils.mjs';
 import { npmInstall } from '../exec.mjs';
+import { getSecretsAssociatedWithSession } from '../config.mjs';
+import { parametersEnv } from '../parameters.mjs';
+import { hashSource, recordExecution } from '../executions.mjs';
+import {
+  codeCellsInScope,
+  execCodeCellProcess,
+  runCodeCells,
+  type CodeCellExitType,
+} from '../srcbook/run.mjs';
+import type { CodeCellType, DisplayDataType } from '@srcbook/shared';
 import Path from 'node:path';
 import { SRCBOOKS_DIR } from '../constants.mjs';
 import type { MCPConfig, MCPFeatureFlags } from './config.mjs';
@@ -31,6 +41,12 @@ export interface MCPServerConfig {
   enablePrompts?: boolean;
 }
 
+interface CodeCellOutputsType {
+  stdout: string;
+  stderr: string;
+  display: DisplayDataType[];
+}
+
 export class ChassitMCPServer {
   private server: Server;
   private config: MCPConfig;
@@ -234,7 +250,7 @@ export class ChassitMCPServer {
             },
             executeAll: {
               type: 'boolean',
-              description: 'Execute all cells if true'
+              description: 'Execute all code cells in order if true, stopping at the first one that fails'
             }
           },
           required: ['sessionId']
@@ -473,14 +489,21 @@ export class ChassitMCPServer {
 
     try {
       const session = await findSession(sessionId);
+      const secrets = await getSecretsAssociatedWithSession(session.id);
 
       if (executeAll) {
-        // Execute all code cells in sequence
-        const codeCells = session.cells.filter(cell => cell.type === 'code');
+        // Execute all code cells in sequence, stopping at the first one that fails
+        const outputs: Record<string, CodeCellOutputsType> = {};
+        const result = await runCodeCells(codeCellsInScope(session.cells, 'all'), async (cell) => {
+          const { exitCode, signal, ...output } = await this.runCodeCell(session, cell, secrets);
+          outputs[cell.id] = output;
+          return { exitCode, signal };
+        });
+
         return {
-          success: true,
-          message: `Would execute ${codeCells.length} code cells`,
-          cells: codeCells.map(cell => cell.id)
+          success: result.success,
+          results: result.results.map(r => ({ ...r, ...outputs[r.cellId] })),
+          skipped: result.skipped
         };
       } else if (cellId) {
         const cell = findCell(session, cellId);
@@ -492,10 +515,12 @@ export class ChassitMCPServer {
           throw new Error('Only code cells can be executed');
         }
 
+        const result = await this.runCodeCell(session, cell, secrets);
+
         return {
-          success: true,
-          message: `Would execute cell ${cellId}`,
-          cell: cell
+          success: result.exitCode === 0,
+          cellId: cell.id,
+          ...result
         };
       } else {
         throw new Error('Either cellId or executeAll must be provided');
@@ -508,6 +533,54 @@ export class ChassitMCPServer {
     }
   }
 
+  // The MCP server runs apart from the Srcbook server, so cells run by agents are neither
+  // queued with the cells run from the session view nor shown there while running. Like
+  // those, they are sandboxed with the session's permissions and their runs are recorded.
+  private async runCodeCell(
+    session: SessionType,
+    cell: CodeCellType,
+    secrets: Record<string, string>,
+  ): Promise<CodeCellExitType & CodeCellOutputsType> {
+    let stdout = '';
+    let stderr = '';
+    const display: DisplayDataType[] = [];
+    let outputSize = 0;
+
+    const startedAt = Date.now();
+
+    const { exitCode, signal } = await execCodeCellProcess(session, cell, {
+      dir: session.dir,
+      env: { ...secrets, ...parametersEnv(session) },
+      stdout: (data) => {
+        outputSize += data.length;
+        stdout += data.toString('utf8');
+      },
+      stderr: (data) => {
+        outputSize += data.length;
+        stderr += data.toString('utf8');
+      },
+      onDisplay: (data) => {
+        display.push(data);
+      },
+      onLimitExceeded: (limit) => {
+        stderr += `\nCell exceeded its ${limit} limit and was stopped.\n`;
+      },
+    });
+
+    recordExecution({
+      sessionId: session.id,
+      cellId: cell.id,
+      sourceHash: hashSource(cell.source),
+      startedAt,
+      endedAt: Date.now(),
+      exitCode,
+      signal,
+      outputSize,
+    }).catch((error) => console.error('Failed to record execution:', error));
+
+    return { exitCode, signal, stdout, stderr, display };
+  }
+
   private async updateCellContent(args: any) {
     const { sessionId, cellId, content } = args;
 
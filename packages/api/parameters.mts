@@ -0,0 +1,109 @@
+import type { CellType, ParameterType, ParameterValueType } from '@srcbook/shared';
+import type { SessionType } from './types.mjs';
+import { widgetsEnv } from './widgets.mjs';
+
+function findParameter(parameters: ParameterType[], name: string) {
+  const parameter = parameters.find((parameter) => parameter.name === name);
+
+  if (!parameter) {
+    throw new Error(`Unknown parameter '${name}'`);
+  }
+
+  return parameter;
+}
+
+function isParameterValue(parameter: ParameterType, value: ParameterValueType) {
+  return parameter.type === 'number'
+    ? typeof value === 'number' && Number.isFinite(value)
+    : typeof value === parameter.type;
+}
+
+/**
+ * Check that values set for a srcbook's parameters are declared and of the declared type.
+ */
+export function validateParameterValues(
+  parameters: ParameterType[],
+  values: Record<string, ParameterValueType>,
+) {
+  for (const [name, value] of Object.entries(values)) {
+    const parameter = findParameter(parameters, name);
+
+    if (!isParameterValue(parameter, value)) {
+      throw new Error(`Parameter '${name}' must be a ${parameter.type}`);
+    }
+  }
+}
+
+/**
+ * Parse `name=value` as given on the command line into the parameter's type.
+ */
+export function parseParameterAssignment(
+  parameters: ParameterType[],
+  assignment: string,
+): [string, ParameterValueType] {
+  const idx = assignment.indexOf('=');
+
+  if (idx === -1) {
+    throw new Error(`Expected a parameter as name=value, got '${assignment}'`);
+  }
+
+  const name = assignment.slice(0, idx);
+  const text = assignment.slice(idx + 1);
+  const parameter = findParameter(parameters, name);
+
+  switch (parameter.type) {
+    case 'string':
+      return [name, text];
+    case 'number': {
+      const value = Number(text);
+      if (text.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`Parameter '${name}' must be a number, got '${text}'`);
+      }
+      return [name, value];
+    }
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') {
+        throw new Error(`Parameter '${name}' must be true or false, got '${text}'`);
+      }
+      return [name, text === 'true'];
+  }
+}
+
+/**
+ * The environment variables exposing a srcbook's parameters, and the values of its widgets,
+ * to its code cells.
+ *
+ * Values set in the session win over defaults. Parameters with neither are left unset.
+ */
+export function parametersEnv(
+  srcbook: Pick<SessionType, 'parameters' | 'parameterValues'> & { cells?: CellType[] },
+): Record<string, string> {
+  const env: Record<string, string> = widgetsEnv(srcbook.cells ?? []);
+
+  for (const parameter of srcbook.parameters ?? []) {
+    const value = srcbook.parameterValues?.[parameter.name] ?? parameter.default;
+
+    if (value !== undefined) {
+      env[parameter.name] = String(value);
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Declare a parameter's environment variable in env.d.ts, typed after the parameter.
+ */
+export function parameterTypeDeclaration(parameter: ParameterType) {
+  const type =
+    parameter.type === 'number'
+      ? '`${number}`'
+      : parameter.type === 'boolean'
+        ? `'true' | 'false'`
+        : 'string';
+
+  // Without a default the variable is unset until a value is given.
+  const optional = parameter.default === undefined ? '?' : '';
+
+  return `readonly ${parameter.name}${optional}: ${type};`;
+}
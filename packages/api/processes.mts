@@ -1,7 +1,14 @@
 import { ChildProcess } from 'node:child_process';
+import { terminate } from './exec.mjs';
+import lifecycle, { type Lifecycle } from './lifecycle.mjs';
 
 export class Processes {
   private processes: Record<string, ChildProcess> = {};
+  private readonly lifecycle: Lifecycle;
+
+  constructor(processLifecycle: Lifecycle = lifecycle) {
+    this.lifecycle = processLifecycle;
+  }
 
   add(sessionId: string, cellId: string, process: ChildProcess) {
     const key = this.toKey(sessionId, cellId);
@@ -15,9 +22,18 @@ export class Processes {
     }
 
     this.processes[key] = process;
+    this.lifecycle.track(process);
+
+    // Input written as the process exits fails with EPIPE, which would otherwise crash the server.
+    process.stdin?.on('error', (error) => {
+      console.warn(`Input for session ${sessionId} and cell ${cellId} was lost: ${error.message}`);
+    });
 
     process.on('exit', () => {
-      delete this.processes[key];
+      // A restarted kernel is registered under the same key before the old one exits.
+      if (this.processes[key] === process) {
+        delete this.processes[key];
+      }
     });
   }
 
@@ -38,7 +54,51 @@ export class Processes {
       );
     }
 
-    return process.kill('SIGTERM');
+    return terminate(process);
+  }
+
+  /**
+   * Stop every process belonging to the session. Returns the number of processes signaled.
+   */
+  killAll(sessionId: string) {
+    const prefix = this.toKey(sessionId, '');
+
+    let count = 0;
+
+    for (const [key, process] of Object.entries(this.processes)) {
+      if (key.startsWith(prefix) && terminate(process)) {
+        count += 1;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Write to the stdin of a running process, closing it afterwards when `eof` is set.
+   */
+  write(sessionId: string, cellId: string, data: string, eof: boolean = false) {
+    const key = this.toKey(sessionId, cellId);
+
+    const process = this.processes[key];
+
+    if (!process) {
+      throw new Error(
+        `Cannot write to process: no process for session ${sessionId} and cell ${cellId} exists`,
+      );
+    }
+
+    if (!process.stdin || !process.stdin.writable) {
+      throw new Error(
+        `Cannot write to process for session ${sessionId} and cell ${cellId}: its stdin is closed`,
+      );
+    }
+
+    if (eof) {
+      process.stdin.end(data);
+    } else {
+      process.stdin.write(data);
+    }
   }
 
   private toKey(sessionId: string, cellId: string) {
@@ -0,0 +1,241 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  LineMap,
+  randomid,
+  type ProfileFrameType,
+  type ProfileNodeType,
+  type ProfileType,
+} from '@srcbook/shared';
+
+// Where profiles are saved, relative to the srcbook.
+const PROFILES_DIR = 'profiles';
+
+// Where the runtime writes the profiles of a run before they are saved, relative to the srcbook.
+const RUNS_DIR = Path.join('.srcbook', 'profiler');
+
+const SOURCE_MAPS_FILENAME = 'source-maps.json';
+
+// Calls taking less than this share of the whole profile are left out of the UI.
+const MIN_SHARE = 0.001;
+
+export type ProfileOptionsType = {
+  // Where the runtime writes the profiles and source maps of this run.
+  dir: string;
+  heap: boolean;
+};
+
+type CallFrameType = {
+  functionName: string;
+  url: string;
+  // 0-based, -1 when unknown.
+  lineNumber: number;
+};
+
+// See https://chromedevtools.github.io/devtools-protocol/v8/Profiler/#type-Profile
+type CpuProfileType = {
+  nodes: Array<{ id: number; callFrame: CallFrameType; hitCount?: number; children?: number[] }>;
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+};
+
+// See https://chromedevtools.github.io/devtools-protocol/v8/HeapProfiler/#type-SamplingHeapProfile
+type HeapProfileNodeType = {
+  callFrame: CallFrameType;
+  selfSize: number;
+  children: HeapProfileNodeType[];
+};
+
+type TreeType = {
+  callFrame: CallFrameType;
+  self: number;
+  children: TreeType[];
+};
+
+/**
+ * Create the directory the runtime writes the profiles of a run of a cell to.
+ */
+export async function createProfileRun(cwd: string, heap: boolean): Promise<ProfileOptionsType> {
+  const dir = Path.join(cwd, RUNS_DIR, randomid());
+  await fs.mkdir(dir, { recursive: true });
+  return { dir, heap };
+}
+
+/**
+ * Node flags writing a CPU profile, and optionally a heap profile, on exit.
+ *
+ * Node writes one profile per thread, including those of workers and of tsx's loader.
+ */
+export function profileFlags(options: ProfileOptionsType) {
+  const flags = ['--cpu-prof', `--cpu-prof-dir=${options.dir}`];
+
+  if (options.heap) {
+    flags.push('--heap-prof', `--heap-prof-dir=${options.dir}`);
+  }
+
+  return flags;
+}
+
+/**
+ * Environment variables for runtime/source-maps.mjs to write the source maps of the run to.
+ */
+export function sourceMapsEnv(options: ProfileOptionsType): NodeJS.ProcessEnv {
+  return { SRCBOOK_SOURCE_MAPS_PATH: Path.join(options.dir, SOURCE_MAPS_FILENAME) };
+}
+
+/**
+ * Save the profiles of a finished run of `cellFilename` in the srcbook's profiles/ directory,
+ * where they can be opened in Chrome DevTools, and summarize them for the UI.
+ */
+export async function saveProfiles(
+  cwd: string,
+  cellFilename: string,
+  options: ProfileOptionsType,
+): Promise<ProfileType[]> {
+  const filenames = await fs.readdir(options.dir);
+  const lineMaps = await readLineMaps(options.dir);
+  const name = `${Path.parse(cellFilename).name}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const profiles: ProfileType[] = [];
+
+  await fs.mkdir(Path.join(cwd, PROFILES_DIR), { recursive: true });
+
+  for (const kind of ['cpu', 'heap'] as const) {
+    const extension = kind === 'cpu' ? '.cpuprofile' : '.heapprofile';
+    // Named <kind>.<date>.<time>.<pid>.<thread id>.<sequence>, the main thread's id is 0.
+    const filename = filenames.find((f) => f.endsWith(extension) && f.split('.')[4] === '0');
+
+    if (!filename) {
+      continue;
+    }
+
+    const path = Path.join(PROFILES_DIR, name + extension);
+    const contents = JSON.parse(await fs.readFile(Path.join(options.dir, filename), 'utf8'));
+    const tree = kind === 'cpu' ? cpuProfileTree(contents) : heapProfileTree(contents.head);
+
+    await fs.rename(Path.join(options.dir, filename), Path.join(cwd, path));
+
+    profiles.push({ kind, path, ...flatten(tree, Path.join(cwd, 'src'), lineMaps) });
+  }
+
+  await fs.rm(options.dir, { recursive: true, force: true });
+
+  return profiles;
+}
+
+async function readLineMaps(dir: string) {
+  const lineMaps = new Map<string, LineMap>();
+
+  try {
+    const mappings = JSON.parse(await fs.readFile(Path.join(dir, SOURCE_MAPS_FILENAME), 'utf8'));
+
+    for (const [url, lineMappings] of Object.entries(mappings)) {
+      lineMaps.set(url, new LineMap(lineMappings as string));
+    }
+  } catch {
+    // JavaScript cells run as is and have no source maps.
+  }
+
+  return lineMaps;
+}
+
+function cpuProfileTree(profile: CpuProfileType): TreeType {
+  const samples = profile.samples?.length ?? 0;
+  const interval = samples > 0 ? (profile.endTime - profile.startTime) / samples : 0;
+  const byId = new Map(profile.nodes.map((node) => [node.id, node]));
+
+  function toTree(id: number): TreeType {
+    const node = byId.get(id)!;
+
+    return {
+      callFrame: node.callFrame,
+      self: (node.hitCount ?? 0) * interval,
+      children: (node.children ?? []).map(toTree),
+    };
+  }
+
+  return toTree(profile.nodes[0]!.id);
+}
+
+function heapProfileTree(node: HeapProfileNodeType): TreeType {
+  return {
+    callFrame: node.callFrame,
+    self: node.selfSize,
+    children: node.children.map(heapProfileTree),
+  };
+}
+
+/**
+ * Flatten a call tree into nodes and the frames they call, leaving out calls too small to
+ * see, and map frames in cells back to the cells' sources.
+ */
+function flatten(tree: TreeType, srcDir: string, lineMaps: Map<string, LineMap>) {
+  const frames: ProfileFrameType[] = [];
+  const frameIndexes = new Map<string, number>();
+  const nodes: ProfileNodeType[] = [];
+  const totals = new Map<TreeType, number>();
+
+  function total(node: TreeType): number {
+    if (!totals.has(node)) {
+      totals.set(
+        node,
+        node.children.reduce((sum, child) => sum + total(child), node.self),
+      );
+    }
+
+    return totals.get(node)!;
+  }
+
+  const min = Math.max(total(tree) * MIN_SHARE, Number.MIN_VALUE);
+
+  function frameIndex(callFrame: CallFrameType) {
+    const key = `${callFrame.functionName}:${callFrame.url}:${callFrame.lineNumber}`;
+
+    if (!frameIndexes.has(key)) {
+      frameIndexes.set(key, frames.length);
+      frames.push(toFrame(callFrame, srcDir, lineMaps));
+    }
+
+    return frameIndexes.get(key)!;
+  }
+
+  function visit(node: TreeType, parent: number | null) {
+    const index = nodes.length;
+
+    nodes.push({ frame: frameIndex(node.callFrame), parent, self: node.self });
+
+    for (const child of node.children) {
+      if (total(child) >= min) {
+        visit(child, index);
+      }
+    }
+  }
+
+  visit(tree, null);
+
+  return { frames, nodes };
+}
+
+function toFrame(
+  callFrame: CallFrameType,
+  srcDir: string,
+  lineMaps: Map<string, LineMap>,
+): ProfileFrameType {
+  const path = callFrame.url.startsWith('file:') ? fileURLToPath(callFrame.url) : null;
+  const filename = path && Path.dirname(path) === srcDir ? Path.basename(path) : null;
+  const lineMap = lineMaps.get(callFrame.url);
+
+  let line = callFrame.lineNumber;
+
+  if (line >= 0 && lineMap) {
+    line = lineMap.originalLine(line) ?? line;
+  }
+
+  return {
+    functionName: callFrame.functionName,
+    filename,
+    url: callFrame.url,
+    line: line + 1,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Rich display for code cells.
+ *
+ * The server preloads this module (`node --import`) into every process running a cell,
+ * including kernels. It defines a global `display` that cells use to show values as
+ * more than text:
+ *
+ *     display.html('<h1>Hello</h1>');
+ *     display.json({ some: ['nested', 'value'] });
+ *     display.png(fs.readFileSync('chart.png'));
+ *     display.svg('<svg>...</svg>');
+ *     display.table([{ name: 'a', count: 1 }, { name: 'b', count: 2 }]);
+ *
+ * or with a MIME bundle containing several representations of the same value:
+ *
+ *     display({ 'text/html': '<b>1</b>', 'text/plain': '1' });
+ *
+ * Bundles are sent to the server over the IPC channel rather than stdout, so they
+ * never mix with the cell's text output:
+ *
+ *     cell -> server: { type: 'display', data: <MIME bundle> }
+ *
+ * Without an IPC channel, e.g. when running a cell file by hand, the plain text
+ * representation is printed to stdout instead.
+ */
+import { inspect } from 'node:util';
+
+const TABLE_MIME_TYPE = 'application/vnd.srcbook.table+json';
+
+function send(bundle) {
+  if (typeof process.send === 'function' && process.connected) {
+    process.send({ type: 'display', data: bundle });
+  } else if (bundle['text/plain'] !== undefined) {
+    console.log(bundle['text/plain']);
+  }
+}
+
+function toBase64(data) {
+  return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
+
+function toTable(rows) {
+  const columns = [];
+
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  return { columns, rows: rows.map((row) => columns.map((column) => row[column] ?? null)) };
+}
+
+function display(bundle) {
+  if (bundle === null || typeof bundle !== 'object') {
+    throw new TypeError('display() expects a MIME bundle, e.g. { "text/html": "<b>hi</b>" }');
+  }
+  send(bundle);
+}
+
+display.html = (html) => send({ 'text/html': String(html), 'text/plain': String(html) });
+
+display.json = (value) =>
+  send({
+    // Round trip through JSON so that only serializable data is sent.
+    'application/json': JSON.parse(JSON.stringify(value) ?? 'null'),
+    'text/plain': inspect(value, { depth: 4 }),
+  });
+
+// Accepts a Buffer or a base64 encoded string.
+display.png = (data) => send({ 'image/png': toBase64(data), 'text/plain': '[image/png]' });
+
+display.svg = (svg) => send({ 'image/svg+xml': String(svg), 'text/plain': '[image/svg+xml]' });
+
+// Accepts an array of objects, one per row. Columns are the union of their keys.
+display.table = (rows) => {
+  const table = toTable(JSON.parse(JSON.stringify(rows)));
+  send({ [TABLE_MIME_TYPE]: table, 'text/plain': inspect(rows) });
+};
+
+globalThis.display = display;
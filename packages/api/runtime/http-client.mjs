@@ -0,0 +1,176 @@
+/**
+ * Sends the requests of an HTTP cell, one after another:
+ *
+ *     SRCBOOK_HTTP_VARIABLES='{"API_TOKEN":"..."}' node ./runtime/http-client.mjs <src/users.http>
+ *
+ * Requests are written like in .http files: a request line, headers, then a body after an
+ * empty line. Lines starting with ### separate requests, and those starting with # or //
+ * before the body are comments. {{NAME}} is replaced with the variable NAME.
+ *
+ * Each response is sent to the server over the IPC channel (see ./display.mjs):
+ *
+ *     http-client -> server: { type: 'display', data: { 'application/vnd.srcbook.http+json': ... } }
+ *
+ * Responses with error statuses are displayed like any other. Requests which cannot be
+ * sent, like those using unknown variables, are reported on stderr and stop the run with 1.
+ */
+import fs from 'node:fs';
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+
+const HTTP_MIME_TYPE = 'application/vnd.srcbook.http+json';
+
+// Characters of a body displayed, so huge responses do not end up in outputs.
+const MAX_BODY_LENGTH = 1024 * 1024;
+
+const REQUEST_LINE_RE = /^(?:([A-Z]+)\s+)?(\S+)(?:\s+HTTP\/[\d.]+)?$/;
+const HEADER_RE = /^([^:\s]+)\s*:\s*(.*)$/;
+const VARIABLE_RE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+function isComment(line) {
+  return line.startsWith('#') || line.startsWith('//');
+}
+
+/**
+ * Parse the requests of an .http file. Throws on invalid requests, naming the line.
+ */
+export function parseRequests(source) {
+  const requests = [];
+  const lines = source.split(/\r?\n/);
+  let i = 0;
+
+  while (i < lines.length) {
+    // Skip separators, comments and blank lines up to the request line.
+    while (i < lines.length && (lines[i].trim() === '' || isComment(lines[i].trim()))) {
+      i += 1;
+    }
+
+    if (i === lines.length) {
+      break;
+    }
+
+    const match = lines[i].trim().match(REQUEST_LINE_RE);
+
+    if (!match) {
+      throw new Error(`Line ${i + 1}: expected a request line like 'GET https://example.com'`);
+    }
+
+    const request = { method: match[1] ?? 'GET', url: match[2], headers: [], body: undefined };
+    i += 1;
+
+    // Query parameters may continue on the following lines.
+    while (i < lines.length && /^\s*[?&]/.test(lines[i])) {
+      request.url += lines[i].trim();
+      i += 1;
+    }
+
+    while (i < lines.length && lines[i].trim() !== '' && !lines[i].startsWith('###')) {
+      const line = lines[i].trim();
+
+      if (!isComment(line)) {
+        const header = line.match(HEADER_RE);
+
+        if (!header) {
+          throw new Error(`Line ${i + 1}: expected a header like 'Accept: application/json'`);
+        }
+
+        request.headers.push([header[1], header[2]]);
+      }
+
+      i += 1;
+    }
+
+    const body = [];
+
+    while (i < lines.length && !lines[i].startsWith('###')) {
+      body.push(lines[i]);
+      i += 1;
+    }
+
+    const text = body.join('\n').trim();
+
+    if (text !== '') {
+      request.body = text;
+    }
+
+    requests.push(request);
+  }
+
+  return requests;
+}
+
+/**
+ * Replace {{NAME}} with the value of the variable NAME. Throws on unknown variables.
+ */
+export function interpolate(text, variables) {
+  return text.replace(VARIABLE_RE, (_match, name) => {
+    if (!Object.hasOwn(variables, name)) {
+      throw new Error(
+        `Unknown variable {{${name}}}. Associate a secret named ${name} with this srcbook.`,
+      );
+    }
+    return variables[name];
+  });
+}
+
+function send(response) {
+  const summary = `${response.method} ${response.url}: ${response.status} ${response.statusText}`;
+
+  if (typeof process.send === 'function' && process.connected) {
+    process.send({ type: 'display', data: { [HTTP_MIME_TYPE]: response, 'text/plain': summary } });
+  } else {
+    console.log(summary);
+  }
+}
+
+async function sendRequest(request, variables) {
+  const startedAt = performance.now();
+
+  const response = await fetch(interpolate(request.url, variables), {
+    method: request.method,
+    headers: request.headers.map(([name, value]) => [name, interpolate(value, variables)]),
+    body: request.body === undefined ? undefined : interpolate(request.body, variables),
+  });
+
+  const body = await response.text();
+
+  return {
+    method: request.method,
+    url: request.url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body: body.slice(0, MAX_BODY_LENGTH),
+    truncated: body.length > MAX_BODY_LENGTH,
+    duration: Math.round(performance.now() - startedAt),
+  };
+}
+
+async function main() {
+  const [entry] = process.argv.slice(2);
+  const variables = JSON.parse(process.env.SRCBOOK_HTTP_VARIABLES ?? '{}');
+  const requests = parseRequests(fs.readFileSync(entry, 'utf8'));
+
+  if (requests.length === 0) {
+    console.log('No requests to send.');
+    return;
+  }
+
+  for (const request of requests) {
+    try {
+      send(await sendRequest(request, variables));
+    } catch (error) {
+      // Network errors from fetch carry what went wrong in their cause.
+      const reason = error.cause?.message ?? error.message;
+      throw new Error(`${request.method} ${request.url}: ${reason}`);
+    }
+  }
+}
+
+// Compared as URLs, since paths to the server may contain characters which are escaped in URLs.
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Module customization hooks for the srcbook kernel (see ./kernel.mjs).
+ *
+ * Node caches ES modules by URL, so once a cell file has been imported its module
+ * instance lives for the lifetime of the kernel. To re-run a cell, the kernel imports
+ * it again under a new URL (`?srcbook-run=<n>`). These hooks make sure that every
+ * other import of that file resolves to the most recent run, so that importing
+ * `./data.ts` from another cell shares the in-memory state of the last execution
+ * instead of evaluating the file again.
+ *
+ * These hooks run on a separate thread. The kernel tells us about new runs over the
+ * `port` passed to `initialize` and waits for an acknowledgement before importing.
+ */
+
+const RUN_PARAM = 'srcbook-run';
+
+// File URL (without search params) -> latest run number
+const runs = new Map();
+
+export function initialize({ port }) {
+  port.on('message', (message) => {
+    runs.set(message.url, message.run);
+    port.postMessage({ ack: message.id });
+  });
+
+  // Do not keep the hooks thread alive because of the port.
+  port.unref();
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  const result = await nextResolve(specifier, context);
+
+  if (!result.url.startsWith('file:')) {
+    return result;
+  }
+
+  const url = new URL(result.url);
+
+  // Imports that already point to a specific run (the kernel's own imports) are left as is.
+  if (url.searchParams.has(RUN_PARAM)) {
+    return result;
+  }
+
+  const run = runs.get(url.href);
+
+  if (run === undefined) {
+    return result;
+  }
+
+  url.searchParams.set(RUN_PARAM, String(run));
+
+  return { ...result, url: url.href };
+}
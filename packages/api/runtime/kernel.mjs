@@ -0,0 +1,107 @@
+/**
+ * Entry point of a srcbook kernel process.
+ *
+ * A kernel is a long-lived process, started by the server for a single session, that
+ * evaluates code cells as ES modules in one shared module graph. Because modules stay
+ * in memory between runs, a cell can import another cell (`import { rows } from './load.ts'`)
+ * and get the values computed by its last run instead of evaluating it again.
+ *
+ * For TypeScript srcbooks this file is run through `tsx`, which registers its own loader
+ * so `.ts` cells can be imported here as well. Sandboxed kernels run with node and import
+ * the compiled cells instead.
+ *
+ * The server talks to the kernel over the IPC channel:
+ *
+ *     server -> kernel: { type: 'exec', id, entry, env }
+ *     kernel -> server: { type: 'ready' }
+ *     kernel -> server: { type: 'result', id, code }
+ *     kernel -> server: { type: 'display', data }  (sent by cells, see ./display.mjs)
+ *
+ * stdout and stderr of the kernel are attributed to the cell currently executing.
+ */
+import { register } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { MessageChannel } from 'node:worker_threads';
+
+const { port1, port2 } = new MessageChannel();
+
+let ackSeq = 0;
+const pendingAcks = new Map();
+
+// `register` is only available from node 20.6 and 18.19. Without it, re-running a cell
+// still works, but other cells importing it keep the module instance they first saw.
+// Hooks run on a worker thread, which sandboxed kernels may not be allowed to start.
+const canRegisterHooks =
+  typeof register === 'function' && (!process.permission || process.permission.has('worker'));
+
+if (canRegisterHooks) {
+  register('./kernel-hooks.mjs', {
+    parentURL: import.meta.url,
+    data: { port: port2 },
+    transferList: [port2],
+  });
+
+  port1.on('message', (message) => {
+    const resolve = pendingAcks.get(message.ack);
+    pendingAcks.delete(message.ack);
+    resolve?.();
+  });
+
+  port1.unref();
+}
+
+// File URL -> number of times it has been run by the kernel.
+const runs = new Map();
+
+function nextRun(url) {
+  const run = (runs.get(url) ?? 0) + 1;
+  runs.set(url, run);
+
+  if (!canRegisterHooks) {
+    return Promise.resolve(run);
+  }
+
+  return new Promise((resolve) => {
+    const id = ackSeq++;
+    pendingAcks.set(id, () => resolve(run));
+    port1.postMessage({ id, url, run });
+  });
+}
+
+async function exec({ id, entry, env }) {
+  Object.assign(process.env, env);
+
+  const url = pathToFileURL(entry).href;
+  const run = await nextRun(url);
+
+  try {
+    await import(`${url}?srcbook-run=${run}`);
+    process.send({ type: 'result', id, code: 0 });
+  } catch (error) {
+    console.error(error);
+    process.send({ type: 'result', id, code: 1 });
+  }
+}
+
+// Errors thrown outside of a cell's top-level evaluation, for example in a timer, must
+// not take down the kernel and all of its state.
+process.on('uncaughtException', (error) => {
+  console.error(error);
+});
+
+process.on('unhandledRejection', (reason) => {
+  console.error(reason);
+});
+
+process.on('message', (message) => {
+  if (message.type === 'exec') {
+    exec(message);
+  }
+});
+
+// Exit when the server goes away instead of lingering as an orphan.
+process.on('disconnect', () => {
+  process.exit(0);
+});
+
+process.send({ type: 'ready' });
@@ -0,0 +1,12 @@
+/**
+ * Entry point for runtimes that do not preload modules from NODE_OPTIONS, i.e. bun and deno.
+ *
+ *     bun runtime/launch.mjs /path/to/srcbook/src/cell.ts
+ *
+ * Defines the `display` global (see display.mjs) and then runs the cell.
+ */
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+import './display.mjs';
+
+await import(pathToFileURL(process.argv[2]).href);
@@ -0,0 +1,50 @@
+/**
+ * Source maps of the cells a process ran, for mapping profiles back to the cells' sources.
+ *
+ * The server preloads this module (`node --import`) into processes running a cell with
+ * the profiler. V8 profiles locate functions in the code it ran, which for TypeScript
+ * cells is what tsx compiled them to. On exit, the mappings of every module with a
+ * source map in the srcbook's src/ directory are written as JSON to the path in
+ * SRCBOOK_SOURCE_MAPS_PATH:
+ *
+ *     { "file:///.../src/cell.ts": "<mappings>" }
+ *
+ * Nothing is written when no module has one, e.g. for JavaScript cells or in the process
+ * of the tsx command, which starts the one running the cell.
+ */
+import fs from 'node:fs';
+import Path from 'node:path';
+import { findSourceMap } from 'node:module';
+import { pathToFileURL } from 'node:url';
+
+const outputPath = process.env.SRCBOOK_SOURCE_MAPS_PATH;
+const srcDir = Path.join(process.cwd(), 'src');
+
+process.on('exit', () => {
+  if (!outputPath) {
+    return;
+  }
+
+  const mappings = {};
+
+  let filenames = [];
+
+  try {
+    filenames = fs.readdirSync(srcDir);
+  } catch {
+    return;
+  }
+
+  for (const filename of filenames) {
+    const url = pathToFileURL(Path.join(srcDir, filename)).href;
+    const sourceMap = findSourceMap(url);
+
+    if (sourceMap) {
+      mappings[url] = sourceMap.payload.mappings;
+    }
+  }
+
+  if (Object.keys(mappings).length > 0) {
+    fs.writeFileSync(outputPath, JSON.stringify(mappings));
+  }
+});
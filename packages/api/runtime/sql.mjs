@@ -0,0 +1,167 @@
+/**
+ * Runs the statements of a SQL cell against a SQLite database:
+ *
+ *     node ./runtime/sql.mjs <database> <src/users.sql> <src/users.json>
+ *
+ * Statements run one after another. The rows returned by the last statement returning any
+ * are written to the results file as a JSON array of objects keyed by column, and sent to
+ * the server over the IPC channel as a table (see ./display.mjs):
+ *
+ *     sql -> server: { type: 'display', data: { 'application/vnd.srcbook.table+json': ... } }
+ *
+ * Errors are printed to stderr, and the process exits with 1.
+ */
+import fs from 'node:fs';
+import Path from 'node:path';
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+import Database from 'better-sqlite3';
+
+const TABLE_MIME_TYPE = 'application/vnd.srcbook.table+json';
+
+// Rows sent to the server to display. All of them are in the results file.
+const MAX_DISPLAY_ROWS = 1000;
+
+const COMMENTS = /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g;
+
+/**
+ * Split SQL after the semicolons ending statements, leaving alone those in strings, quoted
+ * identifiers and comments. Statements with semicolons of their own, like the body of a
+ * trigger, are put back together when they are prepared.
+ */
+export function splitStatements(sql) {
+  const statements = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    let end = i + 1;
+
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      end = sql.indexOf(char === '[' ? ']' : char, i + 1) + 1;
+    } else if (sql.startsWith('--', i)) {
+      end = sql.indexOf('\n', i) + 1;
+    } else if (sql.startsWith('/*', i)) {
+      end = sql.indexOf('*/', i + 2) + 2;
+    } else if (char === ';') {
+      statements.push(sql.slice(start, end));
+      start = end;
+    }
+
+    // Unterminated strings and comments run to the end.
+    i = end > i ? end : sql.length;
+  }
+
+  statements.push(sql.slice(start));
+
+  return statements;
+}
+
+function isBlank(sql) {
+  return sql.replace(COMMENTS, '').replace(/;/g, '').trim() === '';
+}
+
+function isIncomplete(error) {
+  return error?.code === 'SQLITE_ERROR' && error.message === 'incomplete input';
+}
+
+// Blobs are not JSON, they are kept as base64.
+function toJSONValue(value) {
+  return Buffer.isBuffer(value) ? value.toString('base64') : value;
+}
+
+/**
+ * Run the statements and return the rows of the last one returning any, along with the
+ * number of rows changed by the others.
+ */
+export function runStatements(db, sql) {
+  let results = null;
+  let changes = 0;
+  let pending = '';
+
+  for (const part of splitStatements(sql)) {
+    pending += part;
+
+    if (isBlank(pending)) {
+      pending = '';
+      continue;
+    }
+
+    let statement;
+
+    try {
+      statement = db.prepare(pending);
+    } catch (error) {
+      if (isIncomplete(error)) {
+        continue;
+      }
+      throw error;
+    }
+
+    pending = '';
+
+    if (statement.reader) {
+      const columns = statement.columns().map((column) => column.name);
+      const rows = statement.raw(true).all();
+      results = { columns, rows: rows.map((row) => row.map(toJSONValue)) };
+    } else {
+      changes += statement.run().changes;
+    }
+  }
+
+  // What is left is an incomplete statement, preparing it reports the error.
+  if (pending !== '') {
+    db.prepare(pending);
+  }
+
+  return { results, changes };
+}
+
+function main() {
+  const [database, query, resultsPath] = process.argv.slice(2);
+
+  // Not creating databases from typos in the connection.
+  const db = new Database(database, { fileMustExist: true });
+
+  try {
+    const { results, changes } = runStatements(db, fs.readFileSync(query, 'utf8'));
+    const resultsFilename = Path.basename(resultsPath);
+
+    if (results === null) {
+      fs.writeFileSync(resultsPath, '[]');
+      console.log(`${changes} rows changed`);
+      return;
+    }
+
+    const objects = results.rows.map((row) =>
+      Object.fromEntries(results.columns.map((column, idx) => [column, row[idx]])),
+    );
+
+    fs.writeFileSync(resultsPath, JSON.stringify(objects));
+
+    const table = { columns: results.columns, rows: results.rows.slice(0, MAX_DISPLAY_ROWS) };
+
+    if (typeof process.send === 'function' && process.connected) {
+      process.send({ type: 'display', data: { [TABLE_MIME_TYPE]: table } });
+    }
+
+    console.log(
+      results.rows.length > MAX_DISPLAY_ROWS
+        ? `${results.rows.length} rows, the first ${MAX_DISPLAY_ROWS} shown. All are in ${resultsFilename}.`
+        : `${results.rows.length} rows, saved to ${resultsFilename}.`,
+    );
+  } finally {
+    db.close();
+  }
+}
+
+// Compared as URLs, since paths to the server may contain characters which are escaped in URLs.
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error.message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Reporter for the node test runner, used to run test cells:
+ *
+ *     node --test --test-reporter=./runtime/test-reporter.mjs src/math.test.mjs
+ *
+ * Results are sent to the server over the IPC channel as each test finishes, named
+ * after the suites containing them:
+ *
+ *     reporter -> server: { type: 'test:result', result: { name, status, duration, error? } }
+ *
+ * What the tests print is written to stdout and stderr as is.
+ */
+import process from 'node:process';
+
+function status(event) {
+  if (event.data.todo !== undefined && event.data.todo !== false) {
+    return 'todo';
+  }
+
+  if (event.data.skip !== undefined && event.data.skip !== false) {
+    return 'skip';
+  }
+
+  return event.type === 'test:pass' ? 'pass' : 'fail';
+}
+
+// Failures wrap what the test threw in an ERR_TEST_FAILURE error.
+function formatError(error) {
+  const cause = error?.cause ?? error;
+
+  if (cause === undefined || cause === null) {
+    return undefined;
+  }
+
+  return cause.stack || cause.message || String(cause);
+}
+
+export default async function* reporter(source) {
+  // Names of the suites the running test is in, by nesting level. Tests in a file run
+  // one after another, so a test finishes before the next one at its level starts.
+  const suites = [];
+
+  for await (const event of source) {
+    switch (event.type) {
+      case 'test:start':
+        suites[event.data.nesting] = event.data.name;
+        suites.length = event.data.nesting + 1;
+        break;
+      case 'test:pass':
+      case 'test:fail': {
+        const { details } = event.data;
+
+        // Suites and tests with subtests only count when they fail for a reason of their
+        // own, like a failing hook, not because one of their tests failed.
+        const failedSubtests = details.error?.failureType === 'subtestsFailed';
+        if ((details.type === 'suite' && event.type === 'test:pass') || failedSubtests) {
+          break;
+        }
+
+        const result = {
+          name: [...suites.slice(0, event.data.nesting), event.data.name].join(' › '),
+          status: status(event),
+          duration: details.duration_ms ?? 0,
+        };
+
+        if (result.status === 'fail') {
+          result.error = formatError(details.error);
+        }
+
+        if (process.send) {
+          process.send({ type: 'test:result', result });
+        } else {
+          yield `${result.status} ${result.name}\n`;
+        }
+        break;
+      }
+      case 'test:stdout':
+        yield event.data.message;
+        break;
+      case 'test:stderr':
+        process.stderr.write(event.data.message);
+        break;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import Path from 'node:path';
+import { execFile } from 'node:child_process';
+import type { CodeLanguageType, RuntimeAvailabilityType, RuntimeType } from '@srcbook/shared';
+import type { SessionType } from './types.mjs';
+
+export const RUNTIMES: RuntimeType[] = ['node', 'tsx', 'bun', 'deno'];
+
+export function defaultRuntime(language: CodeLanguageType): RuntimeType {
+  return language === 'typescript' ? 'tsx' : 'node';
+}
+
+export function supportsLanguage(runtime: RuntimeType, language: CodeLanguageType) {
+  return runtime !== 'node' || language === 'javascript';
+}
+
+/**
+ * The runtime executing code cells of the given language in the session.
+ */
+export function runtimeFor(session: Pick<SessionType, 'runtime'>, language: CodeLanguageType) {
+  return session.runtime ?? defaultRuntime(language);
+}
+
+// Like in exec.mts, tsx is expected in the srcbook's node_modules.
+function runtimeCommand(runtime: RuntimeType, dir: string) {
+  return runtime === 'tsx' ? Path.join(dir, 'node_modules', '.bin', 'tsx') : runtime;
+}
+
+function version(command: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(command, ['--version'], { timeout: 5000 }, (error, stdout) => {
+      // e.g. 'v22.9.0', 'tsx v4.19.1' or 'deno 2.0.0 (stable, release, x86_64-apple-darwin)'.
+      resolve(error ? null : (stdout.trim().split('\n')[0] ?? null));
+    });
+  });
+}
+
+/**
+ * Which runtimes can execute the code cells of the srcbook in `dir`.
+ */
+export async function detectRuntimes(dir: string): Promise<RuntimeAvailabilityType[]> {
+  return Promise.all(
+    RUNTIMES.map(async (runtime) => {
+      const detected = await version(runtimeCommand(runtime, dir));
+      return { runtime, available: detected !== null, version: detected };
+    }),
+  );
+}
@@ -0,0 +1,253 @@
+import fs from 'node:fs';
+import Path from 'node:path';
+import ts from 'typescript';
+import type { PermissionsType, RuntimeType } from '@srcbook/shared';
+import { RUNTIME_DIR } from './constants.mjs';
+
+const NODE_FLAGS = process.allowedNodeEnvironmentFlags;
+
+// The flag turning on node's permission model, experimental before node 22 and missing before node 20.
+const PERMISSION_FLAG = ['--permission', '--experimental-permission'].find((flag) =>
+  NODE_FLAGS.has(flag),
+);
+
+// Variables of the server's environment sandboxed cells always get, so that the runtime can start.
+const REQUIRED_ENV = ['PATH', 'SYSTEMROOT'];
+
+// Where TypeScript cells are compiled to before running sandboxed, relative to the srcbook.
+const COMPILED_DIR = Path.join('.srcbook', 'compiled');
+
+const COMPILED_EXTENSIONS: Record<string, string> = {
+  '.ts': '.js',
+  '.mts': '.mjs',
+  '.cts': '.cjs',
+  '.tsx': '.js',
+};
+
+/**
+ * Why the cells of a sandboxed srcbook cannot run with `runtime`, or null if they can.
+ */
+export function sandboxUnavailableReason(runtime: RuntimeType) {
+  if (runtime === 'bun') {
+    return 'Bun has no permission model to run sandboxed cells with.';
+  }
+
+  if (runtime !== 'deno' && !PERMISSION_FLAG) {
+    return `Node ${process.version} has no permission model to run sandboxed cells with. Sandboxing requires node 20 or later.`;
+  }
+
+  return null;
+}
+
+/**
+ * The environment of a code cell: the server's own environment plus `env`, or only the
+ * variables the permissions allow plus `env` when the cell runs sandboxed.
+ */
+export function cellEnv(env: NodeJS.ProcessEnv, permissions?: PermissionsType): NodeJS.ProcessEnv {
+  if (!permissions) {
+    return { ...process.env, ...env };
+  }
+
+  const allowed: NodeJS.ProcessEnv = {};
+
+  for (const name of [...REQUIRED_ENV, ...permissions.env]) {
+    if (process.env[name] !== undefined) {
+      allowed[name] = process.env[name];
+    }
+  }
+
+  return { ...allowed, ...env };
+}
+
+function resolvePaths(cwd: string, paths: string[]) {
+  return paths.map((path) => Path.resolve(cwd, path));
+}
+
+// NODE_OPTIONS splits on spaces unless the option is quoted.
+function quote(option: string) {
+  return `"${option.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/**
+ * Node options enforcing the permissions of a srcbook in `cwd`, for NODE_OPTIONS.
+ *
+ * Cells can read the srcbook's directory, where their dependencies are installed, and the
+ * server's runtime files preloaded into them (see runtime/display.mjs).
+ */
+export function nodePermissionOptions(cwd: string, permissions: PermissionsType) {
+  const options = [PERMISSION_FLAG!];
+
+  for (const path of [cwd, RUNTIME_DIR, ...resolvePaths(cwd, permissions.fsRead)]) {
+    options.push(quote(`--allow-fs-read=${path}`));
+  }
+
+  for (const path of resolvePaths(cwd, permissions.fsWrite)) {
+    options.push(quote(`--allow-fs-write=${path}`));
+  }
+
+  if (permissions.childProcess) {
+    options.push('--allow-child-process');
+  }
+
+  if (permissions.worker) {
+    options.push('--allow-worker');
+  }
+
+  // Node warns about the permission model and the two flags above on every run, in the
+  // output of the cell. The user opted in from the settings already.
+  if (NODE_FLAGS.has('--disable-warning')) {
+    options.push('--disable-warning=ExperimentalWarning', '--disable-warning=SecurityWarning');
+  }
+
+  return options;
+}
+
+/**
+ * Deno flags enforcing the permissions of a srcbook in `cwd`.
+ *
+ * Deno restricts more than node does. Network access and reading the environment, which is
+ * already limited to the allowed variables, are granted to match node.
+ */
+export function denoPermissionFlags(cwd: string, permissions: PermissionsType) {
+  const read = [cwd, RUNTIME_DIR, ...resolvePaths(cwd, permissions.fsRead)];
+  const flags = [`--allow-read=${read.join(',')}`, '--allow-net', '--allow-env'];
+
+  if (permissions.fsWrite.length > 0) {
+    flags.push(`--allow-write=${resolvePaths(cwd, permissions.fsWrite).join(',')}`);
+  }
+
+  if (permissions.childProcess) {
+    flags.push('--allow-run');
+  }
+
+  return flags;
+}
+
+function compiledSpecifier(specifier: string) {
+  const extension = Path.extname(specifier);
+  const compiledExtension = COMPILED_EXTENSIONS[extension];
+
+  return specifier.startsWith('.') && compiledExtension
+    ? specifier.slice(0, -extension.length) + compiledExtension
+    : specifier;
+}
+
+/**
+ * Cells import one another with their own extension (`import { rows } from './load.ts'`), which
+ * the TypeScript compiler leaves as is. This points relative imports to the compiled files.
+ *
+ * It runs after the compiler's own transforms, once imports of types only have been removed.
+ */
+function rewriteRelativeImports(context: ts.TransformationContext) {
+  const { factory } = context;
+
+  function rewrite(node: ts.Expression) {
+    return ts.isStringLiteral(node) && compiledSpecifier(node.text) !== node.text
+      ? factory.createStringLiteral(compiledSpecifier(node.text))
+      : node;
+  }
+
+  function visit(node: ts.Node): ts.Node {
+    if (ts.isImportDeclaration(node)) {
+      return factory.updateImportDeclaration(
+        node,
+        node.modifiers,
+        node.importClause,
+        rewrite(node.moduleSpecifier),
+        node.attributes,
+      );
+    }
+
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      return factory.updateExportDeclaration(
+        node,
+        node.modifiers,
+        node.isTypeOnly,
+        node.exportClause,
+        rewrite(node.moduleSpecifier),
+        node.attributes,
+      );
+    }
+
+    // `import('./load.ts')`, and `require('./load.cts')` in cells compiled to CommonJS.
+    if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require')) &&
+      node.arguments[0]
+    ) {
+      return factory.updateCallExpression(node, node.expression, node.typeArguments, [
+        rewrite(node.arguments[0]),
+        ...node.arguments.slice(1),
+      ]);
+    }
+
+    return ts.visitEachChild(node, visit, context);
+  }
+
+  return (sourceFile: ts.SourceFile) => ts.visitEachChild(sourceFile, visit, context);
+}
+
+/**
+ * Compile the TypeScript cells of the srcbook in `cwd` and return the compiled file of `entry`.
+ *
+ * tsx cannot run inside the sandbox: it compiles with an esbuild child process from a loader
+ * running on a worker thread. Sandboxed TypeScript cells are compiled with the TypeScript
+ * compiler instead and run with node. Other files in src/ are copied over so that cells can
+ * still import them. The compiled files carry source maps pointing back to src/, for stack
+ * traces to show the cells' own lines (see `--enable-source-maps`).
+ */
+export function compileTypeScriptCells(cwd: string, entry: string) {
+  const srcDir = Path.dirname(entry);
+  const outDir = Path.join(cwd, COMPILED_DIR);
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  for (const filename of fs.readdirSync(srcDir)) {
+    const path = Path.join(srcDir, filename);
+
+    if (!fs.statSync(path).isFile()) {
+      continue;
+    }
+
+    const extension = Path.extname(filename);
+    const compiledExtension = COMPILED_EXTENSIONS[extension];
+
+    if (!compiledExtension) {
+      fs.copyFileSync(path, Path.join(outDir, filename));
+      continue;
+    }
+
+    const { outputText } = ts.transpileModule(fs.readFileSync(path, 'utf8'), {
+      fileName: filename,
+      compilerOptions: {
+        module: extension === '.cts' ? ts.ModuleKind.CommonJS : ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+        jsx: ts.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+        inlineSourceMap: true,
+        sourceRoot: srcDir,
+      },
+      transformers: { after: [rewriteRelativeImports] },
+    });
+
+    const compiledFilename = filename.slice(0, -extension.length) + compiledExtension;
+
+    fs.writeFileSync(Path.join(outDir, compiledFilename), outputText);
+  }
+
+  return pathToCompiledFile(cwd, entry);
+}
+
+/**
+ * The compiled file of `entry`, a cell of the srcbook in `cwd` (see `compileTypeScriptCells`).
+ */
+export function pathToCompiledFile(cwd: string, entry: string) {
+  const extension = Path.extname(entry);
+
+  return Path.join(
+    cwd,
+    COMPILED_DIR,
+    Path.basename(entry, extension) + (COMPILED_EXTENSIONS[extension] ?? extension),
+  );
+}
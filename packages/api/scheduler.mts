@@ -0,0 +1,90 @@
+import os from 'node:os';
+
+type RunType = {
+  sessionId: string;
+  cellId: string;
+  // Starts the run, resolving once its process has exited.
+  start: () => Promise<unknown>;
+  // Called instead of `start` when the run is cancelled while queued.
+  cancel: () => void;
+};
+
+/**
+ * Limits how many cells and dependency installs run at once across all sessions.
+ * Runs beyond the limit wait in a queue and start in order as others finish.
+ */
+export class Scheduler {
+  private limit: number = os.availableParallelism();
+  private running = 0;
+  private queued: RunType[] = [];
+
+  /**
+   * Set the maximum number of runs at once. Null, or anything but a positive integer, sets it
+   * to the number of CPUs.
+   */
+  setLimit(limit: number | null) {
+    this.limit =
+      typeof limit === 'number' && Number.isInteger(limit) && limit >= 1
+        ? limit
+        : os.availableParallelism();
+    this.next();
+  }
+
+  /**
+   * Start the run if the limit allows it, queue it otherwise. Returns whether it was queued.
+   */
+  schedule(run: RunType) {
+    this.queued.push(run);
+    this.next();
+    return this.queued.includes(run);
+  }
+
+  isQueued(sessionId: string, cellId: string) {
+    return this.queued.some((run) => run.sessionId === sessionId && run.cellId === cellId);
+  }
+
+  /**
+   * Cancel the queued run of a cell. Returns whether there was one.
+   */
+  cancel(sessionId: string, cellId: string) {
+    return this.cancelWhere((run) => run.sessionId === sessionId && run.cellId === cellId) > 0;
+  }
+
+  /**
+   * Cancel every queued run of the session. Returns the number of runs cancelled.
+   */
+  cancelAll(sessionId: string) {
+    return this.cancelWhere((run) => run.sessionId === sessionId);
+  }
+
+  private cancelWhere(predicate: (run: RunType) => boolean) {
+    const cancelled = this.queued.filter(predicate);
+    this.queued = this.queued.filter((run) => !predicate(run));
+
+    for (const run of cancelled) {
+      run.cancel();
+    }
+
+    return cancelled.length;
+  }
+
+  private next() {
+    while (this.running < this.limit && this.queued.length > 0) {
+      this.start(this.queued.shift()!);
+    }
+  }
+
+  private start(run: RunType) {
+    this.running += 1;
+
+    Promise.resolve()
+      .then(run.start)
+      .catch((error) => console.error(`Run of cell ${run.cellId} failed:`, error))
+      .finally(() => {
+        this.running -= 1;
+        this.next();
+      });
+  }
+}
+
+export default new Scheduler();
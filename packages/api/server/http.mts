@@ -12,6 +12,7 @@ import {
   sessionToResponse,
   listSessions,
   exportSrcmdText,
+  updateSessionEnvTypeDeclarations,
 } from '../session.mjs';
 import { generateCells, generateSrcbook, healthcheck } from '../ai/generate.mjs';
 import {
@@ -23,17 +24,20 @@ import {
   associateSecretWithSession,
   disassociateSecretWithSession,
 } from '../config.mjs';
+import { getExecutions } from '../executions.mjs';
+import { detectRuntimes } from '../runtimes.mjs';
+import scheduler from '../scheduler.mjs';
 import {
   createSrcbook,
   removeSrcbook,
   importSrcbookFromSrcmdFile,
   importSrcbookFromSrcmdText,
   importSrcbookFromSrcmdUrl,
-  updateSessionEnvTypeDeclarations,
 } from '../srcbook/index.mjs';
 import { readdir } from '../fs-utils.mjs';
 import { EXAMPLE_SRCBOOKS } from '../srcbook/examples.mjs';
 import { pathToSrcbook } from '../srcbook/path.mjs';
+import { dependencyGraph } from '../srcbook/graph.mjs';
 import { isSrcmdPath } from '../srcmd/paths.mjs';
 
 const app: Application = express();
@@ -250,7 +254,8 @@ router.get('/sessions/:id/export-text', cors(), async (req, res) => {
   posthog.capture({ event: 'user exported srcbook' });
 
   try {
-    const text = exportSrcmdText(session);
+    // Outputs are left out unless asked for with `?outputs=true`.
+    const text = exportSrcmdText(session, { outputs: req.query.outputs === 'true' });
     res.setHeader('Content-Type', 'text/markdown');
     res.send(text).end();
     return;
@@ -261,18 +266,60 @@ router.get('/sessions/:id/export-text', cors(), async (req, res) => {
   }
 });
 
+router.options('/sessions/:id/executions', cors());
+router.get('/sessions/:id/executions', cors(), async (req, res) => {
+  const { cellId, limit } = req.query;
+
+  try {
+    const executions = await getExecutions(req.params.id, {
+      cellId: typeof cellId === 'string' ? cellId : undefined,
+      limit: typeof limit === 'string' ? Number(limit) || undefined : undefined,
+    });
+    return res.json({ error: false, result: executions });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.options('/sessions/:id/graph', cors());
+router.get('/sessions/:id/graph', cors(), async (req, res) => {
+  try {
+    const session = await findSession(req.params.id);
+    return res.json({ error: false, result: dependencyGraph(session.cells) });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
+router.options('/sessions/:id/runtimes', cors());
+router.get('/sessions/:id/runtimes', cors(), async (req, res) => {
+  try {
+    const session = await findSession(req.params.id);
+    const runtimes = await detectRuntimes(session.dir);
+    return res.json({ error: false, result: runtimes });
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.error(error);
+    return res.json({ error: true, result: error.stack });
+  }
+});
+
 router.options('/sessions/:id/secrets/:name', cors());
 router.put('/sessions/:id/secrets/:name', cors(), async (req, res) => {
   const { id, name } = req.params;
   await associateSecretWithSession(name, id);
-  await updateSessionEnvTypeDeclarations(id);
+  await updateSessionEnvTypeDeclarations(await findSession(id));
   return res.status(204).end();
 });
 
 router.delete('/sessions/:id/secrets/:name', cors(), async (req, res) => {
   const { id, name } = req.params;
   await disassociateSecretWithSession(name, id);
-  await updateSessionEnvTypeDeclarations(id);
+  await updateSessionEnvTypeDeclarations(await findSession(id));
   return res.status(204).end();
 });
 
@@ -287,6 +334,10 @@ router.post('/settings', cors(), async (req, res) => {
   try {
     const updated = await updateConfig(req.body);
 
+    if ('maxConcurrentProcesses' in req.body) {
+      scheduler.setLimit(req.body.maxConcurrentProcesses);
+    }
+
     posthog.capture({
       event: 'user updated settings',
       properties: { setting_changed: Object.keys(req.body) },
@@ -12,19 +12,49 @@ import {
   updateCodeCellFilename,
   addCell,
   formatAndUpdateCodeCell,
+  updateCellOutputs,
+  updateSessionEnvTypeDeclarations,
 } from '../session.mjs';
-import { getSecretsAssociatedWithSession } from '../config.mjs';
+import { getConfig, getSecretsAssociatedWithSession } from '../config.mjs';
+import { hashSource, recordExecution } from '../executions.mjs';
 import type { SessionType } from '../types.mjs';
-import { node, npmInstall, tsx } from '../exec.mjs';
+import { execWithRuntime, npmInstall, type ExecLimitType } from '../exec.mjs';
+import { runtimeFor, supportsLanguage } from '../runtimes.mjs';
+import { parametersEnv, validateParameterValues } from '../parameters.mjs';
+import { runTests, SANDBOXED_TESTS_UNAVAILABLE } from '../test-runner.mjs';
+import { resolveDatabase, runSql } from '../sql.mjs';
+import { runHttp } from '../http-client.mjs';
+import { runShell } from '../shell.mjs';
+import {
+  compileTypeScriptCells,
+  pathToCompiledFile,
+  sandboxUnavailableReason,
+} from '../sandbox.mjs';
 import { shouldNpmInstall, missingUndeclaredDeps } from '../deps.mjs';
 import processes from '../processes.mjs';
+import kernels from '../kernels.mjs';
+import inspectors from '../inspectors.mjs';
+import scheduler from '../scheduler.mjs';
+import { inspectorStderr } from '../debugger/inspector.mjs';
+import { cellLocations } from '../stack-traces.mjs';
+import { createProfileRun, saveProfiles, type ProfileOptionsType } from '../profiler.mjs';
 import type {
   CodeCellType,
+  TestCellType,
+  TestResultType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
   PackageJsonCellType,
   CellExecPayloadType,
+  CellsExecPayloadType,
   DepsInstallPayloadType,
   DepsValidatePayloadType,
   CellStopPayloadType,
+  CellDebugPayloadType,
+  CellProfilePayloadType,
+  DebugMessagePayloadType,
+  CellStdinPayloadType,
   CellUpdatePayloadType,
   CellFormatPayloadType,
   TsServerStartPayloadType,
@@ -38,6 +68,19 @@ import type {
   AiFixDiagnosticsPayloadType,
   TsServerQuickInfoRequestPayloadType,
   TsServerDefinitionLocationRequestPayloadType,
+  KernelStartPayloadType,
+  KernelStopPayloadType,
+  SessionStopPayloadType,
+  KernelRestartPayloadType,
+  LimitsUpdatePayloadType,
+  RuntimeUpdatePayloadType,
+  ReactiveUpdatePayloadType,
+  PermissionsUpdatePayloadType,
+  ParametersUpdatePayloadType,
+  ExecLimitsType,
+  RuntimeType,
+  DisplayDataType,
+  CellOutputType,
 } from '@srcbook/shared';
 import {
   CellUpdatePayloadSchema,
@@ -45,7 +88,12 @@ import {
   CellDeletePayloadSchema,
   CellFormatPayloadSchema,
   CellExecPayloadSchema,
+  CellsExecPayloadSchema,
   CellStopPayloadSchema,
+  CellDebugPayloadSchema,
+  CellProfilePayloadSchema,
+  DebugMessagePayloadSchema,
+  CellStdinPayloadSchema,
   AiGenerateCellPayloadSchema,
   AiFixDiagnosticsPayloadSchema,
   DepsInstallPayloadSchema,
@@ -56,13 +104,30 @@ import {
   TsConfigUpdatePayloadSchema,
   TsServerQuickInfoRequestPayloadSchema,
   TsServerDefinitionLocationRequestPayloadSchema,
+  KernelStartPayloadSchema,
+  KernelStopPayloadSchema,
+  SessionStopPayloadSchema,
+  KernelRestartPayloadSchema,
+  LimitsUpdatePayloadSchema,
+  RuntimeUpdatePayloadSchema,
+  ReactiveUpdatePayloadSchema,
+  PermissionsUpdatePayloadSchema,
+  ParametersUpdatePayloadSchema,
+  sqlResultsFilename,
 } from '@srcbook/shared';
 import tsservers from '../tsservers.mjs';
 import { TsServer } from '../tsserver/tsserver.mjs';
-import WebSocketServer, { MessageContextType } from './ws-client.mjs';
+import WebSocketServer, { ConnectionContextType, MessageContextType } from './ws-client.mjs';
 import { filenameFromPath, pathToCodeFile } from '../srcbook/path.mjs';
 import { normalizeDiagnostic } from '../tsserver/utils.mjs';
-import { removeCodeCellFromDisk } from '../srcbook/index.mjs';
+import { removeCodeCellFromDisk, removeSqlCellFromDisk } from '../srcbook/index.mjs';
+import {
+  codeCellsInScope,
+  runCodeCells,
+  execLimitsForCell,
+  type CodeCellExitType,
+} from '../srcbook/run.mjs';
+import { dependencyGraph } from '../srcbook/graph.mjs';
 
 type SessionsContextType = MessageContextType<'sessionId'>;
 
@@ -70,7 +135,13 @@ const wss = new WebSocketServer();
 
 function addRunningProcess(
   session: SessionType,
-  cell: CodeCellType | PackageJsonCellType,
+  cell:
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | PackageJsonCellType,
   process: ChildProcess,
 ) {
   // If the process was not successfully started, inform the client the cell is 'idle' again.
@@ -83,8 +154,71 @@ function addRunningProcess(
   if (!process.pid || process.killed) {
     cell.status = 'idle';
     wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+    return false;
   } else {
     processes.add(session.id, cell.id, process);
+    return true;
+  }
+}
+
+// Updated from the settings after startup, see the '/settings' route.
+scheduler.setLimit((await getConfig()).maxConcurrentProcesses);
+
+/**
+ * Run a cell through the scheduler, which limits how many cells run at once across sessions.
+ * The cell is marked as queued until its turn comes, and as idle again if cancelled before.
+ *
+ * `start` gets the most recent version of the session and cell, which may have been updated
+ * while queued. It must resolve once the cell has finished running to make room for others.
+ */
+function scheduleRun<
+  T extends
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | PackageJsonCellType,
+>(
+  session: SessionType,
+  cell: T,
+  start: (session: SessionType, cell: T) => Promise<void>,
+  onCancel: () => void = () => {},
+) {
+  async function mostRecent() {
+    const mostRecentSession = await findSession(session.id);
+    const mostRecentCell = (findCell(mostRecentSession, cell.id) as T | undefined) ?? cell;
+    return { session: mostRecentSession, cell: mostRecentCell };
+  }
+
+  const queued = scheduler.schedule({
+    sessionId: session.id,
+    cellId: cell.id,
+    async start() {
+      const latest = await mostRecent().catch(() => null);
+
+      // The session was deleted while the cell was queued.
+      if (!latest) {
+        onCancel();
+        return;
+      }
+
+      await start(latest.session, latest.cell);
+    },
+    cancel() {
+      mostRecent()
+        .then((latest) => {
+          latest.cell.status = 'idle';
+          wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: latest.cell });
+        })
+        .catch((error) => console.error(error))
+        .finally(onCancel);
+    },
+  });
+
+  if (queued) {
+    cell.status = 'queued';
+    wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
   }
 }
 
@@ -113,7 +247,14 @@ async function nudgeMissingDeps(wss: WebSocketServer, session: SessionType) {
 async function cellExec(payload: CellExecPayloadType, context: SessionsContextType) {
   const session = await findSession(context.params.sessionId);
   const cell = findCell(session, payload.cellId);
-  if (!cell || cell.type !== 'code') {
+  if (
+    !cell ||
+    (cell.type !== 'code' &&
+      cell.type !== 'test' &&
+      cell.type !== 'sql' &&
+      cell.type !== 'http' &&
+      cell.type !== 'shell')
+  ) {
     console.error(`Cannot execute cell with id ${payload.cellId}; cell not found.`);
     return;
   }
@@ -122,7 +263,7 @@ async function cellExec(payload: CellExecPayloadType, context: SessionsContextTy
   posthog.capture({
     event: 'user ran a cell',
     properties: {
-      language: cell.language,
+      language: 'language' in cell ? cell.language : cell.type,
       sessionId: session.id,
       cellId: cell.id,
     },
@@ -132,91 +273,691 @@ async function cellExec(payload: CellExecPayloadType, context: SessionsContextTy
 
   const secrets = await getSecretsAssociatedWithSession(session.id);
 
-  cell.status = 'running';
-  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+  if (cell.type === 'test') {
+    execTestCell(session, cell, secrets);
+    return;
+  }
 
-  switch (cell.language) {
-    case 'javascript':
-      jsExec({ session, cell, secrets });
-      break;
-    case 'typescript':
-      tsxExec({ session, cell, secrets });
-      break;
+  if (cell.type === 'sql' || cell.type === 'http' || cell.type === 'shell') {
+    execScriptCell(session, cell, secrets);
+    return;
+  }
+
+  const { exitCode } = await execCodeCell(session, cell, secrets);
+
+  if (exitCode === 0) {
+    runDependents(session.id, cell.id, secrets);
   }
 }
 
-type ExecRequestType = {
-  session: SessionType;
-  cell: CodeCellType;
-  secrets: Record<string, string>;
-};
+/**
+ * In reactive sessions, re-run the cells importing a cell after it ran successfully so
+ * none of them keeps output from before it changed.
+ */
+async function runDependents(sessionId: string, cellId: string, secrets: Record<string, string>) {
+  const session = await findSession(sessionId);
+
+  if (!session.reactive || sessionsRunningCells.has(session.id)) {
+    return;
+  }
+
+  // The first cell downstream is the one that just ran.
+  const cells = codeCellsInScope(session.cells, 'downstream', cellId).slice(1);
+
+  if (cells.length === 0) {
+    return;
+  }
+
+  sessionsRunningCells.add(session.id);
+
+  try {
+    const result = await runCodeCells(cells, (cell) => execCodeCell(session, cell, secrets));
+
+    wss.broadcast(`session:${session.id}`, 'cells:exec:summary', {
+      scope: 'downstream',
+      cellId,
+      ...result,
+    });
+  } finally {
+    sessionsRunningCells.delete(session.id);
+  }
+}
 
-async function jsExec({ session, cell, secrets }: ExecRequestType) {
-  addRunningProcess(
+/**
+ * Mark the cells importing a code cell as stale after its source changed, until they run again.
+ */
+async function markDependentsStale(sessionId: string, cellId: string) {
+  const session = await findSession(sessionId);
+
+  for (const cell of codeCellsInScope(session.cells, 'downstream', cellId).slice(1)) {
+    if (!cell.stale) {
+      cell.stale = true;
+      wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+    }
+  }
+}
+
+function execTestCell(session: SessionType, cell: TestCellType, secrets: Record<string, string>) {
+  scheduleRun(
     session,
     cell,
-    node({
+    (session, cell) =>
+      new Promise((resolve) => {
+        if (!startTestCell(session, cell, secrets, resolve)) {
+          resolve();
+        }
+      }),
+  );
+}
+
+/**
+ * Run the tests of a test cell, updating the cell with each result as it comes in.
+ * Returns whether the tests started.
+ */
+function startTestCell(
+  session: SessionType,
+  cell: TestCellType,
+  secrets: Record<string, string>,
+  onExit: () => void,
+) {
+  function broadcastOutput(output: CellOutputType) {
+    wss.broadcast(`session:${session.id}`, 'cell:output', { cellId: cell.id, output });
+  }
+
+  if (session.permissions) {
+    broadcastOutput({ type: 'stderr', data: `${SANDBOXED_TESTS_UNAVAILABLE}\n` });
+
+    // The scheduler may have marked the cell as queued.
+    const mostRecentCell = (session.cells.find((c) => c.id === cell.id) ?? cell) as TestCellType;
+    mostRecentCell.status = 'idle';
+    wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+    return false;
+  }
+
+  cell.status = 'running';
+  cell.results = [];
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+  const results: TestResultType[] = [];
+
+  // Like for code cells, the cell may have been replaced by an update since it started running.
+  function broadcastCell(status: TestCellType['status']) {
+    const mostRecentCell = session.cells.find((c) => c.id === cell.id) as TestCellType;
+    mostRecentCell.status = status;
+    mostRecentCell.results = [...results];
+    wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+  }
+
+  return addRunningProcess(
+    session,
+    cell,
+    runTests({
       cwd: session.dir,
-      env: secrets,
+      env: { ...secrets, ...parametersEnv(session) },
       entry: pathToCodeFile(session.dir, cell.filename),
+      language: cell.language,
+      limits: session.limits,
+      onLimitExceeded(limit) {
+        const message = limitExceededMessage(limit, session.limits ?? {});
+        broadcastOutput({ type: 'stderr', data: `\n${message}\n` });
+      },
       stdout(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stdout', data: data.toString('utf8') },
-        });
+        broadcastOutput({ type: 'stdout', data: data.toString('utf8') });
       },
       stderr(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stderr', data: data.toString('utf8') },
-        });
+        broadcastOutput({ type: 'stderr', data: data.toString('utf8') });
+      },
+      onResult(result) {
+        results.push(result);
+        broadcastCell('running');
       },
       onExit() {
-        // Reload cell to get most recent version which may have been updated since
-        // in the time between initially running this cell and when running finishes.
-        //
-        // TODO: Real state management pls.
-        //
-        const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
-        mostRecentCell.status = 'idle';
-        wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+        broadcastCell('idle');
+        onExit();
       },
     }),
   );
 }
 
-async function tsxExec({ session, cell, secrets }: ExecRequestType) {
-  addRunningProcess(
+function execScriptCell(
+  session: SessionType,
+  cell: SqlCellType | HttpCellType | ShellCellType,
+  secrets: Record<string, string>,
+) {
+  scheduleRun(
+    session,
+    cell,
+    (session, cell) =>
+      new Promise((resolve) => {
+        if (!startScriptCell(session, cell, secrets, resolve)) {
+          resolve();
+        }
+      }),
+  );
+}
+
+/**
+ * Run a SQL, HTTP or shell cell, each running as a script in a process of its own, streaming
+ * the output like for code cells. Returns whether the cell started.
+ */
+function startScriptCell(
+  session: SessionType,
+  cell: SqlCellType | HttpCellType | ShellCellType,
+  secrets: Record<string, string>,
+  onExit: () => void,
+) {
+  // Kept as the cell's last outputs once it finishes.
+  const outputs: CellOutputType[] = [];
+
+  function broadcastOutput(output: CellOutputType) {
+    outputs.push(output);
+    wss.broadcast(`session:${session.id}`, 'cell:output', { cellId: cell.id, output });
+  }
+
+  // Like for code cells, the cell may have been replaced by an update since it started running.
+  function finish() {
+    const mostRecentCell = (session.cells.find((c) => c.id === cell.id) ?? cell) as
+      | SqlCellType
+      | HttpCellType
+      | ShellCellType;
+    mostRecentCell.status = 'idle';
+    wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+
+    updateCellOutputs(session.id, cell.id, outputs).catch((error) =>
+      console.error('Failed to save cell outputs:', error),
+    );
+  }
+
+  if (cell.type === 'sql' && session.permissions) {
+    broadcastOutput({
+      type: 'stderr',
+      data: 'SQL cells cannot run sandboxed: their queries can attach databases anywhere on disk.\n',
+    });
+    finish();
+    return false;
+  }
+
+  const database =
+    cell.type === 'sql' ? resolveDatabase(session.dir, cell.connection, secrets) : null;
+
+  if (database?.error) {
+    broadcastOutput({ type: 'stderr', data: `${database.message}\n` });
+    finish();
+    return false;
+  }
+
+  if (cell.type === 'shell' && session.permissions) {
+    broadcastOutput({
+      type: 'stderr',
+      data: 'Shell cells cannot run sandboxed: bash has no permission model to run them with.\n',
+    });
+    finish();
+    return false;
+  }
+
+  cell.status = 'running';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+  const limits = session.limits ?? {};
+
+  const request = {
+    cwd: session.dir,
+    entry: pathToCodeFile(session.dir, cell.filename),
+    limits,
+    onLimitExceeded(limit: ExecLimitType) {
+      broadcastOutput({ type: 'stderr', data: `\n${limitExceededMessage(limit, limits)}\n` });
+    },
+    stdout(data: Buffer) {
+      broadcastOutput({ type: 'stdout', data: data.toString('utf8') });
+    },
+    stderr(data: Buffer) {
+      broadcastOutput({ type: 'stderr', data: data.toString('utf8') });
+    },
+    onDisplay(data: DisplayDataType) {
+      broadcastOutput({ type: 'display', data });
+    },
+    onExit() {
+      finish();
+      onExit();
+    },
+  };
+
+  let child;
+
+  switch (cell.type) {
+    case 'sql':
+      child = runSql({
+        ...request,
+        database: database!.path,
+        results: pathToCodeFile(session.dir, sqlResultsFilename(cell.filename)),
+      });
+      break;
+    case 'http':
+      child = runHttp({ ...request, variables: secrets });
+      break;
+    case 'shell':
+      child = runShell({ ...request, env: { ...secrets, ...parametersEnv(session) } });
+      break;
+  }
+
+  return addRunningProcess(session, cell, child);
+}
+
+// Sessions which are currently running multiple cells in sequence.
+const sessionsRunningCells = new Set<string>();
+
+async function cellsExec(
+  payload: CellsExecPayloadType,
+  context: SessionsContextType,
+  conn: ConnectionContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  // The client waits for a summary to enable running cells again, so it gets one even when
+  // none of the cells ran.
+  function replyError(error: string) {
+    conn.reply(context.topic, 'cells:exec:summary', {
+      scope: payload.scope,
+      cellId: payload.cellId,
+      success: false,
+      results: [],
+      skipped: [],
+      error,
+    });
+  }
+
+  if (sessionsRunningCells.has(session.id)) {
+    replyError('Cells of this Srcbook are already running. Wait for them to finish.');
+    return;
+  }
+
+  sessionsRunningCells.add(session.id);
+
+  try {
+    const cells = codeCellsInScope(session.cells, payload.scope, payload.cellId);
+
+    posthog.capture({
+      event: 'user ran multiple cells',
+      properties: {
+        sessionId: session.id,
+        scope: payload.scope,
+        count: cells.length,
+      },
+    });
+
+    nudgeMissingDeps(wss, session);
+
+    const secrets = await getSecretsAssociatedWithSession(session.id);
+
+    const result = await runCodeCells(cells, (cell) => execCodeCell(session, cell, secrets));
+
+    wss.broadcast(`session:${session.id}`, 'cells:exec:summary', {
+      scope: payload.scope,
+      cellId: payload.cellId,
+      ...result,
+    });
+  } catch (e) {
+    console.error(e);
+    replyError((e as Error).message);
+  } finally {
+    sessionsRunningCells.delete(session.id);
+  }
+}
+
+/**
+ * Execute a code cell, resolving once it has finished running.
+ */
+function execCodeCell(
+  session: SessionType,
+  cell: CodeCellType,
+  secrets: Record<string, string>,
+  options: { debug?: boolean; profile?: { heap: boolean } } = {},
+): Promise<CodeCellExitType> {
+  return new Promise((resolve) => {
+    function start(session: SessionType, cell: CodeCellType) {
+      cell.status = 'running';
+      cell.stale = false;
+      wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+      return new Promise<void>((done) => {
+        const request = {
+          session,
+          cell,
+          secrets,
+          debug: options.debug,
+          profile: options.profile,
+          onExit: (exitCode: number | null, signal: NodeJS.Signals | null) => {
+            resolve({ exitCode, signal });
+            done();
+          },
+        };
+
+        // Debugging and profiling need a process of their own to start the inspector or profiler in.
+        if (session.kernel && !options.debug && !options.profile) {
+          kernelExec(request);
+          return;
+        }
+
+        runtimeExec(request);
+      });
+    }
+
+    // Debugged cells skip the queue: they spend most of their time paused, holding up others.
+    if (options.debug) {
+      start(session, cell);
+      return;
+    }
+
+    scheduleRun(session, cell, start, () => resolve({ exitCode: null, signal: null }));
+  });
+}
+
+type ExecRequestType = {
+  session: SessionType;
+  cell: CodeCellType;
+  secrets: Record<string, string>;
+  // Run the cell under the inspector for the client to debug it.
+  debug?: boolean;
+  // Run the cell with the profiler and display its profiles once done.
+  profile?: { heap: boolean };
+  onExit: (code: number | null, signal: NodeJS.Signals | null) => void;
+};
+
+function limitExceededMessage(limit: ExecLimitType, limits: ExecLimitsType) {
+  switch (limit) {
+    case 'timeout':
+      return `Cell exceeded its time limit of ${limits.timeout}ms and was stopped.`;
+    case 'memory':
+      return `Cell exceeded its memory limit of ${limits.memory}MB.`;
+    case 'output':
+      return `Cell exceeded its output limit of ${limits.output} bytes and was stopped.`;
+  }
+}
+
+/**
+ * Callbacks which stream the output of a running code cell to clients
+ * and mark the cell as idle again once it finishes, enforcing its limits.
+ */
+function codeCellExecCallbacks({ session, cell, onExit }: ExecRequestType) {
+  const limits = execLimitsForCell(session, cell);
+  const startedAt = Date.now();
+  const sourceHash = hashSource(cell.source);
+  let limitExceeded = false;
+  let outputSize = 0;
+  // Kept as the cell's last outputs once it finishes.
+  const outputs: CellOutputType[] = [];
+
+  function broadcastOutput(output: CellOutputType) {
+    outputs.push(output);
+    wss.broadcast(`session:${session.id}`, 'cell:output', { cellId: cell.id, output });
+  }
+
+  return {
+    limits,
+    onLimitExceeded(limit: ExecLimitType) {
+      limitExceeded = true;
+
+      const message = session.kernel
+        ? `${limitExceededMessage(limit, limits)} Stopping the kernel. In-memory state has been lost.`
+        : limitExceededMessage(limit, limits);
+
+      broadcastOutput({ type: 'stderr', data: `\n${message}\n` });
+    },
+    stdout(data: Buffer) {
+      outputSize += data.length;
+      broadcastOutput({ type: 'stdout', data: cellLocations(data.toString('utf8'), session.dir) });
+    },
+    stderr(data: Buffer) {
+      outputSize += data.length;
+      broadcastOutput({ type: 'stderr', data: cellLocations(data.toString('utf8'), session.dir) });
+    },
+    onDisplay(data: DisplayDataType) {
+      broadcastOutput({ type: 'display', data });
+    },
+    onExit(code: number | null, signal: NodeJS.Signals | null) {
+      // Reload cell to get most recent version which may have been updated since
+      // in the time between initially running this cell and when running finishes.
+      //
+      // TODO: Real state management pls.
+      //
+      const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
+      mostRecentCell.status = limitExceeded ? 'limit-exceeded' : 'idle';
+      wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+
+      recordExecution({
+        sessionId: session.id,
+        cellId: cell.id,
+        sourceHash,
+        startedAt,
+        endedAt: Date.now(),
+        exitCode: code,
+        signal,
+        outputSize,
+      })
+        .then((execution) => {
+          wss.broadcast(`session:${session.id}`, 'cell:executed', { execution });
+        })
+        .catch((error) => console.error('Failed to record execution:', error));
+
+      updateCellOutputs(session.id, cell.id, outputs).catch((error) =>
+        console.error('Failed to save cell outputs:', error),
+      );
+
+      onExit(code, signal);
+    },
+  };
+}
+
+async function runtimeExec(request: ExecRequestType) {
+  const { session, cell, secrets } = request;
+  const runtime = runtimeFor(session, cell.language);
+  const callbacks = codeCellExecCallbacks(request);
+
+  const unavailable =
+    (session.permissions ? sandboxUnavailableReason(runtime) : null) ??
+    (request.debug ? debugUnavailableReason(session, runtime) : null) ??
+    (request.profile ? profileUnavailableReason(session, runtime) : null);
+
+  if (unavailable) {
+    callbacks.stderr(Buffer.from(`${unavailable}\n`));
+    callbacks.onExit(1, null);
+    return;
+  }
+
+  const profile = request.profile
+    ? await createProfileRun(session.dir, request.profile.heap)
+    : undefined;
+
+  const started = addRunningProcess(
     session,
     cell,
-    tsx({
+    execWithRuntime(runtime, {
       cwd: session.dir,
-      env: secrets,
+      env: { ...secrets, ...parametersEnv(session) },
       entry: pathToCodeFile(session.dir, cell.filename),
-      stdout(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stdout', data: data.toString('utf8') },
-        });
-      },
-      stderr(data) {
-        wss.broadcast(`session:${session.id}`, 'cell:output', {
-          cellId: cell.id,
-          output: { type: 'stderr', data: data.toString('utf8') },
+      permissions: session.permissions,
+      ...callbacks,
+      ...(request.debug ? debugCallbacks(session, cell, callbacks) : {}),
+      ...(profile ? profileCallbacks(session, cell, profile, callbacks) : {}),
+    }),
+  );
+
+  // A process that failed to spawn never exits.
+  if (!started) {
+    callbacks.onExit(null, null);
+  }
+}
+
+function debugUnavailableReason(session: SessionType, runtime: RuntimeType) {
+  if (runtime !== 'node' && runtime !== 'tsx') {
+    return `Cells can only be debugged with the node and tsx runtimes, not ${runtime}.`;
+  }
+
+  if (session.permissions) {
+    return 'Sandboxed cells cannot be debugged: the permission model does not allow the inspector.';
+  }
+
+  if (inspectors.has(session.id)) {
+    return 'Another cell of this srcbook is being debugged.';
+  }
+
+  return null;
+}
+
+/**
+ * Start a cell under the inspector and relay the Chrome DevTools Protocol between the client
+ * and the inspector. The client drives the debugger from there (see 'debug:send').
+ *
+ * The cell is not timed out, since it spends most of its time paused.
+ */
+function debugCallbacks(
+  session: SessionType,
+  cell: CodeCellType,
+  callbacks: ReturnType<typeof codeCellExecCallbacks>,
+) {
+  const channel = `session:${session.id}`;
+
+  return {
+    inspect: true,
+    limits: { ...callbacks.limits, timeout: undefined },
+    stderr: inspectorStderr(callbacks.stderr, {
+      onListening(url) {
+        inspectors.attach(session.id, cell.id, url, {
+          onOpen() {
+            wss.broadcast(channel, 'debug:status', { cellId: cell.id, attached: true });
+          },
+          onMessage(message) {
+            wss.broadcast(channel, 'debug:message', { cellId: cell.id, message });
+          },
+          onClose() {
+            wss.broadcast(channel, 'debug:status', { cellId: cell.id, attached: false });
+          },
         });
       },
-      onExit() {
-        // Reload cell to get most recent version which may have been updated since
-        // in the time between initially running this cell and when running finishes.
-        //
-        // TODO: Real state management pls.
-        //
-        const mostRecentCell = session.cells.find((c) => c.id === cell.id) as CodeCellType;
-        mostRecentCell.status = 'idle';
-        wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: mostRecentCell });
+      onWaitingForDisconnect() {
+        inspectors.detach(session.id);
       },
     }),
-  );
+    onExit(code: number | null, signal: NodeJS.Signals | null) {
+      // The process may be gone without saying goodbye, e.g. when it was stopped.
+      inspectors.detach(session.id);
+      callbacks.onExit(code, signal);
+    },
+  };
+}
+
+function profileUnavailableReason(session: SessionType, runtime: RuntimeType) {
+  if (runtime !== 'node' && runtime !== 'tsx') {
+    return `Cells can only be profiled with the node and tsx runtimes, not ${runtime}.`;
+  }
+
+  if (session.permissions) {
+    return 'Sandboxed cells cannot be profiled: the sandbox does not allow writing the profiles.';
+  }
+
+  return null;
+}
+
+const PROFILE_MIME_TYPE = 'application/vnd.srcbook.profile+json';
+
+/**
+ * Run a cell with the profiler and display its profiles once it is done. Node only writes
+ * them when the cell exits on its own, not when it is stopped.
+ */
+function profileCallbacks(
+  session: SessionType,
+  cell: CodeCellType,
+  profile: ProfileOptionsType,
+  callbacks: ReturnType<typeof codeCellExecCallbacks>,
+) {
+  return {
+    profile,
+    onExit(code: number | null, signal: NodeJS.Signals | null) {
+      saveProfiles(session.dir, cell.filename, profile)
+        .then((profiles) => {
+          for (const data of profiles) {
+            const kind = data.kind === 'cpu' ? 'CPU' : 'Heap';
+
+            callbacks.onDisplay({
+              'text/plain': `${kind} profile saved to ${data.path}`,
+              [PROFILE_MIME_TYPE]: data,
+            });
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to save profiles:', error);
+          callbacks.stderr(Buffer.from(`Failed to save profiles: ${error.message}\n`));
+        })
+        .finally(() => callbacks.onExit(code, signal));
+    },
+  };
+}
+
+async function kernelExec(request: ExecRequestType) {
+  const { session, cell, secrets } = request;
+  const kernel = kernels.has(session.id) ? kernels.get(session.id) : createKernel(session);
+
+  if (compilesCells(session)) {
+    compileTypeScriptCells(session.dir, pathToCodeFile(session.dir, cell.filename));
+  }
+
+  kernel.exec({
+    env: { ...secrets, ...parametersEnv(session) },
+    entry: kernelEntry(session, cell.filename),
+    ...codeCellExecCallbacks(request),
+  });
+}
+
+// Sandboxed kernels cannot use tsx, see `compileTypeScriptCells`.
+function compilesCells(session: SessionType) {
+  return session.permissions !== undefined && session.language === 'typescript';
+}
+
+/**
+ * The file the session's kernel executes for the cell with the given filename.
+ */
+function kernelEntry(session: SessionType, filename: string) {
+  const entry = pathToCodeFile(session.dir, filename);
+  return compilesCells(session) ? pathToCompiledFile(session.dir, entry) : entry;
+}
+
+// Kernels are tracked in the processes registry next to the processes running
+// individual cells. Cell ids are random, so this cannot collide with one.
+const KERNEL_PROCESS_KEY = 'kernel';
+
+function broadcastKernelStatus(session: SessionType) {
+  wss.broadcast(`session:${session.id}`, 'kernel:status', {
+    enabled: session.kernel === true,
+    running: kernels.has(session.id),
+  });
+}
+
+function createKernel(session: SessionType) {
+  const { kernel, process } = kernels.create(session.id, {
+    cwd: session.dir,
+    language: session.language,
+    memory: session.limits?.memory,
+    permissions: session.permissions,
+  });
+
+  if (process.pid) {
+    processes.add(session.id, KERNEL_PROCESS_KEY, process);
+  }
+
+  const sessionId = session.id;
+
+  process.on('exit', async () => {
+    try {
+      broadcastKernelStatus(await findSession(sessionId));
+    } catch (e) {
+      const error = e as unknown as Error;
+      console.error(error);
+    }
+  });
+
+  broadcastKernelStatus(session);
+
+  return kernel;
 }
 
 async function depsInstall(payload: DepsInstallPayloadType, context: SessionsContextType) {
@@ -230,9 +971,6 @@ async function depsInstall(payload: DepsInstallPayloadType, context: SessionsCon
     return;
   }
 
-  cell.status = 'running';
-  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
-
   posthog.capture({
     event: 'user installed dependencies',
     properties: {
@@ -241,12 +979,36 @@ async function depsInstall(payload: DepsInstallPayloadType, context: SessionsCon
     },
   });
 
-  addRunningProcess(
+  scheduleRun(
+    session,
+    cell,
+    (session, cell) =>
+      new Promise((resolve) => {
+        if (!startInstall(session, cell, payload.packages, resolve)) {
+          resolve();
+        }
+      }),
+  );
+}
+
+/**
+ * Install the dependencies of the srcbook, or the given packages. Returns whether npm started.
+ */
+function startInstall(
+  session: SessionType,
+  cell: PackageJsonCellType,
+  packages: string[] | undefined,
+  onExit: () => void,
+) {
+  cell.status = 'running';
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell });
+
+  return addRunningProcess(
     session,
     cell,
     npmInstall({
       cwd: session.dir,
-      packages: payload.packages,
+      packages,
       stdout(data) {
         wss.broadcast(`session:${session.id}`, 'cell:output', {
           cellId: cell.id,
@@ -260,6 +1022,8 @@ async function depsInstall(payload: DepsInstallPayloadType, context: SessionsCon
         });
       },
       async onExit(exitCode) {
+        onExit();
+
         const updatedJsonSource = await readPackageJsonContentsFromDisk(session);
 
         const updatedCell: PackageJsonCellType = {
@@ -301,11 +1065,85 @@ async function depsValidate(_payload: DepsValidatePayloadType, context: Sessions
   nudgeMissingDeps(wss, session);
 }
 
-async function cellStop(payload: CellStopPayloadType, context: SessionsContextType) {
+/**
+ * Run a code cell under the inspector. It waits for the client to set its breakpoints and
+ * tell it to run over 'debug:send'.
+ */
+async function cellDebug(payload: CellDebugPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+  const cell = findCell(session, payload.cellId);
+
+  if (!cell || cell.type !== 'code') {
+    console.error(`Cannot debug cell with id ${payload.cellId}; code cell not found.`);
+    return;
+  }
+
+  posthog.capture({
+    event: 'user debugged a cell',
+    properties: { language: cell.language },
+  });
+
+  nudgeMissingDeps(wss, session);
+
+  const secrets = await getSecretsAssociatedWithSession(session.id);
+
+  execCodeCell(session, cell, secrets, { debug: true });
+}
+
+/**
+ * Run a code cell with the CPU profiler, and the heap profiler when asked to.
+ */
+async function cellProfile(payload: CellProfilePayloadType, context: SessionsContextType) {
   const session = await findSession(context.params.sessionId);
   const cell = findCell(session, payload.cellId);
 
   if (!cell || cell.type !== 'code') {
+    console.error(`Cannot profile cell with id ${payload.cellId}; code cell not found.`);
+    return;
+  }
+
+  posthog.capture({
+    event: 'user profiled a cell',
+    properties: { language: cell.language, heap: payload.heap },
+  });
+
+  nudgeMissingDeps(wss, session);
+
+  const secrets = await getSecretsAssociatedWithSession(session.id);
+
+  execCodeCell(session, cell, secrets, { profile: { heap: payload.heap } });
+}
+
+async function debugSend(payload: DebugMessagePayloadType, context: SessionsContextType) {
+  const sessionId = context.params.sessionId;
+
+  if (!inspectors.has(sessionId) || inspectors.get(sessionId).cellId !== payload.cellId) {
+    console.warn(`Cell ${payload.cellId} of session ${sessionId} is not being debugged.`);
+    return;
+  }
+
+  inspectors.get(sessionId).send(payload.message);
+}
+
+async function cellStop(payload: CellStopPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  // Cells waiting for their turn, including the package.json cell, are taken out of the queue.
+  if (scheduler.cancel(session.id, payload.cellId)) {
+    posthog.capture({ event: 'user cancelled a queued run' });
+    return;
+  }
+
+  const cell = findCell(session, payload.cellId);
+
+  if (
+    !cell ||
+    (cell.type !== 'code' &&
+      cell.type !== 'test' &&
+      cell.type !== 'sql' &&
+      cell.type !== 'http' &&
+      cell.type !== 'shell')
+  ) {
     return;
   }
 
@@ -314,10 +1152,24 @@ async function cellStop(payload: CellStopPayloadType, context: SessionsContextTy
     properties: {
       sessionId: session.id,
       cellId: cell.id,
-      language: cell.language,
+      language: 'language' in cell ? cell.language : cell.type,
     },
   });
 
+  if (
+    kernels.has(session.id) &&
+    kernels.get(session.id).isExecuting(kernelEntry(session, cell.filename))
+  ) {
+    // A cell executing in the kernel cannot be interrupted on its own,
+    // so the kernel (and all of its in-memory state) has to go.
+    wss.broadcast(`session:${session.id}`, 'cell:output', {
+      cellId: cell.id,
+      output: { type: 'stderr', data: 'Stopping the kernel. In-memory state has been lost.\n' },
+    });
+    kernels.shutdown(session.id);
+    return;
+  }
+
   try {
     const killed = processes.kill(session.id, cell.id);
     if (!killed) {
@@ -334,6 +1186,82 @@ async function cellStop(payload: CellStopPayloadType, context: SessionsContextTy
   }
 }
 
+async function cellStdin(payload: CellStdinPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+  const cell = findCell(session, payload.cellId);
+
+  if (!cell || cell.type !== 'code') {
+    return;
+  }
+
+  if (
+    kernels.has(session.id) &&
+    kernels.get(session.id).isExecuting(kernelEntry(session, cell.filename))
+  ) {
+    // Cells executing in the kernel share its stdin. Closing it would leave
+    // every later cell reading from a closed stream, so EOF is not sent.
+    writeStdin(session, KERNEL_PROCESS_KEY, payload.data);
+
+    if (payload.eof) {
+      wss.broadcast(`session:${session.id}`, 'cell:output', {
+        cellId: cell.id,
+        output: {
+          type: 'stderr',
+          data: 'Cannot send EOF to a cell running in the kernel. Stop the cell instead.\n',
+        },
+      });
+    }
+
+    return;
+  }
+
+  writeStdin(session, cell.id, payload.data, payload.eof);
+}
+
+// The cell may have finished, or closed its stdin, since the input was sent.
+function writeStdin(session: SessionType, key: string, data: string, eof?: boolean) {
+  try {
+    processes.write(session.id, key, data, eof);
+  } catch (e) {
+    const error = e as unknown as Error;
+    console.warn(`Input for session ${session.id} was not sent: ${error.message}`);
+  }
+}
+
+/**
+ * Stop every process belonging to the session, including the kernel and the tsserver.
+ */
+async function sessionStop(_payload: SessionStopPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({ event: 'user stopped all processes' });
+
+  scheduler.cancelAll(session.id);
+
+  if (kernels.has(session.id)) {
+    kernels.shutdown(session.id);
+  }
+
+  if (tsservers.has(session.id)) {
+    tsservers.shutdown(session.id);
+  }
+
+  // Includes the kernel process, which was signaled above already.
+  processes.killAll(session.id);
+}
+
+/**
+ * Send the import graph of the session's code cells, after code cells were added, edited,
+ * renamed or removed.
+ */
+async function broadcastGraph(sessionId: string) {
+  const session = await findSession(sessionId);
+
+  wss.broadcast(`session:${session.id}`, 'graph:updated', {
+    graph: dependencyGraph(session.cells),
+  });
+}
+
 async function cellCreate(payload: CellCreatePayloadType, context: SessionsContextType) {
   const session = await findSession(context.params.sessionId);
 
@@ -346,6 +1274,10 @@ async function cellCreate(payload: CellCreatePayloadType, context: SessionsConte
   // TODO: handle potential errors
   await addCell(session, cell, index);
 
+  if (cell.type === 'code') {
+    broadcastGraph(session.id);
+  }
+
   if (session.language === 'typescript' && cell.type === 'code' && tsservers.has(session.id)) {
     const tsserver = tsservers.get(session.id);
 
@@ -475,6 +1407,11 @@ async function cellUpdate(payload: CellUpdatePayloadType, context: SessionsConte
       `No cell exists for session '${context.params.sessionId}' and cell '${payload.cellId}'`,
     );
   }
+  const sourceChanged =
+    cellBeforeUpdate.type === 'code' && 'source' in payload.updates
+      ? payload.updates.source !== cellBeforeUpdate.source
+      : false;
+
   const result = await updateCell(session, cellBeforeUpdate, payload.updates);
 
   if (!result.success) {
@@ -483,6 +1420,14 @@ async function cellUpdate(payload: CellUpdatePayloadType, context: SessionsConte
 
   const cell = result.cell as CodeCellType;
 
+  if (cell.type === 'code') {
+    broadcastGraph(session.id);
+  }
+
+  if (sourceChanged) {
+    markDependentsStale(session.id, cell.id);
+  }
+
   refreshCodeCellDiagnostics(session, cell);
 }
 
@@ -501,9 +1446,16 @@ async function cellRename(payload: CellRenamePayloadType, context: SessionsConte
     );
   }
 
-  if (cellBeforeUpdate.type !== 'code') {
+  if (
+    cellBeforeUpdate.type !== 'code' &&
+    cellBeforeUpdate.type !== 'test' &&
+    cellBeforeUpdate.type !== 'sql' &&
+    cellBeforeUpdate.type !== 'http' &&
+    cellBeforeUpdate.type !== 'shell' &&
+    cellBeforeUpdate.type !== 'file'
+  ) {
     throw new Error(
-      `Cannot rename cell of type '${cellBeforeUpdate.type}'. Only code cells can be renamed.`,
+      `Cannot rename cell of type '${cellBeforeUpdate.type}'. Only code, test, SQL, HTTP, shell and file cells can be renamed.`,
     );
   }
 
@@ -521,6 +1473,10 @@ async function cellRename(payload: CellRenamePayloadType, context: SessionsConte
     return sendCellUpdateError(session, payload.cellId, result.errors);
   }
 
+  if (cellBeforeUpdate.type === 'code') {
+    broadcastGraph(session.id);
+  }
+
   if (
     session.language === 'typescript' &&
     cellBeforeUpdate.type === 'code' &&
@@ -579,16 +1535,45 @@ async function cellDelete(payload: CellDeletePayloadType, context: SessionsConte
     properties: { cellType: cell.type },
   });
 
-  if (cell.type !== 'markdown' && cell.type !== 'code') {
+  if (
+    cell.type !== 'markdown' &&
+    cell.type !== 'code' &&
+    cell.type !== 'test' &&
+    cell.type !== 'sql' &&
+    cell.type !== 'http' &&
+    cell.type !== 'shell' &&
+    cell.type !== 'file' &&
+    cell.type !== 'widget'
+  ) {
     throw new Error(`Cannot delete cell of type '${cell.type}'`);
   }
 
+  scheduler.cancel(session.id, cell.id);
+
   const updatedCells = removeCell(session, cell.id);
 
   const updatedSession = await updateSession(session, { cells: updatedCells });
 
+  if (
+    cell.type === 'test' ||
+    cell.type === 'http' ||
+    cell.type === 'shell' ||
+    cell.type === 'file'
+  ) {
+    removeCodeCellFromDisk(updatedSession.dir, cell.filename);
+  }
+
+  if (cell.type === 'sql') {
+    removeSqlCellFromDisk(updatedSession.dir, cell.filename);
+  }
+
+  if (cell.type === 'widget') {
+    await updateSessionEnvTypeDeclarations(updatedSession);
+  }
+
   if (cell.type === 'code') {
     removeCodeCellFromDisk(updatedSession.dir, cell.filename);
+    broadcastGraph(updatedSession.id);
 
     if (updatedSession.language === 'typescript' && tsservers.has(updatedSession.id)) {
       const file = pathToCodeFile(updatedSession.dir, cell.filename);
@@ -693,6 +1678,9 @@ async function tsserverStart(_payload: TsServerStartPayloadType, context: Sessio
     throw new Error(`tsserver can only be used with TypeScript Srcbooks.`);
   }
 
+  // Declares the globals available to cells, like `display`, to the tsserver.
+  await updateSessionEnvTypeDeclarations(session);
+
   requestAllDiagnostics(
     tsservers.has(session.id) ? tsservers.get(session.id) : createTsServer(session),
     session,
@@ -725,6 +1713,126 @@ async function tsconfigUpdate(payload: TsConfigUpdatePayloadType, context: Sessi
   });
 }
 
+async function limitsUpdate(payload: LimitsUpdatePayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: 'user updated execution limits',
+    properties: { scope: payload.cellId ? 'cell' : 'srcbook' },
+  });
+
+  if (!payload.cellId) {
+    const updatedSession = await updateSession(session, { limits: payload.limits });
+
+    wss.broadcast(`session:${updatedSession.id}`, 'limits:updated', {
+      limits: payload.limits,
+    });
+
+    return;
+  }
+
+  const cell = findCell(session, payload.cellId);
+
+  if (!cell || cell.type !== 'code') {
+    throw new Error(
+      `No code cell exists for session '${context.params.sessionId}' and cell '${payload.cellId}'`,
+    );
+  }
+
+  const updatedCell: CodeCellType = { ...cell, limits: payload.limits };
+
+  await updateSession(session, { cells: replaceCell(session, updatedCell) });
+
+  wss.broadcast(`session:${session.id}`, 'cell:updated', { cell: updatedCell });
+}
+
+async function runtimeUpdate(payload: RuntimeUpdatePayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  if (payload.runtime && !supportsLanguage(payload.runtime, session.language)) {
+    throw new Error(`Runtime '${payload.runtime}' cannot run ${session.language} code cells.`);
+  }
+
+  posthog.capture({
+    event: 'user updated runtime',
+    properties: { runtime: payload.runtime ?? 'default', language: session.language },
+  });
+
+  const updatedSession = await updateSession(session, { runtime: payload.runtime ?? undefined });
+
+  wss.broadcast(`session:${updatedSession.id}`, 'runtime:updated', {
+    runtime: updatedSession.runtime ?? null,
+  });
+}
+
+/**
+ * Turn the sandbox on with the given permissions, or off. A running kernel is stopped so that
+ * the next cell runs with the new permissions.
+ */
+async function permissionsUpdate(
+  payload: PermissionsUpdatePayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: 'user updated permissions',
+    properties: {
+      sandboxed: payload.permissions !== null,
+      childProcess: payload.permissions?.childProcess,
+      worker: payload.permissions?.worker,
+    },
+  });
+
+  const updatedSession = await updateSession(session, {
+    permissions: payload.permissions ?? undefined,
+  });
+
+  if (kernels.has(updatedSession.id)) {
+    kernels.shutdown(updatedSession.id);
+  }
+
+  wss.broadcast(`session:${updatedSession.id}`, 'permissions:updated', {
+    permissions: updatedSession.permissions ?? null,
+  });
+}
+
+async function reactiveUpdate(payload: ReactiveUpdatePayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({
+    event: 'user updated reactive mode',
+    properties: { reactive: payload.reactive },
+  });
+
+  const updatedSession = await updateSession(session, { reactive: payload.reactive || undefined });
+
+  wss.broadcast(`session:${updatedSession.id}`, 'reactive:updated', {
+    reactive: updatedSession.reactive === true,
+  });
+}
+
+async function parametersUpdate(
+  payload: ParametersUpdatePayloadType,
+  context: SessionsContextType,
+) {
+  const session = await findSession(context.params.sessionId);
+
+  validateParameterValues(session.parameters ?? [], payload.values);
+
+  posthog.capture({
+    event: 'user updated parameters',
+    properties: { count: Object.keys(payload.values).length },
+  });
+
+  // Values only last as long as the session, so there is nothing to write to disk.
+  const updatedSession = await updateSession(session, { parameterValues: payload.values }, false);
+
+  wss.broadcast(`session:${updatedSession.id}`, 'parameters:updated', {
+    values: updatedSession.parameterValues ?? {},
+  });
+}
+
 async function tsserverQuickInfo(
   payload: TsServerQuickInfoRequestPayloadType,
   context: SessionsContextType,
@@ -846,6 +1954,57 @@ async function getDefinitionLocation(
   wss.broadcast(`session:${session.id}`, 'tsserver:cell:definition_location:response', res);
 }
 
+/**
+ * Opt the session in to executing cells in a kernel and start one.
+ */
+async function kernelStart(_payload: KernelStartPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  posthog.capture({ event: 'user started kernel', properties: { language: session.language } });
+
+  const updatedSession = session.kernel ? session : await updateSession(session, { kernel: true });
+
+  if (!kernels.has(updatedSession.id)) {
+    createKernel(updatedSession);
+  }
+
+  broadcastKernelStatus(updatedSession);
+}
+
+/**
+ * Opt the session out of executing cells in a kernel and stop the running one, if any.
+ */
+async function kernelStop(_payload: KernelStopPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  const updatedSession = session.kernel ? await updateSession(session, { kernel: false }) : session;
+
+  if (kernels.has(updatedSession.id)) {
+    kernels.shutdown(updatedSession.id);
+  }
+
+  broadcastKernelStatus(updatedSession);
+}
+
+/**
+ * Replace the session's kernel with a fresh one, discarding all in-memory state.
+ */
+async function kernelRestart(_payload: KernelRestartPayloadType, context: SessionsContextType) {
+  const session = await findSession(context.params.sessionId);
+
+  if (!session.kernel) {
+    throw new Error(`Cannot restart kernel: session '${session.id}' does not use a kernel.`);
+  }
+
+  posthog.capture({ event: 'user restarted kernel' });
+
+  if (kernels.has(session.id)) {
+    kernels.shutdown(session.id);
+  }
+
+  createKernel(session);
+}
+
 function refreshCodeCellDiagnostics(session: SessionType, cell: CodeCellType) {
   if (session.language === 'typescript' && cell.type === 'code' && tsservers.has(session.id)) {
     const tsserver = tsservers.get(session.id);
@@ -864,8 +2023,26 @@ function refreshCodeCellDiagnostics(session: SessionType, cell: CodeCellType) {
 
 wss
   .channel('session:<sessionId>')
+  .onJoin(async (_payload, context, conn) => {
+    try {
+      const session = await findSession(context.params.sessionId as string);
+      conn.reply(`session:${session.id}`, 'kernel:status', {
+        enabled: session.kernel === true,
+        running: kernels.has(session.id),
+      });
+    } catch (e) {
+      const error = e as unknown as Error;
+      console.error(error);
+    }
+  })
   .on('cell:exec', CellExecPayloadSchema, cellExec)
+  .on('cells:exec', CellsExecPayloadSchema, cellsExec)
   .on('cell:stop', CellStopPayloadSchema, cellStop)
+  .on('cell:debug', CellDebugPayloadSchema, cellDebug)
+  .on('cell:profile', CellProfilePayloadSchema, cellProfile)
+  .on('debug:send', DebugMessagePayloadSchema, debugSend)
+  .on('cell:stdin', CellStdinPayloadSchema, cellStdin)
+  .on('session:stop', SessionStopPayloadSchema, sessionStop)
   .on('cell:create', CellCreatePayloadSchema, cellCreate)
   .on('cell:update', CellUpdatePayloadSchema, cellUpdate)
   .on('cell:rename', CellRenamePayloadSchema, cellRename)
@@ -878,6 +2055,14 @@ wss
   .on('tsserver:start', TsServerStartPayloadSchema, tsserverStart)
   .on('tsserver:stop', TsServerStopPayloadSchema, tsserverStop)
   .on('tsconfig.json:update', TsConfigUpdatePayloadSchema, tsconfigUpdate)
+  .on('limits:update', LimitsUpdatePayloadSchema, limitsUpdate)
+  .on('runtime:update', RuntimeUpdatePayloadSchema, runtimeUpdate)
+  .on('reactive:update', ReactiveUpdatePayloadSchema, reactiveUpdate)
+  .on('permissions:update', PermissionsUpdatePayloadSchema, permissionsUpdate)
+  .on('parameters:update', ParametersUpdatePayloadSchema, parametersUpdate)
+  .on('kernel:start', KernelStartPayloadSchema, kernelStart)
+  .on('kernel:stop', KernelStopPayloadSchema, kernelStop)
+  .on('kernel:restart', KernelRestartPayloadSchema, kernelRestart)
   .on('tsserver:cell:quickinfo:request', TsServerQuickInfoRequestPayloadSchema, tsserverQuickInfo)
   .on(
     'tsserver:cell:definition_location:request',
@@ -890,5 +2075,4 @@ wss
     getCompletions,
   );
 
-
 export default wss;
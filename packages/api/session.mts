@@ -7,12 +7,21 @@ import type {
   MarkdownCellType,
   PackageJsonCellType,
   CodeCellType,
+  TestCellType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
+  FileCellType,
+  WidgetCellType,
   CellErrorType,
+  CellOutputType,
 } from '@srcbook/shared';
 import {
   TitleCellUpdateAttrsSchema,
   MarkdownCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  SqlCellUpdateAttrsSchema,
+  WidgetCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   languageFromFilename,
   extensionsForLanguage,
@@ -25,10 +34,16 @@ import {
   writeCellToDisk,
   writeReadmeToDisk,
   moveCodeCellOnDisk,
+  moveSqlCellOnDisk,
+  writeOutputsToDisk,
+  generateEnvTypesFile,
+  truncateOutputs,
 } from './srcbook/index.mjs';
 import { fileExists } from './fs-utils.mjs';
-import { validFilename } from '@srcbook/shared';
-import { pathToCodeFile } from './srcbook/path.mjs';
+import { isDataFile, isHttpFile, isShellFile, isSqlFile, validFilename } from '@srcbook/shared';
+import { pathToCodeFile, pathToSrcbook } from './srcbook/path.mjs';
+import { validateWidgetControls, widgetControls } from './widgets.mjs';
+import { getSecretsAssociatedWithSession } from './config.mjs';
 import { exec } from 'node:child_process';
 import { npmInstall } from './exec.mjs';
 
@@ -38,6 +53,21 @@ function findSessionByDirname(dirname: string) {
   return Object.values(sessions).find((session) => session.dir === dirname);
 }
 
+// Secrets live in the config database, which the headless runner does not load.
+export async function updateSessionEnvTypeDeclarations(
+  session: Pick<SessionType, 'id' | 'parameters' | 'cells'>,
+) {
+  const sessionSecrets = await getSecretsAssociatedWithSession(session.id);
+  const envTypeDeclarationFileContent = generateEnvTypesFile(
+    sessionSecrets,
+    session.parameters,
+    widgetControls(session.cells),
+  );
+  const srcbookDir = pathToSrcbook(session.id);
+  const envDtsPath = Path.join(srcbookDir, 'env.d.ts');
+  await fs.writeFile(envDtsPath, envTypeDeclarationFileContent);
+}
+
 export async function createSession(srcbookDir: string) {
   const existingSession = findSessionByDirname(srcbookDir);
 
@@ -60,6 +90,13 @@ export async function createSession(srcbookDir: string) {
     dir: srcbookDir,
     cells: srcbook.cells,
     language: srcbook.language,
+    kernel: srcbook.kernel,
+    limits: srcbook.limits,
+    runtime: srcbook.runtime,
+    reactive: srcbook.reactive,
+    permissions: srcbook.permissions,
+    parameters: srcbook.parameters,
+    outputs: srcbook.outputs,
     openedAt: Date.now(),
   };
 
@@ -86,7 +123,15 @@ export async function listSessions(): Promise<Record<string, SessionType>> {
 
 export async function addCell(
   session: SessionType,
-  cell: MarkdownCellType | CodeCellType,
+  cell:
+    | MarkdownCellType
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | FileCellType
+    | WidgetCellType,
   index: number,
 ) {
   const cells = insertCellAt(session, cell, index);
@@ -95,9 +140,16 @@ export async function addCell(
 
   switch (cell.type) {
     case 'markdown':
-      return writeReadmeToDisk(session.dir, session.language, session.cells);
+      return writeReadmeToDisk(session);
     case 'code':
-      return writeCellToDisk(session.dir, session.language, session.cells, cell);
+    case 'test':
+    case 'sql':
+    case 'http':
+    case 'shell':
+    case 'file':
+      return writeCellToDisk(session, cell);
+    case 'widget':
+      return Promise.all([writeReadmeToDisk(session), updateSessionEnvTypeDeclarations(session)]);
   }
 }
 
@@ -115,14 +167,39 @@ export async function updateSession(
   return updatedSession;
 }
 
-export function exportSrcmdText(session: SessionType) {
+/**
+ * Replace the outputs kept for a code cell with those of its latest run.
+ */
+export async function updateCellOutputs(
+  sessionId: string,
+  cellId: string,
+  outputs: CellOutputType[],
+) {
+  const session = await findSession(sessionId);
+  const updatedSession = await updateSession(
+    session,
+    { outputs: { ...session.outputs, [cellId]: truncateOutputs(outputs) } },
+    false,
+  );
+  await writeOutputsToDisk(updatedSession);
+  return updatedSession;
+}
+
+export function exportSrcmdText(session: SessionType, options: { outputs?: boolean } = {}) {
   return encode(
     {
       cells: session.cells,
       language: session.language,
       'tsconfig.json': session['tsconfig.json'],
+      kernel: session.kernel,
+      limits: session.limits,
+      runtime: session.runtime,
+      reactive: session.reactive,
+      permissions: session.permissions,
+      parameters: session.parameters,
+      outputs: session.outputs,
     },
-    { inline: true },
+    { inline: true, outputs: options.outputs },
   );
 }
 
@@ -164,7 +241,7 @@ function updateTitleCell(session: SessionType, cell: TitleCellType, updates: any
   const attrs = TitleCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session) => {
     try {
-      await writeReadmeToDisk(session.dir, session.language, session.cells);
+      await writeReadmeToDisk(session);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -176,7 +253,7 @@ function updateMarkdownCell(session: SessionType, cell: MarkdownCellType, update
   const attrs = MarkdownCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session) => {
     try {
-      await writeReadmeToDisk(session.dir, session.language, session.cells);
+      await writeReadmeToDisk(session);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -188,12 +265,7 @@ function updatePackageJsonCell(session: SessionType, cell: PackageJsonCellType,
   const attrs = PackageJsonCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, attrs, async (session, updatedCell) => {
     try {
-      await writeCellToDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as PackageJsonCellType,
-      );
+      await writeCellToDisk(session, updatedCell as PackageJsonCellType);
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -203,17 +275,15 @@ function updatePackageJsonCell(session: SessionType, cell: PackageJsonCellType,
 
 async function updateCodeCell(
   session: SessionType,
-  cell: CodeCellType,
+  cell: CodeCellType | TestCellType | HttpCellType | ShellCellType | FileCellType,
   updates: any,
 ): Promise<UpdateResultType> {
   const attrs = CodeCellUpdateAttrsSchema.parse(updates);
   return updateCellWithRollback(session, cell, { ...attrs }, async (session, updatedCell) => {
     try {
       await writeCellToDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as CodeCellType,
+        session,
+        updatedCell as CodeCellType | TestCellType | HttpCellType | ShellCellType | FileCellType,
       );
     } catch (e) {
       console.error(e);
@@ -222,12 +292,77 @@ async function updateCodeCell(
   });
 }
 
+async function updateSqlCell(
+  session: SessionType,
+  cell: SqlCellType,
+  updates: any,
+): Promise<UpdateResultType> {
+  const attrs =
+    'connection' in updates
+      ? SqlCellUpdateAttrsSchema.parse(updates)
+      : CodeCellUpdateAttrsSchema.parse(updates);
+
+  return updateCellWithRollback(session, cell, { ...attrs }, async (session, updatedCell) => {
+    try {
+      await writeCellToDisk(session, updatedCell as SqlCellType);
+    } catch (e) {
+      console.error(e);
+      return [{ message: 'An error occurred persisting files to disk' }];
+    }
+  });
+}
+
+async function updateWidgetCell(
+  session: SessionType,
+  cell: WidgetCellType,
+  updates: any,
+): Promise<UpdateResultType> {
+  const attrs = WidgetCellUpdateAttrsSchema.parse(updates);
+  const errors = validateWidgetControls(session, cell, attrs.controls);
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      errors: errors.map((message) => ({ message, attribute: 'controls' })),
+    };
+  }
+
+  return updateCellWithRollback(session, cell, attrs, async (session) => {
+    try {
+      // Controls are kept in the metadata of the README, the types of their variables in env.d.ts.
+      await Promise.all([writeReadmeToDisk(session), updateSessionEnvTypeDeclarations(session)]);
+    } catch (e) {
+      console.error(e);
+      return [{ message: 'An error occurred persisting files to disk' }];
+    }
+  });
+}
+
+// SQL, HTTP, shell and file cells are told apart from code cells by the extension of their file.
+function validFilenameForCell(
+  cell: CodeCellType | TestCellType | SqlCellType | HttpCellType | ShellCellType | FileCellType,
+  filename: string,
+) {
+  switch (cell.type) {
+    case 'sql':
+      return isSqlFile(filename);
+    case 'http':
+      return isHttpFile(filename);
+    case 'shell':
+      return isShellFile(filename);
+    case 'file':
+      return isDataFile(filename);
+    default:
+      return validFilename(filename);
+  }
+}
+
 /**
  * Use this to rename a code cell's filename.
  */
 export async function updateCodeCellFilename(
   session: SessionType,
-  cell: CodeCellType,
+  cell: CodeCellType | TestCellType | SqlCellType | HttpCellType | ShellCellType | FileCellType,
   filename: string,
 ): Promise<UpdateResultType> {
   if (filename === cell.filename) {
@@ -237,14 +372,17 @@ export async function updateCodeCellFilename(
     return { success: true, cell };
   }
 
-  if (!validFilename(filename)) {
+  if (!validFilenameForCell(cell, filename)) {
     return {
       success: false,
       errors: [{ message: `${filename} is not a valid filename`, attribute: 'filename' }],
     };
   }
 
-  if (session.language !== languageFromFilename(filename)) {
+  if (
+    (cell.type === 'code' || cell.type === 'test') &&
+    session.language !== languageFromFilename(filename)
+  ) {
     return {
       success: false,
       errors: [
@@ -265,13 +403,15 @@ export async function updateCodeCellFilename(
 
   return updateCellWithRollback(session, cell, { filename }, async (session, updatedCell) => {
     try {
-      await moveCodeCellOnDisk(
-        session.dir,
-        session.language,
-        session.cells,
-        updatedCell as CodeCellType,
-        cell.filename,
-      );
+      if (updatedCell.type === 'sql') {
+        await moveSqlCellOnDisk(session, updatedCell, cell.filename);
+      } else {
+        await moveCodeCellOnDisk(
+          session,
+          updatedCell as CodeCellType | TestCellType | HttpCellType | ShellCellType | FileCellType,
+          cell.filename,
+        );
+      }
     } catch (e) {
       console.error(e);
       return [{ message: 'An error occurred persisting files to disk' }];
@@ -288,7 +428,15 @@ export function updateCell(session: SessionType, cell: CellType, updates: CellUp
     case 'package.json':
       return updatePackageJsonCell(session, cell, updates);
     case 'code':
+    case 'test':
+    case 'http':
+    case 'shell':
+    case 'file':
       return updateCodeCell(session, cell, updates);
+    case 'sql':
+      return updateSqlCell(session, cell, updates);
+    case 'widget':
+      return updateWidgetCell(session, cell, updates);
   }
 }
 async function ensurePrettierInstalled(dir: string): Promise<boolean> {
@@ -356,10 +504,33 @@ export async function formatAndUpdateCodeCell(session: SessionType, cell: CodeCe
   }
 }
 export function sessionToResponse(session: SessionType) {
-  const result: Pick<SessionType, 'id' | 'cells' | 'language' | 'tsconfig.json' | 'openedAt'> = {
+  const result: Pick<
+    SessionType,
+    | 'id'
+    | 'cells'
+    | 'language'
+    | 'tsconfig.json'
+    | 'kernel'
+    | 'limits'
+    | 'runtime'
+    | 'reactive'
+    | 'permissions'
+    | 'parameters'
+    | 'parameterValues'
+    | 'outputs'
+    | 'openedAt'
+  > = {
     id: session.id,
     cells: session.cells,
     language: session.language,
+    kernel: session.kernel,
+    limits: session.limits,
+    runtime: session.runtime,
+    reactive: session.reactive,
+    permissions: session.permissions,
+    parameters: session.parameters,
+    parameterValues: session.parameterValues,
+    outputs: session.outputs,
     openedAt: session.openedAt,
   };
 
@@ -0,0 +1,41 @@
+import type { ExecLimitsType } from '@srcbook/shared';
+import { spawnCall, type BaseExecRequestType, type ExecLimitType } from './exec.mjs';
+
+export type ShellRequestType = BaseExecRequestType & {
+  // Path to the file with the commands to run.
+  entry: string;
+  // Added to the server's environment, like for code cells.
+  env: NodeJS.ProcessEnv;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+};
+
+/**
+ * Run the commands of a shell cell with bash.
+ *
+ * Example:
+ *
+ *     runShell({
+ *       cwd: '/Users/ben/.srcbook/30v2av4eee17m59dg2c29758to',
+ *       env: {API_TOKEN: '...'},
+ *       entry: '/Users/ben/.srcbook/30v2av4eee17m59dg2c29758to/src/setup.sh',
+ *       stdout(data) {console.log(data.toString('utf8'))},
+ *       stderr(data) {console.error(data.toString('utf8'))},
+ *       onExit(code) {console.log(`Exit code: ${code}`)}
+ *     });
+ *
+ */
+export function runShell(options: ShellRequestType) {
+  return spawnCall({
+    command: 'bash',
+    cwd: options.cwd,
+    args: [options.entry],
+    stdout: options.stdout,
+    stderr: options.stderr,
+    onExit: options.onExit,
+    onError: options.onError,
+    limits: options.limits,
+    onLimitExceeded: options.onLimitExceeded,
+    env: { ...process.env, ...options.env },
+  });
+}
@@ -0,0 +1,80 @@
+import Path from 'node:path';
+import type { DisplayDataType, ExecLimitsType, SqlConnectionType } from '@srcbook/shared';
+import { RUNTIME_DIR } from './constants.mjs';
+import { spawnCall, type BaseExecRequestType, type ExecLimitType } from './exec.mjs';
+
+export type SqlRequestType = BaseExecRequestType & {
+  // Path to the SQLite database file.
+  database: string;
+  // Path to the file with the statements to run.
+  entry: string;
+  // Path to the file the resulting rows are written to.
+  results: string;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  onDisplay: (data: DisplayDataType) => void;
+};
+
+type DatabaseResultType = { error: false; path: string } | { error: true; message: string };
+
+/**
+ * Resolve the connection of a SQL cell to the path of its database.
+ *
+ * Database files are given relative to the srcbook's directory and must be inside it. Secrets
+ * hold a path, absolute or relative to the srcbook's directory, to databases kept elsewhere.
+ * Only the secrets associated with the session are available to its cells.
+ */
+export function resolveDatabase(
+  dir: string,
+  connection: SqlConnectionType | undefined,
+  secrets: Record<string, string>,
+): DatabaseResultType {
+  if (!connection) {
+    return { error: true, message: 'Select a database to run this cell against.' };
+  }
+
+  if (connection.type === 'secret') {
+    const value = secrets[connection.name];
+
+    if (value === undefined) {
+      return {
+        error: true,
+        message: `Secret '${connection.name}' does not exist or is not associated with this srcbook.`,
+      };
+    }
+
+    return { error: false, path: Path.resolve(dir, value) };
+  }
+
+  const path = Path.resolve(dir, connection.path);
+  const relative = Path.relative(dir, path);
+
+  if (relative === '' || relative.startsWith('..') || Path.isAbsolute(relative)) {
+    return {
+      error: true,
+      message: `Database '${connection.path}' is not a file in the srcbook's directory.`,
+    };
+  }
+
+  return { error: false, path };
+}
+
+/**
+ * Run the statements of a SQL cell with runtime/sql.mjs, which displays the rows of the last
+ * statement returning any and writes them to the results file.
+ */
+export function runSql(options: SqlRequestType) {
+  return spawnCall({
+    command: 'node',
+    cwd: options.cwd,
+    args: [Path.join(RUNTIME_DIR, 'sql.mjs'), options.database, options.entry, options.results],
+    stdout: options.stdout,
+    stderr: options.stderr,
+    onExit: options.onExit,
+    onError: options.onError,
+    limits: options.limits,
+    onLimitExceeded: options.onLimitExceeded,
+    onDisplay: options.onDisplay,
+    env: process.env,
+  });
+}
@@ -0,0 +1,164 @@
+import Path from 'node:path';
+import ts from 'typescript';
+import type { CellDependencyGraphType, CellType, CodeCellType } from '@srcbook/shared';
+
+// Extensions tried, in order, for imports written without one.
+const EXTENSIONS = ['.ts', '.mts', '.tsx', '.js', '.mjs', '.jsx', '.cjs', '.cts'];
+
+// TypeScript files are imported with the extension they compile to.
+const COMPILED_EXTENSIONS: Record<string, string> = {
+  '.js': '.ts',
+  '.mjs': '.mts',
+  '.cjs': '.cts',
+  '.jsx': '.tsx',
+};
+
+/**
+ * The filenames an import specifier can refer to when it points at another file in src/, or
+ * an empty list for packages and files outside of src/.
+ */
+function candidateFilenames(specifier: string) {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+    return [];
+  }
+
+  // Code cells all live in the src directory, so a specifier like ../src/utils.ts is fine too.
+  const path = Path.posix.join('src', specifier);
+
+  if (Path.posix.dirname(path) !== 'src') {
+    return [];
+  }
+
+  const basename = Path.posix.basename(path);
+  const extension = Path.posix.extname(basename);
+
+  if (extension === '') {
+    return EXTENSIONS.map((ext) => basename + ext);
+  }
+
+  const compiled = COMPILED_EXTENSIONS[extension];
+
+  return compiled ? [basename, basename.slice(0, -extension.length) + compiled] : [basename];
+}
+
+/**
+ * The code cells a code cell imports, found with the TypeScript compiler's import scanner.
+ *
+ * Static and dynamic imports, re-exports and require calls all count.
+ */
+export function importedCodeCells(cell: CodeCellType, cells: CodeCellType[]): CodeCellType[] {
+  const { importedFiles } = ts.preProcessFile(cell.source, true, true);
+  const imported: CodeCellType[] = [];
+
+  for (const { fileName } of importedFiles) {
+    for (const filename of candidateFilenames(fileName)) {
+      const match = cells.find((c) => c.filename === filename);
+
+      if (match) {
+        if (match !== cell && !imported.includes(match)) {
+          imported.push(match);
+        }
+        break;
+      }
+    }
+  }
+
+  return imported;
+}
+
+/**
+ * Build the import graph of a srcbook's code cells.
+ */
+export function dependencyGraph(cells: CellType[]): CellDependencyGraphType {
+  const codeCells = cells.filter((cell) => cell.type === 'code') as CodeCellType[];
+
+  return {
+    cells: codeCells.map((cell) => ({
+      cellId: cell.id,
+      filename: cell.filename,
+      imports: importedCodeCells(cell, codeCells).map((c) => c.id),
+    })),
+  };
+}
+
+/**
+ * A code cell along with every code cell it depends on, directly or not, in an order that
+ * runs each cell after the cells it imports.
+ *
+ * Imports can be circular, in which case the cell seen first along the cycle runs last.
+ */
+export function upstreamCodeCells(cells: CellType[], cell: CodeCellType): CodeCellType[] {
+  const graph = dependencyGraph(cells);
+  const codeCells = cells.filter((c) => c.type === 'code') as CodeCellType[];
+  const ordered: CodeCellType[] = [];
+  const visited = new Set<string>();
+
+  function visit(id: string) {
+    if (visited.has(id)) {
+      return;
+    }
+
+    visited.add(id);
+
+    const node = graph.cells.find((node) => node.cellId === id);
+
+    for (const imported of node?.imports ?? []) {
+      visit(imported);
+    }
+
+    ordered.push(codeCells.find((c) => c.id === id)!);
+  }
+
+  visit(cell.id);
+
+  return ordered;
+}
+
+/**
+ * A code cell followed by every code cell depending on it, directly or not, in an order that
+ * runs each cell after the cells it imports.
+ */
+export function downstreamCodeCells(cells: CellType[], cell: CodeCellType): CodeCellType[] {
+  const graph = dependencyGraph(cells);
+  const codeCells = cells.filter((c) => c.type === 'code') as CodeCellType[];
+
+  // Find the cells importing the cell, then the cells importing those, and so on.
+  const dependents = new Set([cell.id]);
+  let added = true;
+
+  while (added) {
+    added = false;
+
+    for (const node of graph.cells) {
+      if (!dependents.has(node.cellId) && node.imports.some((id) => dependents.has(id))) {
+        dependents.add(node.cellId);
+        added = true;
+      }
+    }
+  }
+
+  const ordered: CodeCellType[] = [];
+  const visited = new Set([cell.id]);
+
+  function visit(id: string) {
+    if (visited.has(id) || !dependents.has(id)) {
+      return;
+    }
+
+    visited.add(id);
+
+    const node = graph.cells.find((node) => node.cellId === id);
+
+    for (const imported of node?.imports ?? []) {
+      visit(imported);
+    }
+
+    ordered.push(codeCells.find((c) => c.id === id)!);
+  }
+
+  for (const node of graph.cells) {
+    visit(node.cellId);
+  }
+
+  return [codeCells.find((c) => c.id === cell.id)!, ...ordered];
+}
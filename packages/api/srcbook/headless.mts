@@ -0,0 +1,239 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import type { CodeCellType, DisplayDataType, TestCellType, TestResultType } from '@srcbook/shared';
+import { decode, decodeDir } from '../srcmd.mjs';
+import { isSrcmdPath } from '../srcmd/paths.mjs';
+import { shouldNpmInstall } from '../deps.mjs';
+import { npmInstall, type ExecLimitType } from '../exec.mjs';
+import { runTests, SANDBOXED_TESTS_UNAVAILABLE } from '../test-runner.mjs';
+import { parametersEnv, parseParameterAssignment } from '../parameters.mjs';
+import { toFormattedJSON } from '../utils.mjs';
+import { writeToDisk } from './index.mjs';
+import { pathToCodeFile } from './path.mjs';
+import { buildTsconfigJson } from './config.mjs';
+import {
+  codeCellsInScope,
+  execCodeCellProcess,
+  runCodeCells,
+  type CodeCellExitType,
+  type CodeCellsRunResultType,
+} from './run.mjs';
+import type { SrcbookType } from '../srcmd/types.mjs';
+
+type HeadlessRequestType = {
+  // Path to a .src.md file or to a srcbook directory.
+  path: string;
+  // Parameter values as name=value, e.g. from `--param` on the command line.
+  parameters?: string[];
+  stdout: (data: Buffer) => void;
+  stderr: (data: Buffer) => void;
+  onInstall?: () => void;
+};
+
+export type RunSrcbookRequestType = HeadlessRequestType & {
+  onCellStart?: (cell: CodeCellType) => void;
+  onCellExit?: (cell: CodeCellType, exit: CodeCellExitType) => void;
+  onDisplay?: (cell: CodeCellType, data: DisplayDataType) => void;
+  onLimitExceeded?: (cell: CodeCellType, limit: ExecLimitType) => void;
+};
+
+export type TestSrcbookRequestType = HeadlessRequestType & {
+  onCellStart?: (cell: TestCellType) => void;
+  onResult?: (cell: TestCellType, result: TestResultType) => void;
+};
+
+export type TestSrcbookResultType = {
+  success: boolean;
+  suites: Array<CodeCellExitType & { cell: TestCellType; results: TestResultType[] }>;
+};
+
+async function decodeSrcbook(path: string): Promise<SrcbookType> {
+  const result = isSrcmdPath(path)
+    ? decode(await fs.readFile(path, 'utf8'))
+    : await decodeDir(path);
+
+  if (result.error) {
+    throw new Error(`Cannot decode ${path}: ${result.errors.join(', ')}`);
+  }
+
+  return result.srcbook;
+}
+
+function install(request: HeadlessRequestType, dir: string) {
+  return new Promise<void>((resolve, reject) => {
+    npmInstall({
+      cwd: dir,
+      // Keep stdout for what the cells output.
+      stdout: request.stderr,
+      stderr: request.stderr,
+      onExit(code) {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`npm install exited with code ${code}`));
+        }
+      },
+      onError: reject,
+    });
+  });
+}
+
+/**
+ * Prepare a srcbook to run outside of a session and without the server.
+ *
+ * A .src.md file is written to a temporary directory first, which is removed afterwards.
+ * A srcbook directory is used in place. Dependencies are installed when needed.
+ */
+async function withSrcbook<T>(
+  request: HeadlessRequestType,
+  fn: (srcbook: SrcbookType, dir: string, env: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const srcbook = await decodeSrcbook(request.path);
+
+  const parameterValues = Object.fromEntries(
+    (request.parameters ?? []).map((assignment) =>
+      parseParameterAssignment(srcbook.parameters ?? [], assignment),
+    ),
+  );
+
+  const env = parametersEnv({
+    parameters: srcbook.parameters,
+    parameterValues,
+    cells: srcbook.cells,
+  });
+
+  const temporary = isSrcmdPath(request.path);
+
+  const dir = temporary
+    ? await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-run-'))
+    : Path.resolve(request.path);
+
+  try {
+    if (temporary) {
+      // Like when importing, TypeScript srcbooks cannot run without a tsconfig.json.
+      const tsconfig =
+        srcbook.language === 'typescript'
+          ? srcbook['tsconfig.json'] || toFormattedJSON(buildTsconfigJson())
+          : srcbook['tsconfig.json'];
+
+      await fs.mkdir(Path.join(dir, 'src'));
+      await writeToDisk({ dir, ...srcbook, 'tsconfig.json': tsconfig });
+    }
+
+    if (await shouldNpmInstall(dir)) {
+      request.onInstall?.();
+      await install(request, dir);
+    }
+
+    return await fn(srcbook, dir, env);
+  } finally {
+    if (temporary) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Run every code cell of a srcbook in order, outside of a session and without the server.
+ *
+ * Like running all cells from the UI, this stops at the first cell that fails. Cells always
+ * run in their own process, even if the srcbook enables the kernel.
+ */
+export function runSrcbook(request: RunSrcbookRequestType): Promise<CodeCellsRunResultType> {
+  return withSrcbook(request, (srcbook, dir, env) => {
+    const cells = codeCellsInScope(srcbook.cells, 'all');
+    return runCodeCells(cells, (cell) => execCell(request, srcbook, dir, env, cell));
+  });
+}
+
+/**
+ * Run the tests of every test cell of a srcbook, outside of a session and without the server.
+ *
+ * Unlike running code cells, every test cell runs even if an earlier one fails.
+ */
+export function testSrcbook(request: TestSrcbookRequestType): Promise<TestSrcbookResultType> {
+  return withSrcbook(request, async (srcbook, dir, env) => {
+    const cells = srcbook.cells.filter((cell) => cell.type === 'test') as TestCellType[];
+    const suites: TestSrcbookResultType['suites'] = [];
+
+    for (const cell of cells) {
+      suites.push(await testCell(request, srcbook, dir, env, cell));
+    }
+
+    return {
+      success: suites.every((suite) => suite.exitCode === 0),
+      suites,
+    };
+  });
+}
+
+function testCell(
+  request: TestSrcbookRequestType,
+  srcbook: SrcbookType,
+  dir: string,
+  env: Record<string, string>,
+  cell: TestCellType,
+): Promise<TestSrcbookResultType['suites'][number]> {
+  request.onCellStart?.(cell);
+
+  const results: TestResultType[] = [];
+
+  return new Promise((resolve) => {
+    function onExit(exitCode: number | null, signal: NodeJS.Signals | null) {
+      resolve({ cell, results, exitCode, signal });
+    }
+
+    if (srcbook.permissions) {
+      request.stderr(Buffer.from(`${SANDBOXED_TESTS_UNAVAILABLE}\n`));
+      onExit(1, null);
+      return;
+    }
+
+    const child = runTests({
+      cwd: dir,
+      env,
+      entry: pathToCodeFile(dir, cell.filename),
+      language: cell.language,
+      limits: srcbook.limits,
+      stdout: request.stdout,
+      stderr: request.stderr,
+      onResult(result) {
+        results.push(result);
+        request.onResult?.(cell, result);
+      },
+      onExit,
+      onError(error) {
+        request.stderr(Buffer.from(`${error.message}\n`));
+      },
+    });
+
+    // A process that failed to spawn never exits.
+    if (!child.pid) {
+      onExit(null, null);
+    }
+  });
+}
+
+async function execCell(
+  request: RunSrcbookRequestType,
+  srcbook: SrcbookType,
+  dir: string,
+  env: Record<string, string>,
+  cell: CodeCellType,
+): Promise<CodeCellExitType> {
+  request.onCellStart?.(cell);
+
+  const result = await execCodeCellProcess(srcbook, cell, {
+    dir,
+    env,
+    stdout: request.stdout,
+    stderr: request.stderr,
+    onDisplay: (data) => request.onDisplay?.(cell, data),
+    onLimitExceeded: (limit) => request.onLimitExceeded?.(cell, limit),
+  });
+
+  request.onCellExit?.(cell, result);
+
+  return result;
+}
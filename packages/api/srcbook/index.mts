@@ -1,12 +1,20 @@
 import fs from 'node:fs/promises';
 import Path from 'node:path';
 import type {
+  CellOutputType,
   CellType,
   CodeCellType,
   CodeLanguageType,
+  FileCellType,
   PackageJsonCellType,
+  ParameterType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
+  TestCellType,
+  WidgetControlType,
 } from '@srcbook/shared';
-import { randomid } from '@srcbook/shared';
+import { randomid, sqlResultsFilename } from '@srcbook/shared';
 import { encode, decode } from '../srcmd.mjs';
 import { toFormattedJSON } from '../utils.mjs';
 import { readdir } from '../fs-utils.mjs';
@@ -14,16 +22,28 @@ import { SRCBOOKS_DIR } from '../constants.mjs';
 import { EXAMPLE_SRCBOOKS } from '../srcbook/examples.mjs';
 import {
   pathToCodeFile,
+  pathToOutputs,
   pathToPackageJson,
   pathToReadme,
-  pathToSrcbook,
   pathToTsconfigJson,
 } from './path.mjs';
 import { buildJSPackageJson, buildTSPackageJson, buildTsconfigJson } from './config.mjs';
 import type { SessionType } from '../types.mjs';
-import { getSecretsAssociatedWithSession } from '../config.mjs';
-
-function writeCellOnlyToDisk(srcbookDir: string, cell: PackageJsonCellType | CodeCellType) {
+import type { SrcbookType } from '../srcmd/types.mjs';
+import { parameterTypeDeclaration } from '../parameters.mjs';
+import { widgetControlTypeDeclaration } from '../widgets.mjs';
+
+// Cells with a file of their own.
+type CellWithFileType =
+  | PackageJsonCellType
+  | CodeCellType
+  | TestCellType
+  | SqlCellType
+  | HttpCellType
+  | ShellCellType
+  | FileCellType;
+
+function writeCellOnlyToDisk(srcbookDir: string, cell: CellWithFileType) {
   const path =
     cell.type === 'package.json'
       ? pathToPackageJson(srcbookDir)
@@ -32,10 +52,11 @@ function writeCellOnlyToDisk(srcbookDir: string, cell: PackageJsonCellType | Cod
   return fs.writeFile(path, cell.source, { encoding: 'utf8' });
 }
 
-export function writeToDisk(
-  srcbook: Pick<SessionType, 'dir' | 'cells' | 'language' | 'tsconfig.json'>,
-) {
-  const writes = [writeReadmeToDisk(srcbook.dir, srcbook.language, srcbook.cells)];
+// The srcbook contents written to its directory on disk.
+type SrcbookDirType = Pick<SessionType, 'dir'> & SrcbookType;
+
+export function writeToDisk(srcbook: SrcbookDirType) {
+  const writes = [writeReadmeToDisk(srcbook), writeOutputsToDisk(srcbook)];
 
   if (srcbook['tsconfig.json']) {
     writes.push(
@@ -46,7 +67,15 @@ export function writeToDisk(
   }
 
   for (const cell of srcbook.cells) {
-    if (cell.type === 'package.json' || cell.type === 'code') {
+    if (
+      cell.type === 'package.json' ||
+      cell.type === 'code' ||
+      cell.type === 'test' ||
+      cell.type === 'sql' ||
+      cell.type === 'http' ||
+      cell.type === 'shell' ||
+      cell.type === 'file'
+    ) {
       writes.push(writeCellOnlyToDisk(srcbook.dir, cell));
     }
   }
@@ -54,43 +83,126 @@ export function writeToDisk(
   return Promise.all(writes);
 }
 
-export function writeCellToDisk(
-  srcbookDir: string,
-  language: CodeLanguageType,
-  cells: CellType[],
-  cell: PackageJsonCellType | CodeCellType,
-) {
+export function writeCellToDisk(srcbook: SrcbookDirType, cell: CellWithFileType) {
   // Readme must also be updated
-  return Promise.all([
-    writeReadmeToDisk(srcbookDir, language, cells),
-    writeCellOnlyToDisk(srcbookDir, cell),
-  ]);
+  return Promise.all([writeReadmeToDisk(srcbook), writeCellOnlyToDisk(srcbook.dir, cell)]);
 }
 
 export function moveCodeCellOnDisk(
-  srcbookDir: string,
-  language: CodeLanguageType,
-  cells: CellType[],
-  cell: CodeCellType,
+  srcbook: SrcbookDirType,
+  cell: CodeCellType | TestCellType | HttpCellType | ShellCellType | FileCellType,
   oldFilename: string,
 ) {
   return Promise.all([
-    writeReadmeToDisk(srcbookDir, language, cells),
-    fs.unlink(pathToCodeFile(srcbookDir, oldFilename)),
-    fs.writeFile(pathToCodeFile(srcbookDir, cell.filename), cell.source, { encoding: 'utf8' }),
+    writeReadmeToDisk(srcbook),
+    writeOutputsToDisk(srcbook),
+    fs.unlink(pathToCodeFile(srcbook.dir, oldFilename)),
+    fs.writeFile(pathToCodeFile(srcbook.dir, cell.filename), cell.source, { encoding: 'utf8' }),
   ]);
 }
 
-export function writeReadmeToDisk(
-  srcbookDir: string,
-  language: CodeLanguageType,
-  cells: CellType[],
-) {
-  return fs.writeFile(pathToReadme(srcbookDir), encode({ cells, language }, { inline: false }), {
+/**
+ * Like `moveCodeCellOnDisk`, also moving the results of the cell's last run, if any.
+ */
+export function moveSqlCellOnDisk(srcbook: SrcbookDirType, cell: SqlCellType, oldFilename: string) {
+  return Promise.all([
+    writeReadmeToDisk(srcbook),
+    writeOutputsToDisk(srcbook),
+    fs.unlink(pathToCodeFile(srcbook.dir, oldFilename)),
+    fs.writeFile(pathToCodeFile(srcbook.dir, cell.filename), cell.source, { encoding: 'utf8' }),
+    fs
+      .rename(
+        pathToCodeFile(srcbook.dir, sqlResultsFilename(oldFilename)),
+        pathToCodeFile(srcbook.dir, sqlResultsFilename(cell.filename)),
+      )
+      .catch((e: NodeJS.ErrnoException) => {
+        if (e.code !== 'ENOENT') {
+          throw e;
+        }
+      }),
+  ]);
+}
+
+export function writeReadmeToDisk(srcbook: SrcbookDirType) {
+  // tsconfig.json is written to its own file, so it is left out of the README.
+  const { dir, 'tsconfig.json': _tsconfig, ...contents } = srcbook;
+  return fs.writeFile(pathToReadme(dir), encode(contents, { inline: false }), {
     encoding: 'utf8',
   });
 }
 
+// How much of a cell's last outputs is kept, in bytes of text or of JSON for displayed data.
+export const MAX_SAVED_OUTPUT_SIZE = 256 * 1024;
+
+function outputSize(output: CellOutputType) {
+  return output.type === 'display'
+    ? Buffer.byteLength(JSON.stringify(output.data))
+    : Buffer.byteLength(output.data);
+}
+
+/**
+ * The end of a cell's outputs, at most `maxSize` bytes of it, for a chatty cell not to make
+ * outputs.json and exports arbitrarily large. What is left out is replaced by a note saying so.
+ */
+export function truncateOutputs(
+  outputs: CellOutputType[],
+  maxSize: number = MAX_SAVED_OUTPUT_SIZE,
+): CellOutputType[] {
+  const kept: CellOutputType[] = [];
+  let size = 0;
+  let idx = outputs.length - 1;
+
+  for (; idx >= 0; idx--) {
+    const output = outputs[idx]!;
+    const length = outputSize(output);
+
+    if (size + length > maxSize) {
+      break;
+    }
+
+    kept.unshift(output);
+    size += length;
+  }
+
+  if (idx < 0) {
+    return outputs;
+  }
+
+  let omitted = outputs.slice(0, idx + 1).reduce((sum, output) => sum + outputSize(output), 0);
+
+  // Text which does not fit in full keeps its end, like the outputs as a whole.
+  const output = outputs[idx]!;
+
+  if (output.type !== 'display' && size < maxSize) {
+    const tail = Buffer.from(output.data)
+      .subarray(-(maxSize - size))
+      .toString('utf8');
+    kept.unshift({ type: output.type, data: tail });
+    omitted -= Buffer.byteLength(tail);
+  }
+
+  return [{ type: 'stderr', data: `[${omitted} bytes of earlier output not saved]\n` }, ...kept];
+}
+
+/**
+ * The last outputs of code, SQL, HTTP and shell cells are kept in outputs.json, keyed by the
+ * filename of the cell since cell ids do not survive reloading the srcbook.
+ */
+export function writeOutputsToDisk(srcbook: Pick<SrcbookDirType, 'dir' | 'cells' | 'outputs'>) {
+  const outputs: Record<string, CellOutputType[]> = {};
+
+  for (const cell of srcbook.cells) {
+    const cellOutputs = srcbook.outputs?.[cell.id];
+    const withOutputs =
+      cell.type === 'code' || cell.type === 'sql' || cell.type === 'http' || cell.type === 'shell';
+    if (withOutputs && cellOutputs && cellOutputs.length > 0) {
+      outputs[cell.filename] = cellOutputs;
+    }
+  }
+
+  return fs.writeFile(pathToOutputs(srcbook.dir), JSON.stringify(outputs), { encoding: 'utf8' });
+}
+
 /**
  * Creates a srcbook directory from a .src.md file.
  */
@@ -134,12 +246,7 @@ export async function importSrcbookFromSrcmdText(text: string, directoryBasename
     // because reading from this directory will fail if tsconfig.json is missing.
     const tsconfig = srcbook['tsconfig.json'] || toFormattedJSON(buildTsconfigJson());
 
-    await writeToDisk({
-      dir: dirname,
-      cells: srcbook.cells,
-      language: srcbook.language,
-      'tsconfig.json': tsconfig,
-    });
+    await writeToDisk({ dir: dirname, ...srcbook, 'tsconfig.json': tsconfig });
   } else {
     await writeToDisk({ dir: dirname, ...srcbook });
   }
@@ -229,21 +336,43 @@ export function removeCodeCellFromDisk(srcbookDir: string, filename: string) {
   return fs.rm(pathToCodeFile(srcbookDir, filename));
 }
 
-export async function updateSessionEnvTypeDeclarations(sessionId: string) {
-  const sessionSecrets = await getSecretsAssociatedWithSession(sessionId);
-  if (!Object.entries(sessionSecrets).length) return;
-  const envTypeDeclarationFileContent = generateEnvTypesFile(sessionSecrets);
-  const srcbookDir = pathToSrcbook(sessionId);
-  const envDtsPath = Path.join(srcbookDir, 'env.d.ts');
-  await fs.writeFile(envDtsPath, envTypeDeclarationFileContent);
+// SQL cells may not have run yet, leaving no results to remove.
+export function removeSqlCellFromDisk(srcbookDir: string, filename: string) {
+  return Promise.all([
+    fs.rm(pathToCodeFile(srcbookDir, filename)),
+    fs.rm(pathToCodeFile(srcbookDir, sqlResultsFilename(filename)), { force: true }),
+  ]);
 }
 
-export function generateEnvTypesFile(secrets: Record<string, string>) {
-  const envTypes = Object.entries(secrets).length
-    ? Object.keys(secrets)
-        .map((key) => `readonly ${key}: string;`)
-        .join('\n')
-    : '';
+// Types of the `display` global defined by runtime/display.mjs.
+const DISPLAY_TYPES = `type DisplayBundle = {
+  'text/plain'?: string;
+  'text/html'?: string;
+  'image/png'?: string;
+  'image/svg+xml'?: string;
+  'application/json'?: unknown;
+  'application/vnd.srcbook.table+json'?: { columns: string[]; rows: unknown[][] };
+};
+
+declare var display: {
+  (bundle: DisplayBundle): void;
+  html(html: string): void;
+  json(value: unknown): void;
+  png(data: Uint8Array | string): void;
+  svg(svg: string): void;
+  table(rows: Record<string, unknown>[]): void;
+};`;
+
+export function generateEnvTypesFile(
+  secrets: Record<string, string>,
+  parameters: ParameterType[] = [],
+  controls: WidgetControlType[] = [],
+) {
+  const envTypes = [
+    ...Object.keys(secrets).map((key) => `readonly ${key}: string;`),
+    ...parameters.map(parameterTypeDeclaration),
+    ...controls.map(widgetControlTypeDeclaration),
+  ].join('\n');
 
   return `
   declare namespace NodeJS {
@@ -256,5 +385,6 @@ declare var process: {
   env: NodeJS.ProcessEnv;
 };
 
+${DISPLAY_TYPES}
   `;
 }
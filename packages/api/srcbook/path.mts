@@ -17,6 +17,10 @@ export function pathToTsconfigJson(baseDir: string) {
   return Path.join(baseDir, 'tsconfig.json');
 }
 
+export function pathToOutputs(baseDir: string) {
+  return Path.join(baseDir, 'outputs.json');
+}
+
 export function pathToCodeFile(baseDir: string, filename: string) {
   return Path.join(baseDir, 'src', filename);
 }
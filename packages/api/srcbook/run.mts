@@ -0,0 +1,158 @@
+import type {
+  CellType,
+  CodeCellType,
+  CellsExecScopeType,
+  CellsExecSummaryPayloadType,
+  DisplayDataType,
+  ExecLimitsType,
+} from '@srcbook/shared';
+import type { SessionType } from '../types.mjs';
+import { execWithRuntime, type ExecLimitType } from '../exec.mjs';
+import { runtimeFor } from '../runtimes.mjs';
+import { sandboxUnavailableReason } from '../sandbox.mjs';
+import { downstreamCodeCells, upstreamCodeCells } from './graph.mjs';
+import { pathToCodeFile } from './path.mjs';
+
+export type CodeCellExitType = {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+export type CodeCellsRunResultType = Pick<
+  CellsExecSummaryPayloadType,
+  'success' | 'results' | 'skipped'
+>;
+
+/**
+ * The limits to enforce when executing a cell: the srcbook's limits, overridden by the cell's.
+ */
+export function execLimitsForCell(
+  srcbook: Pick<SessionType, 'limits'>,
+  cell: CodeCellType,
+): ExecLimitsType {
+  return { ...srcbook.limits, ...cell.limits };
+}
+
+export type CodeCellProcessRequestType = {
+  dir: string;
+  env: NodeJS.ProcessEnv;
+  stdout: (data: Buffer) => void;
+  stderr: (data: Buffer) => void;
+  onDisplay?: (data: DisplayDataType) => void;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+};
+
+/**
+ * Execute a code cell of the srcbook in `dir` in a process of its own, sandboxed with the
+ * srcbook's permissions and within the cell's limits, resolving once the process exits.
+ *
+ * Unlike running a cell from the session view, this does not need the server: the cell
+ * is neither queued by the scheduler nor tracked with the session's running processes.
+ */
+export function execCodeCellProcess(
+  srcbook: Pick<SessionType, 'runtime' | 'permissions' | 'limits'>,
+  cell: CodeCellType,
+  request: CodeCellProcessRequestType,
+): Promise<CodeCellExitType> {
+  return new Promise((resolve) => {
+    function onExit(exitCode: number | null, signal: NodeJS.Signals | null) {
+      resolve({ exitCode, signal });
+    }
+
+    const runtime = runtimeFor(srcbook, cell.language);
+    const unavailable = srcbook.permissions ? sandboxUnavailableReason(runtime) : null;
+
+    if (unavailable) {
+      request.stderr(Buffer.from(`${unavailable}\n`));
+      onExit(1, null);
+      return;
+    }
+
+    const child = execWithRuntime(runtime, {
+      cwd: request.dir,
+      env: request.env,
+      entry: pathToCodeFile(request.dir, cell.filename),
+      permissions: srcbook.permissions,
+      limits: execLimitsForCell(srcbook, cell),
+      stdout: request.stdout,
+      stderr: request.stderr,
+      onDisplay: request.onDisplay,
+      onLimitExceeded: request.onLimitExceeded,
+      onExit,
+      onError(error) {
+        request.stderr(Buffer.from(`${error.message}\n`));
+      },
+    });
+
+    // A process that failed to spawn never exits.
+    if (!child.pid) {
+      onExit(null, null);
+    }
+  });
+}
+
+/**
+ * Find the code cells a run of the given scope covers, in the order they appear in the Srcbook.
+ *
+ * Like in other notebooks, running the cells 'above' a cell excludes that cell while
+ * running the cells 'below' a cell includes it. Running a cell's 'upstream' runs the cells it
+ * imports before it instead, and its 'downstream' the cells importing it after it, in
+ * dependency order.
+ */
+export function codeCellsInScope(
+  cells: CellType[],
+  scope: CellsExecScopeType,
+  cellId?: string,
+): CodeCellType[] {
+  if (scope === 'all') {
+    return cells.filter((cell) => cell.type === 'code') as CodeCellType[];
+  }
+
+  const idx = cells.findIndex((cell) => cell.id === cellId);
+
+  if (idx === -1) {
+    throw new Error(`Cannot run cells ${scope} cell '${cellId}': cell not found.`);
+  }
+
+  if (scope === 'upstream' || scope === 'downstream') {
+    const cell = cells[idx]!;
+
+    if (cell.type !== 'code') {
+      throw new Error(`Cannot run the ${scope} cells of cell '${cellId}': not a code cell.`);
+    }
+
+    return scope === 'upstream' ? upstreamCodeCells(cells, cell) : downstreamCodeCells(cells, cell);
+  }
+
+  const range = scope === 'above' ? cells.slice(0, idx) : cells.slice(idx);
+
+  return range.filter((cell) => cell.type === 'code') as CodeCellType[];
+}
+
+/**
+ * Execute code cells one after another, waiting for each to exit before starting the next.
+ *
+ * Stops at the first cell that does not exit with 0. The cells after it are reported as skipped.
+ */
+export async function runCodeCells(
+  cells: CodeCellType[],
+  exec: (cell: CodeCellType) => Promise<CodeCellExitType>,
+): Promise<CodeCellsRunResultType> {
+  const results: CodeCellsRunResultType['results'] = [];
+
+  for (const [idx, cell] of cells.entries()) {
+    const { exitCode, signal } = await exec(cell);
+
+    results.push({ cellId: cell.id, exitCode, signal });
+
+    if (exitCode !== 0) {
+      return {
+        success: false,
+        results,
+        skipped: cells.slice(idx + 1).map((cell) => cell.id),
+      };
+    }
+  }
+
+  return { success: true, results, skipped: [] };
+}
@@ -1,6 +1,10 @@
 import fs from 'node:fs/promises';
+import { z } from 'zod';
+import { CellOutputSchema } from '@srcbook/shared';
+import type { CellOutputType, CellType } from '@srcbook/shared';
 import {
   pathToCodeFile,
+  pathToOutputs,
   pathToPackageJson,
   pathToReadme,
   pathToTsconfigJson,
@@ -42,7 +46,15 @@ export async function decodeDir(dir: string): Promise<DecodeResult> {
 
     // Let's replace all the code cells with the actual file contents for each one
     for (const cell of cells) {
-      if (cell.type === 'code' || cell.type === 'package.json') {
+      if (
+        cell.type === 'code' ||
+        cell.type === 'test' ||
+        cell.type === 'sql' ||
+        cell.type === 'http' ||
+        cell.type === 'shell' ||
+        cell.type === 'file' ||
+        cell.type === 'package.json'
+      ) {
         const filePath =
           cell.type === 'package.json'
             ? pathToPackageJson(dir)
@@ -59,17 +71,47 @@ export async function decodeDir(dir: string): Promise<DecodeResult> {
     // Wait for all file reads to complete
     await Promise.all(pendingFileReads);
 
+    const outputs = await readOutputs(dir, cells);
+
     if (srcbook.language === 'typescript') {
       const tsconfig = await fs.readFile(pathToTsconfigJson(dir), 'utf8');
-      return {
-        error: false,
-        srcbook: { language: srcbook.language, cells, 'tsconfig.json': tsconfig },
-      };
+      return { error: false, srcbook: { ...srcbook, cells, outputs, 'tsconfig.json': tsconfig } };
     } else {
-      return { error: false, srcbook: { language: srcbook.language, cells } };
+      return { error: false, srcbook: { ...srcbook, cells, outputs } };
     }
   } catch (e) {
     const error = e as unknown as Error;
     return { error: true, errors: [error.message] };
   }
 }
+
+const OutputsFileSchema = z.record(z.string(), z.array(CellOutputSchema));
+
+/**
+ * Read the last outputs of code, SQL, HTTP and shell cells, which are keyed by filename on disk,
+ * and key them by cell id instead. Outputs are a cache, so a missing or invalid file means none.
+ */
+async function readOutputs(dir: string, cells: CellType[]) {
+  const outputs: Record<string, CellOutputType[]> = {};
+
+  let byFilename: Record<string, CellOutputType[]>;
+
+  try {
+    const contents = await fs.readFile(pathToOutputs(dir), 'utf-8');
+    byFilename = OutputsFileSchema.parse(JSON.parse(contents));
+  } catch {
+    return outputs;
+  }
+
+  for (const cell of cells) {
+    const cellOutputs =
+      cell.type === 'code' || cell.type === 'sql' || cell.type === 'http' || cell.type === 'shell'
+        ? byFilename[cell.filename]
+        : undefined;
+    if (cellOutputs) {
+      outputs[cell.id] = cellOutputs;
+    }
+  }
+
+  return outputs;
+}
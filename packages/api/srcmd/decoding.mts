@@ -1,15 +1,33 @@
 import { marked } from 'marked';
 import type { Tokens, Token, TokensList } from 'marked';
-import { languageFromFilename, randomid, SrcbookMetadataSchema } from '@srcbook/shared';
+import {
+  DisplayDataSchema,
+  isDataFile,
+  isHttpFile,
+  isShellFile,
+  isSqlFile,
+  languageFromFilename,
+  randomid,
+  SrcbookMetadataSchema,
+} from '@srcbook/shared';
 import type {
+  CellOutputType,
   CellType,
   CodeCellType,
+  TestCellType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
+  FileCellType,
+  WidgetCellType,
   MarkdownCellType,
   PackageJsonCellType,
   TitleCellType,
+  SrcbookMetadataType,
 } from '@srcbook/shared';
 import type { DecodeCellsResult, DecodeResult } from './types.mjs';
 import { toFormattedJSON } from '../utils.mjs';
+import { TEST_CELL_MARKER } from './encoding.mjs';
 
 /**
  * This is used to decode a complete .src.md file.
@@ -27,6 +45,7 @@ export function decode(contents: string): DecodeResult {
   //     2. markdown
   //     3. filename
   //     4. code
+  //     5. output
   //
   const groups = groupTokens(filteredTokens);
 
@@ -40,17 +59,29 @@ export function decode(contents: string): DecodeResult {
   //
   const errors = validateTokenGroups(groups);
 
-  // Finally, return either the set of errors or the tokens converted to cells if no errors were found.
-  return errors.length > 0
-    ? { error: true, errors: errors }
-    : {
-        error: false,
-        srcbook: {
-          language: metadata.language,
-          cells: convertToCells(groups),
-          'tsconfig.json': metadata['tsconfig.json'],
-        },
-      };
+  if (errors.length > 0) {
+    return { error: true, errors: errors };
+  }
+
+  // Finally, convert the tokens to cells since no errors were found.
+  const outputs: Record<string, CellOutputType[]> = {};
+  const cells = applyCellMetadata(convertToCells(groups, outputs), metadata);
+
+  return {
+    error: false,
+    srcbook: {
+      language: metadata.language,
+      cells,
+      'tsconfig.json': metadata['tsconfig.json'],
+      kernel: metadata.kernel,
+      limits: metadata.limits,
+      runtime: metadata.runtime,
+      reactive: metadata.reactive,
+      permissions: metadata.permissions,
+      parameters: metadata.parameters,
+      outputs: Object.keys(outputs).length > 0 ? outputs : undefined,
+    },
+  };
 }
 
 /**
@@ -69,6 +100,31 @@ export function decodeCells(contents: string): DecodeCellsResult {
     : { error: false, srcbook: { cells: convertToCells(groups) } };
 }
 
+/**
+ * Cell metadata lives in the srcbook metadata, keyed by the filename of the cell.
+ * The controls of widget cells are keyed by the name of the widget instead.
+ */
+function applyCellMetadata(cells: CellType[], metadata: SrcbookMetadataType) {
+  for (const cell of cells) {
+    const cellMetadata =
+      cell.type === 'code' || cell.type === 'sql' ? metadata.cells?.[cell.filename] : undefined;
+
+    if (cell.type === 'code' && cellMetadata?.limits) {
+      cell.limits = cellMetadata.limits;
+    }
+
+    if (cell.type === 'sql' && cellMetadata?.connection) {
+      cell.connection = cellMetadata.connection;
+    }
+
+    if (cell.type === 'widget') {
+      cell.controls = metadata.widgets?.[cell.name]?.controls ?? [];
+    }
+  }
+
+  return cells;
+}
+
 const SRCBOOK_METADATA_RE = /^<!--\s*srcbook:(.+)\s*-->$/;
 
 function getSrcbookMetadata(tokens: TokensList) {
@@ -116,6 +172,13 @@ function getSrcbookMetadata(tokens: TokensList) {
   }
 }
 
+/**
+ * Widget cells are a marker in the document, their controls live in the srcbook metadata:
+ *
+ *     <!-- srcbook-widget:chart -->
+ */
+const WIDGET_CELL_RE = /^<!--\s*srcbook-widget:([a-zA-Z0-9_-]+)\s*-->$/;
+
 type TitleGroupType = {
   type: 'title';
   token: Tokens.Heading;
@@ -136,17 +199,29 @@ type LinkedCodeGroupType = {
   token: Tokens.Link;
 };
 
+type OutputGroupType = {
+  type: 'output';
+  token: Tokens.Code;
+};
+
 type MarkdownGroupType = {
   type: 'markdown';
   tokens: Token[];
 };
 
+type WidgetGroupType = {
+  type: 'widget';
+  name: string;
+};
+
 type GroupedTokensType =
   | TitleGroupType
   | FilenameGroupType
   | CodeGroupType
   | MarkdownGroupType
-  | LinkedCodeGroupType;
+  | LinkedCodeGroupType
+  | OutputGroupType
+  | WidgetGroupType;
 
 /**
  * Group tokens into an intermediate representation.
@@ -172,6 +247,23 @@ function groupTokens(tokens: Token[]) {
     return token.tokens.length === 1 && token.tokens[0]?.type === 'link';
   }
 
+  // Outputs are code blocks with an `output:<type>` language following a code cell,
+  // possibly separated from it by blank lines.
+  function followsCode(token: Tokens.Code) {
+    if (!token.lang?.startsWith('output:')) {
+      return false;
+    }
+
+    const lastGroup = grouped[grouped.length - 1];
+
+    if (lastGroup?.type === 'markdown' && lastGroup.tokens.every((t) => t.type === 'space')) {
+      const previousGroup = grouped[grouped.length - 2];
+      return previousGroup?.type === 'code' || previousGroup?.type === 'output';
+    }
+
+    return lastGroup?.type === 'code' || lastGroup?.type === 'output';
+  }
+
   let i = 0;
   const len = tokens.length;
 
@@ -192,10 +284,25 @@ function groupTokens(tokens: Token[]) {
       case 'code':
         if (lastGroupType() === 'filename') {
           grouped.push({ type: 'code', token: token as Tokens.Code });
+        } else if (followsCode(token as Tokens.Code)) {
+          if (lastGroupType() === 'markdown') {
+            // Drop the blank lines between the code and its output.
+            grouped.pop();
+          }
+          grouped.push({ type: 'output', token: token as Tokens.Code });
         } else {
           pushMarkdownToken(token);
         }
         break;
+      case 'html': {
+        const match = token.raw.trim().match(WIDGET_CELL_RE);
+        if (match) {
+          grouped.push({ type: 'widget', name: match[1] as string });
+        } else {
+          pushMarkdownToken(token);
+        }
+        break;
+      }
       case 'paragraph':
         if (lastGroupType() === 'filename' && token.tokens && isLink(token as Tokens.Paragraph)) {
           const link = token.tokens[0] as Tokens.Link;
@@ -278,7 +385,13 @@ function validateTokenGroupsPartial(grouped: GroupedTokensType[]) {
   return errors;
 }
 
-function convertToCells(groups: GroupedTokensType[]): CellType[] {
+/**
+ * Outputs following a code, SQL or HTTP cell are collected into `outputs`, keyed by the id of the cell.
+ */
+function convertToCells(
+  groups: GroupedTokensType[],
+  outputs: Record<string, CellOutputType[]> = {},
+): CellType[] {
   const len = groups.length;
   const cells: CellType[] = [];
 
@@ -302,23 +415,38 @@ function convertToCells(groups: GroupedTokensType[]): CellType[] {
       switch (groups[i]?.type) {
         case 'code': {
           const codeToken = (groups[i] as CodeGroupType).token;
-          const filename = group.token.text;
+          const { filename, test } = parseFilenameHeading(group.token);
           const cell =
             filename === 'package.json'
               ? convertPackageJson(codeToken)
-              : convertCode(codeToken, filename);
+              : (convertScriptCell(filename, codeToken.text) ??
+                convertFileCell(filename, codeToken.text) ??
+                convertCode(codeToken, filename, test));
           cells.push(cell);
           break;
         }
         case 'code:linked': {
           const linkToken = (groups[i] as LinkedCodeGroupType).token;
-          const cell = convertLinkedCode(linkToken);
+          const cell = convertLinkedCode(linkToken, parseFilenameHeading(group.token).test);
           cells.push(cell);
           break;
         }
         default:
           throw new Error('Unexpected token type after a heading 6.');
       }
+    } else if (group?.type === 'widget') {
+      cells.push(convertWidget(group.name));
+    } else if (group?.type === 'output') {
+      const cell = cells[cells.length - 1];
+      const output = convertOutput(group.token);
+      const withOutputs =
+        cell?.type === 'code' ||
+        cell?.type === 'sql' ||
+        cell?.type === 'http' ||
+        cell?.type === 'shell';
+      if (cell && withOutputs && output) {
+        outputs[cell.id] = (outputs[cell.id] || []).concat(output);
+      }
     }
 
     i += 1;
@@ -345,10 +473,22 @@ function convertPackageJson(token: Tokens.Code): PackageJsonCellType {
   };
 }
 
-function convertCode(token: Tokens.Code, filename: string): CodeCellType {
+function parseFilenameHeading(token: Tokens.Heading) {
+  const text = token.text.trim();
+
+  return text.endsWith(` ${TEST_CELL_MARKER}`)
+    ? { filename: text.slice(0, -TEST_CELL_MARKER.length).trimEnd(), test: true }
+    : { filename: text, test: false };
+}
+
+function convertCode(
+  token: Tokens.Code,
+  filename: string,
+  test: boolean,
+): CodeCellType | TestCellType {
   return {
     id: randomid(),
-    type: 'code',
+    type: test ? 'test' : 'code',
     source: token.text,
     language: languageFromFilename(filename),
     filename: filename,
@@ -356,10 +496,56 @@ function convertCode(token: Tokens.Code, filename: string): CodeCellType {
   };
 }
 
-// Convert a linked code token to the right cell: either a package.json file or a code cell.
+// SQL, HTTP and shell cells are told apart from code cells by the extension of their file.
+function convertScriptCell(
+  filename: string,
+  source: string,
+): SqlCellType | HttpCellType | ShellCellType | null {
+  if (isSqlFile(filename)) {
+    return { id: randomid(), type: 'sql', source, filename, status: 'idle' };
+  }
+
+  if (isHttpFile(filename)) {
+    return { id: randomid(), type: 'http', source, filename, status: 'idle' };
+  }
+
+  if (isShellFile(filename)) {
+    return { id: randomid(), type: 'shell', source, filename, status: 'idle' };
+  }
+
+  return null;
+}
+
+// The controls of the widget are filled in from the srcbook metadata.
+function convertWidget(name: string): WidgetCellType {
+  return { id: randomid(), type: 'widget', name, controls: [] };
+}
+
+function convertFileCell(filename: string, source: string): FileCellType | null {
+  return isDataFile(filename) ? { id: randomid(), type: 'file', source, filename } : null;
+}
+
+// Convert a linked code token to the right cell: a package.json file, a SQL, HTTP, shell or
+// file cell, or a code cell.
 // We assume that the link is in the format [filename](filePath).
 // We don't populate the source field here, as we will read the file contents later.
-function convertLinkedCode(token: Tokens.Link): CodeCellType | PackageJsonCellType {
+function convertLinkedCode(
+  token: Tokens.Link,
+  test: boolean,
+):
+  | CodeCellType
+  | TestCellType
+  | SqlCellType
+  | HttpCellType
+  | ShellCellType
+  | FileCellType
+  | PackageJsonCellType {
+  const cell = convertScriptCell(token.text, '') ?? convertFileCell(token.text, '');
+
+  if (cell) {
+    return cell;
+  }
+
   return token.text === 'package.json'
     ? {
         id: randomid(),
@@ -370,7 +556,7 @@ function convertLinkedCode(token: Tokens.Link): CodeCellType | PackageJsonCellTy
       }
     : {
         id: randomid(),
-        type: 'code',
+        type: test ? 'test' : 'code',
         source: '',
         language: languageFromFilename(token.text),
         filename: token.text,
@@ -378,6 +564,26 @@ function convertLinkedCode(token: Tokens.Link): CodeCellType | PackageJsonCellTy
       };
 }
 
+// Invalid outputs are dropped rather than failing to decode the whole srcbook.
+function convertOutput(token: Tokens.Code): CellOutputType | null {
+  const type = token.lang?.slice('output:'.length);
+
+  if (type === 'stdout' || type === 'stderr') {
+    return { type, data: token.text };
+  }
+
+  if (type === 'display') {
+    try {
+      const result = DisplayDataSchema.safeParse(JSON.parse(token.text));
+      return result.success ? { type, data: result.data } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
 function convertMarkdown(tokens: Token[]): MarkdownCellType {
   return {
     id: randomid(),
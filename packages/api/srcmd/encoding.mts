@@ -1,23 +1,47 @@
 import type {
+  CellOutputType,
   CodeCellType,
+  TestCellType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
+  FileCellType,
+  WidgetCellType,
   MarkdownCellType,
   PackageJsonCellType,
   TitleCellType,
   PlaceholderCellType,
   CellWithPlaceholderType,
-  CodeLanguageType,
+  SrcbookMetadataType,
 } from '@srcbook/shared';
+import { dataFileFormat } from '@srcbook/shared';
 import type { SrcbookType } from './types.mjs';
 
 type SrcbookWithPlacebolderType = Omit<SrcbookType, 'cells'> & {
   cells: CellWithPlaceholderType[];
 };
 
-export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: boolean }) {
+type EncodeOptionsType = {
+  inline: boolean;
+  // Whether to include the last outputs of code cells after their code.
+  outputs?: boolean;
+};
+
+export function encode(srcbook: SrcbookWithPlacebolderType, options: EncodeOptionsType) {
   const [firstCell, secondCell, ...remainingCells] = srcbook.cells;
   const titleCell = firstCell as TitleCellType;
   const packageJsonCell = secondCell as PackageJsonCellType;
-  const cells = remainingCells as (MarkdownCellType | CodeCellType | PlaceholderCellType)[];
+  const cells = remainingCells as (
+    | MarkdownCellType
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | FileCellType
+    | WidgetCellType
+    | PlaceholderCellType
+  )[];
 
   const encoded = [
     encodeMetdata(srcbook),
@@ -26,7 +50,22 @@ export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: b
     ...cells.map((cell) => {
       switch (cell.type) {
         case 'code':
+        case 'sql':
+        case 'http':
+        case 'shell': {
+          const encoded =
+            cell.type === 'code' ? encodeCodeCell(cell, options) : encodeScriptCell(cell, options);
+          const outputs = options.outputs ? srcbook.outputs?.[cell.id] : undefined;
+          return outputs && outputs.length > 0
+            ? [encoded, ...encodeOutputs(outputs)].join('\n\n')
+            : encoded;
+        }
+        case 'test':
           return encodeCodeCell(cell, options);
+        case 'file':
+          return encodeFileCell(cell, options);
+        case 'widget':
+          return encodeWidgetCell(cell);
         case 'markdown':
           return encodeMarkdownCell(cell);
         case 'placeholder':
@@ -40,10 +79,51 @@ export function encode(srcbook: SrcbookWithPlacebolderType, options: { inline: b
 }
 
 function encodeMetdata(srcbook: SrcbookWithPlacebolderType) {
-  const metadata: { language: CodeLanguageType; 'tsconfig.json'?: any } = {
+  const metadata: Omit<SrcbookMetadataType, 'tsconfig.json'> & { 'tsconfig.json'?: any } = {
     language: srcbook.language,
   };
 
+  if (srcbook.kernel) {
+    metadata.kernel = true;
+  }
+
+  if (srcbook.limits && Object.keys(srcbook.limits).length > 0) {
+    metadata.limits = srcbook.limits;
+  }
+
+  if (srcbook.runtime) {
+    metadata.runtime = srcbook.runtime;
+  }
+
+  if (srcbook.reactive) {
+    metadata.reactive = true;
+  }
+
+  if (srcbook.permissions) {
+    metadata.permissions = srcbook.permissions;
+  }
+
+  if (srcbook.parameters && srcbook.parameters.length > 0) {
+    metadata.parameters = srcbook.parameters;
+  }
+
+  for (const cell of srcbook.cells) {
+    if (cell.type === 'code' && cell.limits && Object.keys(cell.limits).length > 0) {
+      metadata.cells = metadata.cells || {};
+      metadata.cells[cell.filename] = { limits: cell.limits };
+    }
+
+    if (cell.type === 'sql' && cell.connection) {
+      metadata.cells = metadata.cells || {};
+      metadata.cells[cell.filename] = { connection: cell.connection };
+    }
+
+    if (cell.type === 'widget') {
+      metadata.widgets = metadata.widgets || {};
+      metadata.widgets[cell.name] = { controls: cell.controls };
+    }
+  }
+
   // tsconfig is kept as a string in srcbook. However, when encoding
   // it in srcmd, we need it to be an object in the metadata header.
   if (srcbook.language === 'typescript' && srcbook['tsconfig.json']) {
@@ -84,25 +164,107 @@ function encodePackageJsonCell(cell: PackageJsonCellType, options: { inline: boo
       });
 }
 
-function encodeCodeCell(cell: CodeCellType, options: { inline: boolean }) {
+/**
+ * Test cells are code cells with a marker after the filename in their heading:
+ *
+ *     ###### math.test.ts (test)
+ */
+export const TEST_CELL_MARKER = '(test)';
+
+function encodeCodeCell(cell: CodeCellType | TestCellType, options: { inline: boolean }) {
+  const heading = cell.type === 'test' ? `${cell.filename} ${TEST_CELL_MARKER}` : cell.filename;
+
   return options.inline
     ? encodeFileInline({
         filename: cell.filename,
+        heading,
         language: cell.language,
         source: cell.source,
       })
     : encodeFileExternal({
         filename: cell.filename,
+        heading,
         filepath: `./src/${cell.filename}`,
       });
 }
 
-function encodeFileInline(options: { filename: string; language: string; source: string }) {
-  const { filename, language, source } = options;
-  return `###### ${filename}\n\n\`\`\`${language}\n${source}\n\`\`\``;
+// SQL and HTTP cells are fenced with the language of their file, ```sql or ```http.
+// Shell cells are fenced as sh, which editors and renderers highlight.
+function encodeScriptCell(
+  cell: SqlCellType | HttpCellType | ShellCellType,
+  options: { inline: boolean },
+) {
+  const language = cell.type === 'shell' ? 'sh' : cell.type;
+  return options.inline
+    ? encodeFileInline({ filename: cell.filename, language, source: cell.source })
+    : encodeFileExternal({ filename: cell.filename, filepath: `./src/${cell.filename}` });
+}
+
+function encodeFileCell(cell: FileCellType, options: { inline: boolean }) {
+  return options.inline
+    ? encodeFileInline({
+        filename: cell.filename,
+        language: dataFileFormat(cell.filename),
+        source: cell.source,
+      })
+    : encodeFileExternal({ filename: cell.filename, filepath: `./src/${cell.filename}` });
+}
+
+// The controls are kept in the metadata, keyed by the name of the widget.
+function encodeWidgetCell(cell: WidgetCellType) {
+  return `<!-- srcbook-widget:${cell.name} -->`;
+}
+
+function encodeFileInline(options: {
+  filename: string;
+  heading?: string;
+  language: string;
+  source: string;
+}) {
+  const { filename, heading = filename, language, source } = options;
+  return `###### ${heading}\n\n\`\`\`${language}\n${source}\n\`\`\``;
+}
+
+function encodeFileExternal(options: { filename: string; heading?: string; filepath: string }) {
+  const { filename, heading = filename, filepath } = options;
+  return `###### ${heading}\n\n[${filename}](${filepath})`;
+}
+
+/**
+ * Outputs are encoded as fenced blocks following the code of their cell:
+ *
+ *     ```output:stdout
+ *     hello
+ *     ```
+ *
+ * Display outputs hold their MIME bundle as JSON. Consecutive chunks of the same
+ * stream are merged into one block.
+ */
+function encodeOutputs(outputs: CellOutputType[]) {
+  const merged: CellOutputType[] = [];
+
+  for (const output of outputs) {
+    const last = merged[merged.length - 1];
+    if (output.type !== 'display' && last && last.type === output.type) {
+      merged[merged.length - 1] = { type: output.type, data: last.data + output.data };
+    } else {
+      merged.push(output);
+    }
+  }
+
+  return merged
+    .filter((output) => output.type === 'display' || output.data !== '')
+    .map((output) =>
+      encodeFence(
+        `output:${output.type}`,
+        output.type === 'display' ? JSON.stringify(output.data) : output.data,
+      ),
+    );
 }
 
-function encodeFileExternal(options: { filename: string; filepath: string }) {
-  const { filename, filepath } = options;
-  return `###### ${filename}\n\n[${filename}](${filepath})`;
+// The fence must be longer than any run of backticks in the content.
+function encodeFence(info: string, content: string) {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}${info}\n${content}\n${fence}`;
 }
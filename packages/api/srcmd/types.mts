@@ -1,6 +1,18 @@
 import type { SessionType } from '../types.mjs';
 
-export type SrcbookType = Pick<SessionType, 'cells' | 'language' | 'tsconfig.json'>;
+export type SrcbookType = Pick<
+  SessionType,
+  | 'cells'
+  | 'language'
+  | 'tsconfig.json'
+  | 'kernel'
+  | 'limits'
+  | 'runtime'
+  | 'reactive'
+  | 'permissions'
+  | 'parameters'
+  | 'outputs'
+>;
 
 export type DecodeErrorResult = {
   error: true;
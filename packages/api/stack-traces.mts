@@ -0,0 +1,29 @@
+import Path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rewrite locations in the srcbook's src/ directory to the bare filenames of the cells in
+ * the output of a cell, e.g. in stack traces:
+ *
+ *     at boom (/Users/ben/.srcbook/srcbooks/30v2av4eee17m59dg2c29758to/src/foo.ts:12:5)
+ *     at file:///Users/ben/.srcbook/srcbooks/30v2av4eee17m59dg2c29758to/src/bar.mjs?srcbook-run=2:3:1
+ *
+ * become
+ *
+ *     at boom (foo.ts:12:5)
+ *     at bar.mjs:3:1
+ *
+ * The UI links `<filename>:<line>` to the cell. Kernels import cells under a new URL for every
+ * run (see runtime/kernel-hooks.mjs), which is left out as well.
+ */
+export function cellLocations(output: string, srcbookDir: string) {
+  const srcDir = Path.join(srcbookDir, 'src');
+  const prefixes = [pathToFileURL(srcDir).href + '/', srcDir + Path.sep].map(escapeRegExp);
+  const pattern = new RegExp(`(?:${prefixes.join('|')})([\\w.-]+)(?:\\?srcbook-run=\\d+)?`, 'g');
+
+  return output.replace(pattern, '$1');
+}
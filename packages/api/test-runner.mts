@@ -0,0 +1,136 @@
+import Path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  TestResultSchema,
+  type CodeLanguageType,
+  type ExecLimitsType,
+  type TestResultType,
+} from '@srcbook/shared';
+import { RUNTIME_DIR } from './constants.mjs';
+import { spawnCall, withDisplay, type BaseExecRequestType, type ExecLimitType } from './exec.mjs';
+
+export type TestRequestType = BaseExecRequestType & {
+  env: NodeJS.ProcessEnv;
+  entry: string;
+  language: CodeLanguageType;
+  limits?: ExecLimitsType;
+  onLimitExceeded?: (limit: ExecLimitType) => void;
+  onResult: (result: TestResultType) => void;
+};
+
+/**
+ * Why test cells of a sandboxed srcbook do not run. The node test runner runs test files in
+ * child processes of its own, outside of the permissions and environment of the sandbox.
+ */
+export const SANDBOXED_TESTS_UNAVAILABLE =
+  'Test cells cannot run sandboxed: the test runner starts processes the sandbox does not apply to.';
+
+/**
+ * The test result in a message sent by runtime/test-reporter.mjs, or null if it is not one.
+ */
+export function parseTestResultMessage(message: unknown): TestResultType | null {
+  if (typeof message !== 'object' || message === null || !('type' in message)) {
+    return null;
+  }
+
+  if (message.type !== 'test:result' || !('result' in message)) {
+    return null;
+  }
+
+  const result = TestResultSchema.safeParse(message.result);
+
+  return result.success ? result.data : null;
+}
+
+/**
+ * Run the tests in a test cell file with the node test runner.
+ *
+ * TypeScript tests run through tsx, which passes the test runner flags on to node. Test cells
+ * do not use the srcbook's runtime setting since bun and deno come with test runners of their own.
+ */
+export function runTests(options: TestRequestType) {
+  const { cwd, env, entry, language, onResult } = options;
+
+  const reporter = pathToFileURL(Path.join(RUNTIME_DIR, 'test-reporter.mjs')).href;
+
+  return spawnCall({
+    command: language === 'typescript' ? Path.join(cwd, 'node_modules', '.bin', 'tsx') : 'node',
+    cwd,
+    args: ['--test', `--test-reporter=${reporter}`, '--test-reporter-destination=stdout', entry],
+    stdout: options.stdout,
+    stderr: options.stderr,
+    onExit: options.onExit,
+    onError: options.onError,
+    limits: options.limits,
+    onLimitExceeded: options.onLimitExceeded,
+    onMessage(message) {
+      const result = parseTestResultMessage(message);
+      if (result) {
+        onResult(result);
+      }
+    },
+    env: withDisplay({ ...process.env, ...env }),
+  });
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number) {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Report test results as JUnit XML, the format CI systems understand. Each test cell is a suite.
+ */
+export function toJUnitXml(suites: { name: string; results: TestResultType[] }[]) {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites>'];
+
+  for (const suite of suites) {
+    const count = (status: TestResultType['status']) =>
+      suite.results.filter((result) => result.status === status).length;
+
+    const time = suite.results.reduce((total, result) => total + result.duration, 0);
+    const skipped = count('skip') + count('todo');
+
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.results.length}" failures="${count('fail')}" skipped="${skipped}" time="${seconds(time)}">`,
+    );
+
+    for (const result of suite.results) {
+      const attrs = `name="${escapeXml(result.name)}" classname="${escapeXml(suite.name)}" time="${seconds(result.duration)}"`;
+
+      switch (result.status) {
+        case 'pass':
+          lines.push(`    <testcase ${attrs}/>`);
+          break;
+        case 'skip':
+        case 'todo':
+          lines.push(`    <testcase ${attrs}>`, `      <skipped/>`, `    </testcase>`);
+          break;
+        case 'fail': {
+          const error = escapeXml(result.error ?? '');
+          const message = escapeXml((result.error ?? '').split('\n')[0] ?? '');
+          lines.push(
+            `    <testcase ${attrs}>`,
+            `      <failure message="${message}">${error}</failure>`,
+            `    </testcase>`,
+          );
+          break;
+        }
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+
+  return lines.join('\n') + '\n';
+}
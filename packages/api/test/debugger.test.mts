@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import { node } from '../exec.mjs';
+import { Inspectors } from '../debugger/inspectors.mjs';
+import { inspectorStderr } from '../debugger/inspector.mjs';
+
+describe('the output of a cell started with the inspector', () => {
+  it('leaves out the messages of the inspector and reports its URL', () => {
+    const output: string[] = [];
+    const urls: string[] = [];
+    const onWaitingForDisconnect = vi.fn();
+
+    const stderr = inspectorStderr((data) => output.push(data.toString('utf8')), {
+      onListening: (url) => urls.push(url),
+      onWaitingForDisconnect,
+    });
+
+    stderr(Buffer.from('Debugger listening on ws://127.0.0.1:9229/abc\n'));
+    stderr(Buffer.from('For help, see: https://nodejs.org/en/docs/inspector\n'));
+    stderr(Buffer.from('Debugger attached.\nwarning: something\n'));
+    stderr(Buffer.from('Waiting for the debugger to disconnect...\n'));
+
+    expect(urls).toEqual(['ws://127.0.0.1:9229/abc']);
+    expect(output).toEqual(['warning: something\n']);
+    expect(onWaitingForDisconnect).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('debugging a cell', () => {
+  it('relays the protocol between the client and the inspector until the cell is done', async () => {
+    const dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-debugger-'));
+    const entry = Path.join(dir, 'cell.mjs');
+
+    await fs.writeFile(entry, "const answer = 42;\nconsole.log('answer', answer);\n");
+
+    const inspectors = new Inspectors();
+    const messages: Array<{ id?: number; method?: string; params?: any }> = [];
+    let stdout = '';
+
+    function send(id: number, method: string, params: object = {}) {
+      inspectors.get('session').send(JSON.stringify({ id, method, params }));
+    }
+
+    const code = await new Promise<number | null>((resolve) => {
+      node({
+        cwd: dir,
+        env: {},
+        entry,
+        inspect: true,
+        stdout: (data) => (stdout += data.toString('utf8')),
+        stderr: inspectorStderr(() => {}, {
+          onListening(url) {
+            inspectors.attach('session', 'cell', url, {
+              onOpen() {
+                send(1, 'Debugger.enable');
+                send(2, 'Debugger.setBreakpointByUrl', { urlRegex: 'cell\\.mjs$', lineNumber: 1 });
+                send(3, 'Runtime.runIfWaitingForDebugger');
+              },
+              onMessage(message) {
+                const parsed = JSON.parse(message);
+                messages.push(parsed);
+
+                if (parsed.method === 'Debugger.paused') {
+                  send(4, 'Debugger.resume');
+                }
+              },
+              onClose() {},
+            });
+          },
+          onWaitingForDisconnect: () => inspectors.detach('session'),
+        }),
+        onExit: (code) => resolve(code),
+      });
+    });
+
+    await fs.rm(dir, { recursive: true });
+
+    const paused = messages.filter((message) => message.method === 'Debugger.paused');
+    const locations = paused.map((message) => message.params.callFrames[0].location.lineNumber);
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('answer 42\n');
+    // Node pauses on start, then at the breakpoint.
+    expect(locations).toContain(1);
+    expect(inspectors.has('session')).toBe(false);
+  });
+});
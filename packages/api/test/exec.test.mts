@@ -0,0 +1,232 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import type { DisplayDataType } from '@srcbook/shared';
+import { enforceLimits, node, parseDisplayMessage, terminate } from '../exec.mjs';
+import { Processes } from '../processes.mjs';
+import { Lifecycle } from '../lifecycle.mjs';
+
+function execution(limits: Parameters<typeof enforceLimits>[0]['limits']) {
+  const output: string[] = [];
+  const exceeded: string[] = [];
+  const exits: Array<[number | null, string | null]> = [];
+  const kill = vi.fn();
+
+  const callbacks = enforceLimits({
+    limits,
+    stdout: (data) => output.push(data.toString('utf8')),
+    stderr: (data) => output.push(data.toString('utf8')),
+    onExit: (code, signal) => exits.push([code, signal]),
+    onLimitExceeded: (limit) => exceeded.push(limit),
+    kill,
+  });
+
+  return { callbacks, output, exceeded, exits, kill };
+}
+
+describe('enforcing execution limits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops an execution that runs longer than its timeout', () => {
+    const { callbacks, exceeded, exits, kill } = execution({ timeout: 1000 });
+
+    vi.advanceTimersByTime(999);
+    expect(kill).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(kill).toHaveBeenCalledTimes(1);
+    expect(exceeded).toEqual(['timeout']);
+
+    callbacks.onExit(null, 'SIGTERM');
+    expect(exits).toEqual([[null, 'SIGTERM']]);
+  });
+
+  it('does not time out an execution that already exited', () => {
+    const { callbacks, exceeded, kill } = execution({ timeout: 1000 });
+
+    callbacks.onExit(0, null);
+    vi.advanceTimersByTime(1000);
+
+    expect(kill).not.toHaveBeenCalled();
+    expect(exceeded).toEqual([]);
+  });
+
+  it('truncates output at the output limit and stops the execution', () => {
+    const { callbacks, output, exceeded, kill } = execution({ output: 8 });
+
+    callbacks.stdout(Buffer.from('hello'));
+    callbacks.stderr(Buffer.from('world'));
+    callbacks.stdout(Buffer.from('dropped'));
+
+    expect(output).toEqual(['hello', 'wor']);
+    expect(exceeded).toEqual(['output']);
+    expect(kill).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports running out of memory when a memory limit is set', () => {
+    const { callbacks, exceeded, exits, kill } = execution({ memory: 64 });
+
+    callbacks.onExit(134, null);
+
+    expect(exceeded).toEqual(['memory']);
+    expect(exits).toEqual([[134, null]]);
+    expect(kill).not.toHaveBeenCalled();
+  });
+
+  it('does not treat an abort as running out of memory without a memory limit', () => {
+    const { callbacks, exceeded } = execution({ timeout: 1000 });
+
+    callbacks.onExit(null, 'SIGABRT');
+
+    expect(exceeded).toEqual([]);
+  });
+});
+
+describe('displaying rich output', () => {
+  it('sends what a cell displays over IPC instead of stdout', async () => {
+    const dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-display-'));
+    const entry = Path.join(dir, 'cell.mjs');
+
+    await fs.writeFile(
+      entry,
+      [
+        "console.log('before');",
+        "display.html('<b>bold</b>');",
+        "display.table([{ a: 1 }, { a: 2, b: 'x' }]);",
+        "console.log('after');",
+      ].join('\n'),
+    );
+
+    const displayed: DisplayDataType[] = [];
+    let stdout = '';
+
+    const code = await new Promise<number | null>((resolve) => {
+      node({
+        cwd: dir,
+        env: {},
+        entry,
+        stdout: (data) => (stdout += data.toString('utf8')),
+        stderr: (data) => console.error(data.toString('utf8')),
+        onDisplay: (data) => displayed.push(data),
+        onExit: (code) => resolve(code),
+      });
+    });
+
+    await fs.rm(dir, { recursive: true });
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('before\nafter\n');
+    expect(displayed.map((data) => data['text/html'])).toEqual(['<b>bold</b>', undefined]);
+    expect(displayed[1]?.['application/vnd.srcbook.table+json']).toEqual({
+      columns: ['a', 'b'],
+      rows: [
+        [1, null],
+        [2, 'x'],
+      ],
+    });
+  });
+
+  it('ignores messages that are not valid display data', () => {
+    expect(parseDisplayMessage({ type: 'display', data: { 'text/html': 1 } })).toBeNull();
+    expect(parseDisplayMessage({ type: 'result', id: 1, code: 0 })).toBeNull();
+    expect(parseDisplayMessage('display')).toBeNull();
+    expect(parseDisplayMessage({ type: 'display', data: { 'text/plain': 'hi' } })).toEqual({
+      'text/plain': 'hi',
+    });
+  });
+});
+
+describe('writing to stdin', () => {
+  it('sends input to a running cell and closes its stdin on EOF', async () => {
+    const dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-stdin-'));
+    const entry = Path.join(dir, 'cell.mjs');
+
+    await fs.writeFile(
+      entry,
+      [
+        "import readline from 'node:readline';",
+        'const rl = readline.createInterface({ input: process.stdin });',
+        "rl.on('line', (line) => console.log('got ' + line));",
+        "rl.on('close', () => console.log('closed'));",
+      ].join('\n'),
+    );
+
+    // Tracked in the test's directory instead of the home directory.
+    const processes = new Processes(new Lifecycle(Path.join(dir, 'pids')));
+    let stdout = '';
+
+    const code = await new Promise<number | null>((resolve) => {
+      const child = node({
+        cwd: dir,
+        env: {},
+        entry,
+        stdout: (data) => (stdout += data.toString('utf8')),
+        stderr: (data) => console.error(data.toString('utf8')),
+        onExit: (code) => resolve(code),
+      });
+
+      processes.add('session', 'cell', child);
+      processes.write('session', 'cell', 'one\n');
+      processes.write('session', 'cell', 'two', true);
+    });
+
+    await fs.rm(dir, { recursive: true });
+
+    expect(code).toBe(0);
+    expect(stdout).toBe('got one\ngot two\nclosed\n');
+    expect(() => processes.write('session', 'cell', 'three\n')).toThrow(/no process/);
+  });
+});
+
+describe('stopping processes', () => {
+  it('stops the whole process group, escalating to SIGKILL after the grace period', async () => {
+    const dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-terminate-'));
+    const entry = Path.join(dir, 'cell.mjs');
+    const heartbeat = Path.join(dir, 'heartbeat');
+
+    // The grandchild ignores SIGTERM, so only SIGKILL stops it from writing heartbeats.
+    const grandchild = [
+      "process.on('SIGTERM', () => {});",
+      `setInterval(() => require('fs').appendFileSync(${JSON.stringify(heartbeat)}, '.'), 20);`,
+      "console.log('ready');",
+    ].join(' ');
+
+    await fs.writeFile(
+      entry,
+      [
+        "import { spawn } from 'node:child_process';",
+        `const child = spawn(process.execPath, ['-e', ${JSON.stringify(grandchild)}]);`,
+        "child.stdout.once('data', () => console.log('started'));",
+        'setInterval(() => {}, 1000);',
+      ].join('\n'),
+    );
+
+    await new Promise<void>((resolve) => {
+      const child = node({
+        cwd: dir,
+        env: {},
+        entry,
+        stdout: () => terminate(child, 200),
+        stderr: (data) => console.error(data.toString('utf8')),
+        onExit: () => resolve(),
+      });
+    });
+
+    // Give the grandchild time to be killed once the grace period is over.
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    const { size } = await fs.stat(heartbeat);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const { size: sizeLater } = await fs.stat(heartbeat);
+
+    await fs.rm(dir, { recursive: true });
+
+    expect(size).toBeGreaterThan(0);
+    expect(sizeLater).toBe(size);
+  });
+});
@@ -0,0 +1,116 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { executions, type Execution } from '../db/schema.mjs';
+import { db } from '../db/index.mjs';
+import { getExecutions, MAX_EXECUTIONS, recordExecution } from '../executions.mjs';
+import app from '../server/http.mjs';
+
+// Runs are recorded in a database of their own instead of the one in the home directory.
+vi.mock('../db/index.mjs', async () => {
+  const Path = await import('node:path');
+  const { default: Database } = await import('better-sqlite3');
+  const { drizzle } = await import('drizzle-orm/better-sqlite3');
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator');
+  const schema = await import('../db/schema.mjs');
+  const { DIST_DIR } = await import('../constants.mjs');
+
+  const db = drizzle(new Database(':memory:'), { schema });
+  migrate(db, { migrationsFolder: Path.join(DIST_DIR, 'drizzle') });
+
+  return { db };
+});
+
+// Loading the server would otherwise load the srcbooks of the home directory.
+vi.mock('../session.mjs', () => ({}));
+
+function record(attrs: Partial<Omit<Execution, 'id'>> = {}) {
+  return recordExecution({
+    sessionId: 'session',
+    cellId: 'cell',
+    sourceHash: 'hash',
+    startedAt: 1000,
+    endedAt: 2000,
+    exitCode: 0,
+    signal: null,
+    outputSize: 0,
+    ...attrs,
+  });
+}
+
+describe('executions', () => {
+  beforeEach(async () => {
+    await db.delete(executions);
+  });
+
+  it('records runs', async () => {
+    const execution = await record({ exitCode: null, signal: 'SIGTERM', outputSize: 12 });
+
+    expect(execution).toMatchObject({ cellId: 'cell', exitCode: null, signal: 'SIGTERM' });
+    expect(await getExecutions('session')).toEqual([execution]);
+  });
+
+  it("lists the session's most recent runs first", async () => {
+    const first = await record({ startedAt: 1000 });
+    const second = await record({ startedAt: 3000 });
+    const third = await record({ startedAt: 3000, cellId: 'other' });
+    await record({ sessionId: 'other' });
+
+    expect(await getExecutions('session')).toEqual([third, second, first]);
+    expect(await getExecutions('session', { cellId: 'cell' })).toEqual([second, first]);
+  });
+
+  it('clamps the limit', async () => {
+    for (let i = 0; i < MAX_EXECUTIONS + 1; i++) {
+      await record({ startedAt: i });
+    }
+
+    expect(await getExecutions('session', { limit: 2 })).toHaveLength(2);
+    expect(await getExecutions('session', { limit: 0 })).toHaveLength(1);
+    expect(await getExecutions('session', { limit: -1 })).toHaveLength(1);
+    expect(await getExecutions('session', { limit: MAX_EXECUTIONS + 1 })).toHaveLength(
+      MAX_EXECUTIONS,
+    );
+    expect(await getExecutions('session', { limit: NaN })).toHaveLength(MAX_EXECUTIONS);
+  });
+
+  describe('GET /api/sessions/:id/executions', () => {
+    let server: Server;
+
+    async function get(query: string) {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(
+        `http://127.0.0.1:${port}/api/sessions/session/executions${query}`,
+      );
+      return (await response.json()) as { error: boolean; result: Execution[] };
+    }
+
+    beforeAll(async () => {
+      server = await new Promise<Server>((resolve) => {
+        const server = app.listen(0, '127.0.0.1', () => resolve(server));
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('lists runs, optionally of one cell', async () => {
+      const first = await record({ startedAt: 1000 });
+      const second = await record({ startedAt: 2000, cellId: 'other' });
+
+      expect(await get('')).toEqual({ error: false, result: [second, first] });
+      expect(await get('?cellId=cell')).toEqual({ error: false, result: [first] });
+    });
+
+    it('clamps the limit', async () => {
+      for (let i = 0; i < MAX_EXECUTIONS + 1; i++) {
+        await record({ startedAt: i });
+      }
+
+      expect((await get('?limit=3')).result).toHaveLength(3);
+      expect((await get('?limit=-1')).result).toHaveLength(1);
+      expect((await get('?limit=1000')).result).toHaveLength(MAX_EXECUTIONS);
+      expect((await get('?limit=all')).result).toHaveLength(MAX_EXECUTIONS);
+    });
+  });
+});
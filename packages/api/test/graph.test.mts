@@ -0,0 +1,84 @@
+import type { CellType, CodeCellType } from '@srcbook/shared';
+import { dependencyGraph } from '../srcbook/graph.mjs';
+import { codeCellsInScope } from '../srcbook/run.mjs';
+
+function codeCell(id: string, filename: string, source: string): CodeCellType {
+  return {
+    id,
+    type: 'code',
+    source,
+    language: 'typescript',
+    filename,
+    status: 'idle',
+  };
+}
+
+const cells: CellType[] = [
+  { id: 'title', type: 'title', text: 'Srcbook' },
+  codeCell('utils', 'utils.ts', 'export const add = (a: number, b: number) => a + b;'),
+  codeCell('data', 'data.ts', "import { add } from './utils.js';\nexport const sum = add(1, 2);"),
+  { id: 'md', type: 'markdown', text: 'Some text' },
+  codeCell(
+    'report',
+    'report.ts',
+    [
+      "import fs from 'node:fs';",
+      "import { sum } from './data';",
+      "export * from '../src/utils.ts';",
+      "const lazy = await import('./missing.ts');",
+      'console.log(sum, fs, lazy);',
+    ].join('\n'),
+  ),
+  codeCell('other', 'other.ts', "console.log('no imports');"),
+];
+
+describe('the dependency graph of code cells', () => {
+  it('links cells to the cells they import', () => {
+    expect(dependencyGraph(cells)).toEqual({
+      cells: [
+        { cellId: 'utils', filename: 'utils.ts', imports: [] },
+        { cellId: 'data', filename: 'data.ts', imports: ['utils'] },
+        { cellId: 'report', filename: 'report.ts', imports: ['data', 'utils'] },
+        { cellId: 'other', filename: 'other.ts', imports: [] },
+      ],
+    });
+  });
+
+  it('runs a cell after its upstream dependencies', () => {
+    expect(codeCellsInScope(cells, 'upstream', 'report').map((c) => c.id)).toEqual([
+      'utils',
+      'data',
+      'report',
+    ]);
+    expect(codeCellsInScope(cells, 'upstream', 'other').map((c) => c.id)).toEqual(['other']);
+  });
+
+  it('runs the cells importing a cell after it', () => {
+    expect(codeCellsInScope(cells, 'downstream', 'utils').map((c) => c.id)).toEqual([
+      'utils',
+      'data',
+      'report',
+    ]);
+    expect(codeCellsInScope(cells, 'downstream', 'data').map((c) => c.id)).toEqual([
+      'data',
+      'report',
+    ]);
+    expect(codeCellsInScope(cells, 'downstream', 'report').map((c) => c.id)).toEqual(['report']);
+  });
+
+  it('runs each cell once when imports are circular', () => {
+    const circular: CellType[] = [
+      codeCell('a', 'a.mjs', "import './b.mjs';"),
+      codeCell('b', 'b.mjs', "import './a.mjs';"),
+    ];
+
+    expect(codeCellsInScope(circular, 'upstream', 'a').map((c) => c.id)).toEqual(['b', 'a']);
+    expect(codeCellsInScope(circular, 'downstream', 'a').map((c) => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('is an error to run the dependencies of a cell that is not code', () => {
+    expect(() => codeCellsInScope(cells, 'upstream', 'md')).toThrowError(
+      "Cannot run the upstream cells of cell 'md': not a code cell.",
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import http from 'node:http';
+import os from 'node:os';
+import Path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { DisplayDataType } from '@srcbook/shared';
+import { RUNTIME_DIR } from '../constants.mjs';
+import { runHttp } from '../http-client.mjs';
+
+async function run(dir: string, source: string, variables: Record<string, string> = {}) {
+  const entry = Path.join(dir, 'requests.http');
+  const output: string[] = [];
+  const displays: DisplayDataType[] = [];
+
+  await fs.writeFile(entry, source);
+
+  const code = await new Promise<number | null>((resolve) => {
+    runHttp({
+      cwd: dir,
+      entry,
+      variables,
+      stdout: (data) => output.push(data.toString('utf8')),
+      stderr: (data) => output.push(data.toString('utf8')),
+      onDisplay: (data) => displays.push(data),
+      onExit: resolve,
+    });
+  });
+
+  return { code, output: output.join(''), displays };
+}
+
+describe('HTTP cells', () => {
+  let dir: string;
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    // Echoes the requests it gets.
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const status = req.url!.startsWith('/missing') ? 404 : 200;
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ method: req.method, url: req.url, headers: req.headers, body }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-http-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('sends the requests in order with secrets filled in and displays the responses', async () => {
+    const source = [
+      '# Create a user',
+      `POST ${url}/users HTTP/1.1`,
+      'Content-Type: application/json',
+      'Authorization: Bearer {{API_TOKEN}}',
+      '',
+      '{ "name": "ada" }',
+      '',
+      '###',
+      '',
+      `${url}/missing`,
+      '  ?page=2',
+      '',
+    ].join('\n');
+
+    const { code, displays } = await run(dir, source, { API_TOKEN: 's3cret' });
+
+    expect(code).toBe(0);
+
+    const [created, missing] = displays.map((data) => data['application/vnd.srcbook.http+json']!);
+
+    // The request is shown as written, without the value of the secret.
+    expect(created).toMatchObject({ method: 'POST', url: `${url}/users`, status: 200 });
+    expect(created!.headers).toContainEqual(['content-type', 'application/json']);
+
+    const echo = JSON.parse(created!.body);
+    expect(echo.headers.authorization).toBe('Bearer s3cret');
+    expect(echo.body).toBe('{ "name": "ada" }');
+
+    expect(missing).toMatchObject({
+      method: 'GET',
+      url: `${url}/missing?page=2`,
+      status: 404,
+      statusText: 'Not Found',
+      truncated: false,
+    });
+  });
+
+  it('stops at requests using unknown variables', async () => {
+    const { code, output, displays } = await run(dir, `GET ${url}/{{MISSING}}\n`);
+
+    expect(code).toBe(1);
+    expect(output).toContain('Unknown variable {{MISSING}}');
+    expect(displays).toEqual([]);
+  });
+
+  it('reports invalid requests with their line', async () => {
+    const { code, output } = await run(dir, `GET ${url}\nnot a header\n`);
+
+    expect(code).toBe(1);
+    expect(output).toContain('Line 2');
+  });
+
+  it('runs from a directory whose path has characters escaped in URLs', async () => {
+    const runtime = Path.join(dir, 'sp ace%20');
+    await fs.mkdir(runtime);
+    await fs.copyFile(
+      Path.join(RUNTIME_DIR, 'http-client.mjs'),
+      Path.join(runtime, 'http-client.mjs'),
+    );
+
+    const entry = Path.join(dir, 'requests.http');
+    await fs.writeFile(entry, '# Nothing to send yet\n');
+
+    const stdout = await new Promise<string>((resolve, reject) => {
+      execFile(process.execPath, [Path.join(runtime, 'http-client.mjs'), entry], (error, stdout) =>
+        error ? reject(error) : resolve(stdout),
+      );
+    });
+
+    expect(stdout).toBe('No requests to send.\n');
+  });
+});
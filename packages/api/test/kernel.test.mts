@@ -0,0 +1,124 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import type { ChildProcess } from 'node:child_process';
+import { Kernels } from '../kernel/kernels.mjs';
+import type { Kernel } from '../kernel/kernel.mjs';
+import { Processes } from '../processes.mjs';
+import { Lifecycle } from '../lifecycle.mjs';
+
+const SESSION_ID = 'session';
+const KERNEL_KEY = 'kernel';
+
+// Cells report values with `display`, which shares the IPC channel with the kernel's results.
+// Their stdout comes through a pipe of its own and may arrive after the result.
+async function exec(kernel: Kernel, entry: string) {
+  const displayed: string[] = [];
+
+  const [code, signal] = await new Promise<[number | null, NodeJS.Signals | null]>((resolve) => {
+    kernel.exec({
+      entry,
+      env: {},
+      stdout: () => {},
+      stderr: () => {},
+      onExit: (code, signal) => resolve([code, signal]),
+      onDisplay: (data) => displayed.push(data['text/plain'] ?? ''),
+    });
+  });
+
+  return { code, signal, displayed };
+}
+
+function exited(child: ChildProcess) {
+  return new Promise((resolve) => child.once('exit', resolve));
+}
+
+describe('kernel', () => {
+  let dir: string;
+  let kernels: Kernels;
+  let processes: Processes;
+
+  function start() {
+    const { kernel, process } = kernels.create(SESSION_ID, { cwd: dir, language: 'javascript' });
+    processes.add(SESSION_ID, KERNEL_KEY, process);
+    return { kernel, process };
+  }
+
+  async function writeCell(filename: string, source: string) {
+    const entry = Path.join(dir, 'src', filename);
+    await fs.writeFile(entry, source);
+    return entry;
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-kernel-'));
+    await fs.mkdir(Path.join(dir, 'src'));
+    kernels = new Kernels();
+    // Tracked in the test's directory instead of the home directory.
+    processes = new Processes(new Lifecycle(Path.join(dir, 'pids')));
+  });
+
+  afterEach(async () => {
+    if (kernels.has(SESSION_ID)) {
+      kernels.shutdown(SESSION_ID);
+    }
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('keeps state in memory between cells and runs', async () => {
+    const { kernel } = start();
+
+    const counter = await writeCell(
+      'counter.mjs',
+      "globalThis.count = (globalThis.count ?? 0) + 1;\nexport const rows = [1, 2, 3];\ndisplay({ 'text/plain': `${globalThis.count}` });\n",
+    );
+    const reader = await writeCell(
+      'reader.mjs',
+      "import { rows } from './counter.mjs';\ndisplay({ 'text/plain': `${rows.length} ${globalThis.count}` });\n",
+    );
+
+    expect(await exec(kernel, counter)).toMatchObject({ code: 0, displayed: ['1'] });
+    expect(await exec(kernel, counter)).toMatchObject({ code: 0, displayed: ['2'] });
+    // The imported cell is not evaluated again, its last run is reused.
+    expect(await exec(kernel, reader)).toMatchObject({ code: 0, displayed: ['3 2'] });
+  });
+
+  it('starts from a clean state on restart and keeps tracking the new process', async () => {
+    const counter = await writeCell(
+      'counter.mjs',
+      "globalThis.count = (globalThis.count ?? 0) + 1;\ndisplay({ 'text/plain': `${globalThis.count}` });\n",
+    );
+
+    const first = start();
+    expect(await exec(first.kernel, counter)).toMatchObject({ displayed: ['1'] });
+
+    const firstExit = exited(first.process);
+    kernels.shutdown(SESSION_ID);
+    const second = start();
+    await firstExit;
+
+    // The old kernel exiting must not untrack the new one registered under the same key.
+    expect(() => processes.write(SESSION_ID, KERNEL_KEY, '')).not.toThrow();
+    expect(await exec(second.kernel, counter)).toMatchObject({ code: 0, displayed: ['1'] });
+  });
+
+  it('finishes the running cell when stopped', async () => {
+    const { kernel, process } = start();
+
+    const forever = await writeCell(
+      'forever.mjs',
+      'await new Promise(() => setInterval(() => {}, 1000));\n',
+    );
+    const result = exec(kernel, forever);
+    const exit = exited(process);
+
+    // Wait for the kernel to pick up the cell before stopping it.
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(processes.killAll(SESSION_ID)).toBe(1);
+
+    const { code, signal } = await result;
+    expect(code === null ? signal : code).toBeTruthy();
+    await exit;
+    expect(() => processes.write(SESSION_ID, KERNEL_KEY, '')).toThrow();
+  });
+});
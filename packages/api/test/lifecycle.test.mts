@@ -0,0 +1,110 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { USE_PROCESS_GROUPS } from '../exec.mjs';
+import { Lifecycle } from '../lifecycle.mjs';
+
+function spawnIdle() {
+  return spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], {
+    detached: USE_PROCESS_GROUPS,
+  });
+}
+
+function exited(child: ChildProcess) {
+  return new Promise((resolve) => child.once('exit', (_code, signal) => resolve(signal)));
+}
+
+function isAlive(pid: number) {
+  try {
+    return process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+}
+
+// The pid of a process which already exited, standing in for a crashed server.
+async function deadPid() {
+  const child = spawn(process.execPath, ['-e', '']);
+  await exited(child);
+  return child.pid!;
+}
+
+describe('Lifecycle', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-lifecycle-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('keeps the pids of running processes on disk and stops them on shutdown', async () => {
+    const lifecycle = new Lifecycle(dir);
+    const file = Path.join(dir, `${process.pid}.json`);
+    const first = spawnIdle();
+    const second = spawnIdle();
+
+    lifecycle.track(first);
+    lifecycle.track(second);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).pids).toEqual([first.pid, second.pid]);
+
+    first.kill();
+    await exited(first);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).pids).toEqual([second.pid]);
+
+    const exit = exited(second);
+
+    await lifecycle.shutdown(1000);
+
+    expect(await exit).toBe('SIGTERM');
+    await expect(fs.readdir(dir)).resolves.toEqual([]);
+  });
+
+  it('reaps the processes of a server which did not shut down', async () => {
+    const orphan = spawnIdle();
+    const crashed = Path.join(dir, `${await deadPid()}.json`);
+    const bootedAt = Date.now() - os.uptime() * 1000;
+
+    await fs.writeFile(crashed, JSON.stringify({ bootedAt, pids: [orphan.pid] }));
+
+    // A server which is still running keeps its processes, here the one running the tests.
+    const running = spawnIdle();
+
+    await fs.writeFile(
+      Path.join(dir, `${process.ppid}.json`),
+      JSON.stringify({ bootedAt, pids: [running.pid] }),
+    );
+
+    const exit = exited(orphan);
+
+    await expect(new Lifecycle(dir).reap(1000)).resolves.toBe(1);
+    expect(await exit).toBe('SIGTERM');
+    expect(isAlive(running.pid!)).toBe(true);
+    await expect(fs.readdir(dir)).resolves.toEqual([`${process.ppid}.json`]);
+
+    running.kill();
+    await exited(running);
+  });
+
+  it('leaves processes alone after a reboot, when their pids may have been reused', async () => {
+    const bystander = spawnIdle();
+    const bootedAt = Date.now() - os.uptime() * 1000 - 24 * 60 * 60 * 1000;
+
+    await fs.writeFile(
+      Path.join(dir, `${await deadPid()}.json`),
+      JSON.stringify({ bootedAt, pids: [bystander.pid] }),
+    );
+
+    await expect(new Lifecycle(dir).reap(1000)).resolves.toBe(0);
+    expect(isAlive(bystander.pid!)).toBe(true);
+    await expect(fs.readdir(dir)).resolves.toEqual([]);
+
+    bystander.kill();
+    await exited(bystander);
+  });
+});
@@ -0,0 +1,39 @@
+import type { CellOutputType } from '@srcbook/shared';
+import { truncateOutputs } from '../srcbook/index.mjs';
+
+describe('truncating saved outputs', () => {
+  it('keeps outputs within the size as they are', () => {
+    const outputs: CellOutputType[] = [
+      { type: 'stdout', data: 'one\n' },
+      { type: 'display', data: { 'text/plain': 'two' } },
+    ];
+
+    expect(truncateOutputs(outputs, 100)).toBe(outputs);
+  });
+
+  it('keeps the end of the outputs and notes how much was left out', () => {
+    const outputs: CellOutputType[] = [
+      { type: 'stdout', data: 'a'.repeat(20) },
+      { type: 'stderr', data: 'b'.repeat(10) },
+      { type: 'stdout', data: 'c'.repeat(5) },
+    ];
+
+    expect(truncateOutputs(outputs, 10)).toEqual([
+      { type: 'stderr', data: '[25 bytes of earlier output not saved]\n' },
+      { type: 'stderr', data: 'b'.repeat(5) },
+      { type: 'stdout', data: 'c'.repeat(5) },
+    ]);
+  });
+
+  it('leaves out displayed data that does not fit in full', () => {
+    const outputs: CellOutputType[] = [
+      { type: 'display', data: { 'text/html': '<p>large</p>' } },
+      { type: 'stdout', data: 'done\n' },
+    ];
+
+    expect(truncateOutputs(outputs, 10)).toEqual([
+      { type: 'stderr', data: '[28 bytes of earlier output not saved]\n' },
+      { type: 'stdout', data: 'done\n' },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import { node } from '../exec.mjs';
+import { createProfileRun, saveProfiles } from '../profiler.mjs';
+
+describe('profiling a cell', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-profiler-'));
+    await fs.mkdir(Path.join(dir, 'src'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('saves its profiles in the srcbook and maps frames to the cell', async () => {
+    const entry = Path.join(dir, 'src', 'busy.mjs');
+
+    await fs.writeFile(
+      entry,
+      [
+        'function spin() {',
+        '  const end = Date.now() + 200;',
+        '  while (Date.now() < end) {}',
+        '}',
+        '',
+        'spin();',
+      ].join('\n'),
+    );
+
+    const options = await createProfileRun(dir, true);
+
+    const code = await new Promise<number | null>((resolve) => {
+      node({
+        cwd: dir,
+        env: {},
+        entry,
+        profile: options,
+        stdout: () => {},
+        stderr: () => {},
+        onExit: (code) => resolve(code),
+      });
+    });
+
+    const profiles = await saveProfiles(dir, 'busy.mjs', options);
+
+    expect(code).toBe(0);
+    expect(profiles.map((profile) => profile.kind)).toEqual(['cpu', 'heap']);
+
+    const cpu = profiles[0]!;
+    const spin = cpu.frames.findIndex((frame) => frame.functionName === 'spin');
+
+    expect(cpu.frames[spin]).toMatchObject({ filename: 'busy.mjs', line: 1 });
+    expect(cpu.nodes.some((node) => node.frame === spin && node.self > 0)).toBe(true);
+
+    for (const profile of profiles) {
+      expect(profile.path).toMatch(/^profiles[/\\]busy-.+\.(cpu|heap)profile$/);
+      await expect(fs.stat(Path.join(dir, profile.path))).resolves.toBeTruthy();
+    }
+
+    // Nothing is left behind of the run.
+    await expect(fs.readdir(Path.join(dir, '.srcbook', 'profiler'))).resolves.toEqual([]);
+  });
+});
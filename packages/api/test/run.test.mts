@@ -0,0 +1,382 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import type { CellType, CodeCellType } from '@srcbook/shared';
+import { codeCellsInScope, runCodeCells } from '../srcbook/run.mjs';
+import { runSrcbook, testSrcbook } from '../srcbook/headless.mjs';
+import { SANDBOXED_TESTS_UNAVAILABLE, toJUnitXml } from '../test-runner.mjs';
+
+function codeCell(id: string): CodeCellType {
+  return {
+    id,
+    type: 'code',
+    source: '',
+    language: 'javascript',
+    filename: `${id}.mjs`,
+    status: 'idle',
+  };
+}
+
+const cells: CellType[] = [
+  { id: 'title', type: 'title', text: 'Srcbook' },
+  { id: 'md', type: 'markdown', text: 'Some text' },
+  codeCell('a'),
+  codeCell('b'),
+  { id: 'md2', type: 'markdown', text: 'More text' },
+  codeCell('c'),
+];
+
+describe('selecting the code cells to run', () => {
+  it('selects all code cells in order', () => {
+    expect(codeCellsInScope(cells, 'all').map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('excludes the given cell when running cells above it', () => {
+    expect(codeCellsInScope(cells, 'above', 'b').map((c) => c.id)).toEqual(['a']);
+    expect(codeCellsInScope(cells, 'above', 'md2').map((c) => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('includes the given cell when running cells below it', () => {
+    expect(codeCellsInScope(cells, 'below', 'b').map((c) => c.id)).toEqual(['b', 'c']);
+    expect(codeCellsInScope(cells, 'below', 'md').map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('is an error when the given cell does not exist', () => {
+    expect(() => codeCellsInScope(cells, 'below', 'nope')).toThrowError(
+      "Cannot run cells below cell 'nope': cell not found.",
+    );
+  });
+});
+
+describe('running code cells in sequence', () => {
+  it('runs every cell when all succeed', async () => {
+    const ran: string[] = [];
+
+    const result = await runCodeCells([codeCell('a'), codeCell('b')], async (cell) => {
+      ran.push(cell.id);
+      return { exitCode: 0, signal: null };
+    });
+
+    expect(ran).toEqual(['a', 'b']);
+    expect(result).toEqual({
+      success: true,
+      results: [
+        { cellId: 'a', exitCode: 0, signal: null },
+        { cellId: 'b', exitCode: 0, signal: null },
+      ],
+      skipped: [],
+    });
+  });
+
+  it('stops at the first cell that does not exit with 0', async () => {
+    const ran: string[] = [];
+
+    const result = await runCodeCells(
+      [codeCell('a'), codeCell('b'), codeCell('c')],
+      async (cell) => {
+        ran.push(cell.id);
+        return cell.id === 'b'
+          ? { exitCode: null, signal: 'SIGTERM' }
+          : { exitCode: 0, signal: null };
+      },
+    );
+
+    expect(ran).toEqual(['a', 'b']);
+    expect(result).toEqual({
+      success: false,
+      results: [
+        { cellId: 'a', exitCode: 0, signal: null },
+        { cellId: 'b', exitCode: null, signal: 'SIGTERM' },
+      ],
+      skipped: ['c'],
+    });
+  });
+});
+
+describe('running a srcbook headlessly', () => {
+  const srcmd = [
+    '<!-- srcbook:{"language":"javascript"} -->',
+    '',
+    '# Headless',
+    '',
+    '###### package.json',
+    '',
+    '```json',
+    '{ "type": "module" }',
+    '```',
+    '',
+    '###### one.mjs',
+    '',
+    '```javascript',
+    "console.log('one');",
+    '```',
+    '',
+    '###### two.mjs',
+    '',
+    '```javascript',
+    'process.exit(3);',
+    '```',
+    '',
+    '###### three.mjs',
+    '',
+    '```javascript',
+    "console.log('three');",
+    '```',
+    '',
+  ].join('\n');
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-headless-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs the code cells of a .src.md file in order and stops at the first failure', async () => {
+    const path = Path.join(dir, 'headless.src.md');
+    await fs.writeFile(path, srcmd, 'utf8');
+
+    const started: string[] = [];
+    let stdout = '';
+
+    const result = await runSrcbook({
+      path,
+      stdout: (data) => (stdout += data.toString('utf8')),
+      stderr: () => {},
+      onCellStart: (cell) => started.push(cell.filename),
+    });
+
+    expect(started).toEqual(['one.mjs', 'two.mjs']);
+    expect(stdout).toBe('one\n');
+    expect(result.success).toBe(false);
+    expect(result.results.map((r) => r.exitCode)).toEqual([0, 3]);
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  it('exposes parameters to the code cells as environment variables', async () => {
+    const path = Path.join(dir, 'parameters.src.md');
+    const header =
+      '<!-- srcbook:{"language":"javascript","parameters":[{"name":"LIMIT","type":"number","default":10},{"name":"LABEL","type":"string","default":"all"}]} -->';
+    await fs.writeFile(
+      path,
+      srcmd
+        .replace('<!-- srcbook:{"language":"javascript"} -->', header)
+        .replace('process.exit(3);', 'console.log(process.env.LIMIT, process.env.LABEL);'),
+      'utf8',
+    );
+
+    let stdout = '';
+
+    const result = await runSrcbook({
+      path,
+      parameters: ['LIMIT=25'],
+      stdout: (data) => (stdout += data.toString('utf8')),
+      stderr: () => {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(stdout).toBe('one\n25 all\nthree\n');
+  });
+
+  it('sandboxes code cells with the permissions of the srcbook', async () => {
+    const path = Path.join(dir, 'sandboxed.src.md');
+    const permissions = {
+      fsRead: [],
+      fsWrite: [],
+      childProcess: false,
+      worker: false,
+      env: ['SRCBOOK_TEST_ALLOWED'],
+    };
+    const header = `<!-- srcbook:${JSON.stringify({ language: 'javascript', permissions })} -->`;
+    const source = [
+      "import fs from 'node:fs';",
+      'try {',
+      `  fs.readFileSync(${JSON.stringify(path)});`,
+      "  console.log('read');",
+      '} catch (error) {',
+      '  console.log(error.code);',
+      '}',
+      'console.log(process.env.SRCBOOK_TEST_ALLOWED, process.env.SRCBOOK_TEST_HIDDEN);',
+    ].join('\n');
+    await fs.writeFile(
+      path,
+      srcmd
+        .replace('<!-- srcbook:{"language":"javascript"} -->', header)
+        .replace('process.exit(3);', source),
+      'utf8',
+    );
+
+    Object.assign(process.env, { SRCBOOK_TEST_ALLOWED: 'allowed', SRCBOOK_TEST_HIDDEN: 'hidden' });
+
+    let stdout = '';
+
+    try {
+      const result = await runSrcbook({
+        path,
+        stdout: (data) => (stdout += data.toString('utf8')),
+        stderr: () => {},
+      });
+
+      expect(result.success).toBe(true);
+      expect(stdout).toBe('one\nERR_ACCESS_DENIED\nallowed undefined\nthree\n');
+    } finally {
+      for (const name of ['SRCBOOK_TEST_ALLOWED', 'SRCBOOK_TEST_HIDDEN']) {
+        delete process.env[name];
+      }
+    }
+  });
+
+  it('runs sandboxed TypeScript cells importing one another', async () => {
+    const path = Path.join(dir, 'sandboxed.src.md');
+    const permissions = { fsRead: [], fsWrite: [], childProcess: false, worker: false, env: [] };
+    await fs.writeFile(
+      path,
+      [
+        `<!-- srcbook:${JSON.stringify({ language: 'typescript', permissions })} -->`,
+        '',
+        '# Sandboxed',
+        '',
+        '###### package.json',
+        '',
+        '```json',
+        '{ "type": "module" }',
+        '```',
+        '',
+        '###### load.ts',
+        '',
+        '```typescript',
+        'export type Row = { name: string };',
+        "export const rows: Row[] = [{ name: 'a' }, { name: 'b' }];",
+        '```',
+        '',
+        '###### report.ts',
+        '',
+        '```typescript',
+        "import type { Row } from './load.ts';",
+        "import { rows } from './load.ts';",
+        "const { rows: again } = await import('./load.ts');",
+        "console.log(rows.map((row: Row) => row.name).join(','), again === rows);",
+        '```',
+        '',
+      ].join('\n'),
+      'utf8',
+    );
+
+    let stdout = '';
+    let stderr = '';
+
+    const result = await runSrcbook({
+      path,
+      stdout: (data) => (stdout += data.toString('utf8')),
+      stderr: (data) => (stderr += data.toString('utf8')),
+    });
+
+    expect(stderr).toBe('');
+    expect(result.success).toBe(true);
+    expect(stdout).toBe('a,b true\n');
+  });
+
+  it('rejects values of undeclared parameters', async () => {
+    const path = Path.join(dir, 'headless.src.md');
+    await fs.writeFile(path, srcmd, 'utf8');
+
+    const request = { path, stdout: () => {}, stderr: () => {} };
+
+    await expect(runSrcbook({ ...request, parameters: ['LIMIT=25'] })).rejects.toThrow(
+      "Unknown parameter 'LIMIT'",
+    );
+  });
+});
+
+describe('running test cells headlessly', () => {
+  const srcmd = [
+    '<!-- srcbook:{"language":"javascript"} -->',
+    '',
+    '# Tests',
+    '',
+    '###### package.json',
+    '',
+    '```json',
+    '{ "type": "module" }',
+    '```',
+    '',
+    '###### math.mjs',
+    '',
+    '```javascript',
+    'export const add = (a, b) => a + b;',
+    '```',
+    '',
+    '###### math.test.mjs (test)',
+    '',
+    '```javascript',
+    "import { describe, it } from 'node:test';",
+    "import assert from 'node:assert';",
+    "import { add } from './math.mjs';",
+    '',
+    "describe('add', () => {",
+    "  it('adds', () => assert.equal(add(1, 2), 3));",
+    "  it('is wrong', () => assert.equal(add(1, 2), 4));",
+    "  it.skip('is skipped', () => {});",
+    '});',
+    '```',
+    '',
+  ].join('\n');
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-headless-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports the result of every test and fails if one does', async () => {
+    const path = Path.join(dir, 'tests.src.md');
+    await fs.writeFile(path, srcmd, 'utf8');
+
+    const result = await testSrcbook({ path, stdout: () => {}, stderr: () => {} });
+
+    expect(result.success).toBe(false);
+    expect(result.suites).toHaveLength(1);
+
+    const results = result.suites[0]!.results;
+    expect(results.map(({ name, status }) => [name, status])).toEqual([
+      ['add › adds', 'pass'],
+      ['add › is wrong', 'fail'],
+      ['add › is skipped', 'skip'],
+    ]);
+    expect(results[1]!.error).toContain('AssertionError');
+
+    const xml = toJUnitXml([{ name: 'math.test.mjs', results }]);
+    expect(xml).toContain('<testsuite name="math.test.mjs" tests="3" failures="1" skipped="1"');
+    expect(xml).toContain('<testcase name="add › is wrong" classname="math.test.mjs"');
+  });
+
+  it('refuses to run test cells of sandboxed srcbooks', async () => {
+    const path = Path.join(dir, 'sandboxed.src.md');
+    const permissions = { fsRead: [], fsWrite: [], childProcess: true, worker: false, env: [] };
+    const header = `<!-- srcbook:${JSON.stringify({ language: 'javascript', permissions })} -->`;
+    await fs.writeFile(
+      path,
+      srcmd.replace('<!-- srcbook:{"language":"javascript"} -->', header),
+      'utf8',
+    );
+
+    let stderr = '';
+
+    const result = await testSrcbook({
+      path,
+      stdout: () => {},
+      stderr: (data) => (stderr += data.toString('utf8')),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.suites[0]!.results).toEqual([]);
+    expect(stderr).toBe(`${SANDBOXED_TESTS_UNAVAILABLE}\n`);
+  });
+});
@@ -0,0 +1,119 @@
+import { Scheduler } from '../scheduler.mjs';
+
+function deferred() {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+// Let the scheduler start runs freed by others, which happens asynchronously.
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('Scheduler', () => {
+  it('queues runs beyond the limit and starts them in order as others finish', async () => {
+    const scheduler = new Scheduler();
+    scheduler.setLimit(2);
+
+    const started: string[] = [];
+    const runs = { a: deferred(), b: deferred(), c: deferred(), d: deferred() };
+
+    const queued = Object.entries(runs).map(([cellId, run]) =>
+      scheduler.schedule({
+        sessionId: 'session',
+        cellId,
+        start: () => {
+          started.push(cellId);
+          return run.promise;
+        },
+        cancel: () => {},
+      }),
+    );
+
+    await flush();
+
+    expect(queued).toEqual([false, false, true, true]);
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.isQueued('session', 'c')).toBe(true);
+
+    runs.b.resolve();
+    await flush();
+
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(scheduler.isQueued('session', 'c')).toBe(false);
+
+    // Raising the limit starts queued runs right away.
+    scheduler.setLimit(3);
+    await flush();
+
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('cancels queued runs without starting them', async () => {
+    const scheduler = new Scheduler();
+    scheduler.setLimit(1);
+
+    const started: string[] = [];
+    const cancelled: string[] = [];
+    const running = deferred();
+
+    for (const [sessionId, cellId] of [
+      ['one', 'a'],
+      ['one', 'b'],
+      ['two', 'c'],
+      ['one', 'd'],
+    ] as const) {
+      scheduler.schedule({
+        sessionId,
+        cellId,
+        start: () => {
+          started.push(cellId);
+          return running.promise;
+        },
+        cancel: () => cancelled.push(cellId),
+      });
+    }
+
+    expect(scheduler.cancel('one', 'a')).toBe(false);
+    expect(scheduler.cancel('one', 'b')).toBe(true);
+    expect(scheduler.cancelAll('one')).toBe(1);
+    expect(cancelled).toEqual(['b', 'd']);
+
+    running.resolve();
+    await flush();
+
+    expect(started).toEqual(['a', 'c']);
+  });
+
+  it('frees the slot of a run that fails to start', async () => {
+    const scheduler = new Scheduler();
+    scheduler.setLimit(1);
+
+    const started: string[] = [];
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    scheduler.schedule({
+      sessionId: 'session',
+      cellId: 'a',
+      start: () => Promise.reject(new Error('boom')),
+      cancel: () => {},
+    });
+
+    scheduler.schedule({
+      sessionId: 'session',
+      cellId: 'b',
+      start: async () => {
+        started.push('b');
+      },
+      cancel: () => {},
+    });
+
+    await flush();
+
+    expect(started).toEqual(['b']);
+    expect(error).toHaveBeenCalled();
+
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import Path from 'node:path';
+import type { ExecLimitsType } from '@srcbook/shared';
+import { runShell } from '../shell.mjs';
+
+async function run(dir: string, source: string, options: { limits?: ExecLimitsType } = {}) {
+  const entry = Path.join(dir, 'src', 'script.sh');
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const exceeded: string[] = [];
+
+  await fs.mkdir(Path.dirname(entry), { recursive: true });
+  await fs.writeFile(entry, source);
+
+  const code = await new Promise<number | null>((resolve) => {
+    runShell({
+      cwd: dir,
+      entry,
+      env: { API_TOKEN: 's3cret' },
+      limits: options.limits,
+      onLimitExceeded: (limit) => exceeded.push(limit),
+      stdout: (data) => stdout.push(data.toString('utf8')),
+      stderr: (data) => stderr.push(data.toString('utf8')),
+      onExit: resolve,
+    });
+  });
+
+  return { code, stdout: stdout.join(''), stderr: stderr.join(''), exceeded };
+}
+
+describe('shell cells', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    // Resolved, as bash reports the real path of its working directory.
+    dir = await fs.realpath(await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-shell-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('runs the commands in the srcbook directory with the given environment', async () => {
+    const { code, stdout } = await run(dir, 'pwd\necho "token=$API_TOKEN"\n');
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(`${dir}\ntoken=s3cret\n`);
+  });
+
+  it('exits with the status of the commands', async () => {
+    const { code, stderr } = await run(dir, 'echo oops >&2\nexit 3\n');
+
+    expect(code).toBe(3);
+    expect(stderr).toBe('oops\n');
+  });
+
+  it('stops commands running past the time limit', async () => {
+    const { code, exceeded } = await run(dir, 'sleep 30\n', { limits: { timeout: 200 } });
+
+    expect(exceeded).toEqual(['timeout']);
+    expect(code).not.toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import Path from 'node:path';
+import Database from 'better-sqlite3';
+import type { DisplayDataType } from '@srcbook/shared';
+import { RUNTIME_DIR } from '../constants.mjs';
+import { resolveDatabase, runSql } from '../sql.mjs';
+
+async function run(dir: string, database: string, sql: string) {
+  const entry = Path.join(dir, 'query.sql');
+  const output: string[] = [];
+  const displays: DisplayDataType[] = [];
+
+  await fs.writeFile(entry, sql);
+
+  const code = await new Promise<number | null>((resolve) => {
+    runSql({
+      cwd: dir,
+      database,
+      entry,
+      results: Path.join(dir, 'query.json'),
+      stdout: (data) => output.push(data.toString('utf8')),
+      stderr: (data) => output.push(data.toString('utf8')),
+      onDisplay: (data) => displays.push(data),
+      onExit: resolve,
+    });
+  });
+
+  return { code, output: output.join(''), displays };
+}
+
+describe('SQL cells', () => {
+  let dir: string;
+  let database: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(Path.join(os.tmpdir(), 'srcbook-sql-'));
+    database = Path.join(dir, 'app.db');
+
+    const db = new Database(database);
+    db.exec("CREATE TABLE users (id INTEGER, name TEXT); INSERT INTO users VALUES (1, 'ada');");
+    db.close();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('resolves database files inside the srcbook and secrets holding a path', () => {
+    expect(resolveDatabase('/srcbook', { type: 'file', path: 'data/app.db' }, {})).toEqual({
+      error: false,
+      path: '/srcbook/data/app.db',
+    });
+
+    expect(resolveDatabase('/srcbook', { type: 'file', path: '../other/app.db' }, {}).error).toBe(
+      true,
+    );
+
+    expect(
+      resolveDatabase('/srcbook', { type: 'secret', name: 'DB' }, { DB: '/var/data/app.db' }),
+    ).toEqual({ error: false, path: '/var/data/app.db' });
+
+    expect(resolveDatabase('/srcbook', { type: 'secret', name: 'DB' }, {}).error).toBe(true);
+    expect(resolveDatabase('/srcbook', undefined, {}).error).toBe(true);
+  });
+
+  it('saves and displays the rows of the last statement returning any', async () => {
+    const { code, output, displays } = await run(
+      dir,
+      database,
+      "INSERT INTO users VALUES (2, 'semi;colon'); -- a comment; with a semicolon\nSELECT * FROM users ORDER BY id;",
+    );
+
+    expect(code).toBe(0);
+    expect(output).toBe('2 rows, saved to query.json.\n');
+    expect(displays).toEqual([
+      {
+        'application/vnd.srcbook.table+json': {
+          columns: ['id', 'name'],
+          rows: [
+            [1, 'ada'],
+            [2, 'semi;colon'],
+          ],
+        },
+      },
+    ]);
+
+    const results = JSON.parse(await fs.readFile(Path.join(dir, 'query.json'), 'utf8'));
+
+    expect(results).toEqual([
+      { id: 1, name: 'ada' },
+      { id: 2, name: 'semi;colon' },
+    ]);
+  });
+
+  it('reports errors without creating missing databases', async () => {
+    const missing = Path.join(dir, 'missing.db');
+
+    await expect(run(dir, missing, 'SELECT 1;')).resolves.toMatchObject({ code: 1 });
+    await expect(fs.access(missing)).rejects.toThrow();
+
+    const { code, output } = await run(dir, database, 'SELECT * FROM nope;');
+
+    expect(code).toBe(1);
+    expect(output).toBe('no such table: nope\n');
+  });
+
+  it('runs from a directory whose path has characters escaped in URLs', async () => {
+    const runtime = Path.join(dir, 'sp ace%20');
+    await fs.mkdir(Path.join(runtime, 'node_modules'), { recursive: true });
+    await fs.copyFile(Path.join(RUNTIME_DIR, 'sql.mjs'), Path.join(runtime, 'sql.mjs'));
+    await fs.symlink(
+      Path.dirname(createRequire(import.meta.url).resolve('better-sqlite3/package.json')),
+      Path.join(runtime, 'node_modules', 'better-sqlite3'),
+    );
+
+    const entry = Path.join(dir, 'query.sql');
+    await fs.writeFile(entry, 'SELECT name FROM users;');
+
+    const stdout = await new Promise<string>((resolve, reject) => {
+      execFile(
+        process.execPath,
+        [Path.join(runtime, 'sql.mjs'), database, entry, Path.join(dir, 'query.json')],
+        (error, stdout) => (error ? reject(error) : resolve(stdout)),
+      );
+    });
+
+    expect(stdout).toBe('1 rows, saved to query.json.\n');
+  });
+});
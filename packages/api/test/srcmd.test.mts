@@ -91,6 +91,422 @@ describe('encoding and decoding srcmd files', () => {
       encode({ cells: result.srcbook.cells, language: result.srcbook.language }, { inline: true }),
     ).toEqual(srcmd);
   });
+
+  it('round trips the kernel setting through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+    expect(result.srcbook.kernel).toBe(undefined);
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, kernel: true },
+      { inline: true },
+    );
+    expect(encoded.startsWith('<!-- srcbook:{"language":"javascript","kernel":true} -->')).toBe(
+      true,
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.kernel).toBe(true);
+  });
+
+  it('round trips the runtime through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+    expect(result.srcbook.runtime).toBe(undefined);
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, runtime: 'bun' },
+      { inline: true },
+    );
+    expect(encoded.startsWith('<!-- srcbook:{"language":"javascript","runtime":"bun"} -->')).toBe(
+      true,
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.runtime).toBe('bun');
+  });
+
+  it('round trips reactive mode through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+    expect(result.srcbook.reactive).toBe(undefined);
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, reactive: true },
+      { inline: true },
+    );
+    expect(encoded.startsWith('<!-- srcbook:{"language":"javascript","reactive":true} -->')).toBe(
+      true,
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.reactive).toBe(true);
+  });
+
+  it('round trips permissions through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+    expect(result.srcbook.permissions).toBe(undefined);
+
+    const permissions = {
+      fsRead: ['data'],
+      fsWrite: ['/tmp/out'],
+      childProcess: false,
+      worker: true,
+      env: ['HOME'],
+    };
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, permissions },
+      { inline: true },
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.permissions).toEqual(permissions);
+  });
+
+  it('round trips test cells marked in their heading', () => {
+    const text = [
+      '<!-- srcbook:{"language":"javascript"} -->',
+      '',
+      '# Tests',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '###### math.test.mjs (test)',
+      '',
+      '```javascript',
+      "import test from 'node:test';",
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    const cell = result.srcbook.cells[2]!;
+    expect(cell.type).toBe('test');
+    expect(cell.type === 'test' && cell.filename).toBe('math.test.mjs');
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+  });
+
+  it('round trips sql cells and their connection', () => {
+    const text = [
+      '<!-- srcbook:{"language":"javascript","cells":{"users.sql":{"connection":{"type":"file","path":"data/app.db"}}}} -->',
+      '',
+      '# Queries',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '###### users.sql',
+      '',
+      '```sql',
+      'SELECT * FROM users;',
+      '```',
+      '',
+      '###### orders.sql',
+      '',
+      '```sql',
+      'SELECT count(*) FROM orders;',
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    expect(result.srcbook.cells.slice(2)).toEqual([
+      {
+        id: expect.any(String),
+        type: 'sql',
+        source: 'SELECT * FROM users;',
+        filename: 'users.sql',
+        connection: { type: 'file', path: 'data/app.db' },
+        status: 'idle',
+      },
+      {
+        id: expect.any(String),
+        type: 'sql',
+        source: 'SELECT count(*) FROM orders;',
+        filename: 'orders.sql',
+        status: 'idle',
+      },
+    ]);
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+  });
+
+  it('round trips http cells', () => {
+    const text = [
+      '<!-- srcbook:{"language":"javascript"} -->',
+      '',
+      '# Requests',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '###### users.http',
+      '',
+      '```http',
+      'GET https://example.com/users',
+      'Authorization: Bearer {{API_TOKEN}}',
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    expect(result.srcbook.cells[2]).toEqual({
+      id: expect.any(String),
+      type: 'http',
+      source: 'GET https://example.com/users\nAuthorization: Bearer {{API_TOKEN}}',
+      filename: 'users.http',
+      status: 'idle',
+    });
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+  });
+
+  it('round trips shell cells as sh blocks', () => {
+    const text = [
+      '<!-- srcbook:{"language":"javascript"} -->',
+      '',
+      '# Fixtures',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '###### setup.sh',
+      '',
+      '```sh',
+      'mkdir -p data',
+      'curl -o data/users.csv "$USERS_URL"',
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    expect(result.srcbook.cells[2]).toEqual({
+      id: expect.any(String),
+      type: 'shell',
+      source: 'mkdir -p data\ncurl -o data/users.csv "$USERS_URL"',
+      filename: 'setup.sh',
+      status: 'idle',
+    });
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+  });
+
+  it('round trips file cells fenced with their format', () => {
+    const text = [
+      '<!-- srcbook:{"language":"javascript"} -->',
+      '',
+      '# Data',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '###### users.csv',
+      '',
+      '```csv',
+      'id,name',
+      '1,Ada',
+      '```',
+      '',
+      '###### config.yml',
+      '',
+      '```yaml',
+      'retries: 3',
+      '```',
+      '',
+      '###### notes.txt',
+      '',
+      '```text',
+      'Loaded by index.js.',
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    expect(result.srcbook.cells.slice(2)).toEqual([
+      { id: expect.any(String), type: 'file', source: 'id,name\n1,Ada', filename: 'users.csv' },
+      { id: expect.any(String), type: 'file', source: 'retries: 3', filename: 'config.yml' },
+      {
+        id: expect.any(String),
+        type: 'file',
+        source: 'Loaded by index.js.',
+        filename: 'notes.txt',
+      },
+    ]);
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+    expect(encode(result.srcbook, { inline: false })).toContain(
+      '###### users.csv\n\n[users.csv](./src/users.csv)',
+    );
+  });
+
+  it('round trips widget cells and their controls through the metadata', () => {
+    const widgets = {
+      chart: {
+        controls: [
+          { name: 'SAMPLES', type: 'slider', min: 10, max: 1000, step: 10, value: 100 },
+          { name: 'SCALE', type: 'select', options: ['linear', 'log'], value: 'log' },
+          { name: 'SMOOTH', label: 'Smooth lines', type: 'checkbox', value: true },
+        ],
+      },
+    };
+
+    const text = [
+      `<!-- srcbook:${JSON.stringify({ language: 'javascript', widgets })} -->`,
+      '',
+      '# Chart',
+      '',
+      '###### package.json',
+      '',
+      '```json',
+      '{}',
+      '```',
+      '',
+      '<!-- srcbook-widget:chart -->',
+      '',
+      '###### chart.js',
+      '',
+      '```javascript',
+      'console.log(process.env.SAMPLES);',
+      '```',
+      '',
+    ].join('\n');
+
+    const result = decode(text) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    expect(result.srcbook.cells[2]).toEqual({
+      id: expect.any(String),
+      type: 'widget',
+      name: 'chart',
+      controls: widgets.chart.controls,
+    });
+    expect(result.srcbook.cells[3]?.type).toBe('code');
+
+    expect(encode(result.srcbook, { inline: true })).toBe(text);
+  });
+
+  it('round trips parameters through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+    expect(result.srcbook.parameters).toBe(undefined);
+
+    const parameters = [
+      { name: 'REGION', type: 'string' as const, default: 'us-east-1' },
+      { name: 'SAMPLE_SIZE', type: 'number' as const },
+    ];
+
+    const encoded = encode(
+      { cells: result.srcbook.cells, language: result.srcbook.language, parameters },
+      { inline: true },
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.parameters).toEqual(parameters);
+  });
+
+  it('round trips srcbook and cell limits through the metadata', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    const cells = result.srcbook.cells.map((cell) =>
+      cell.type === 'code' && cell.filename === 'foo.mjs'
+        ? { ...cell, limits: { timeout: 1000 } }
+        : cell,
+    );
+
+    const encoded = encode(
+      { cells, language: result.srcbook.language, limits: { timeout: 5000, memory: 256 } },
+      { inline: true },
+    );
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.limits).toEqual({ timeout: 5000, memory: 256 });
+
+    const codeCells = decoded.srcbook.cells.filter((cell) => cell.type === 'code');
+    expect(codeCells.map((cell) => [cell.filename, cell.limits])).toEqual([
+      ['index.mjs', undefined],
+      ['foo.mjs', { timeout: 1000 }],
+    ]);
+  });
+
+  it('round trips code cell outputs only when asked to', () => {
+    const result = decode(srcmd) as DecodeSuccessResult;
+    expect(result.error).toBe(false);
+
+    const cell = result.srcbook.cells.find(
+      (cell) => cell.type === 'code' && cell.filename === 'foo.mjs',
+    )!;
+
+    const srcbook = {
+      cells: result.srcbook.cells,
+      language: result.srcbook.language,
+      outputs: {
+        [cell.id]: [
+          { type: 'stdout' as const, data: 'hello\n' },
+          { type: 'stdout' as const, data: '```fenced```\n\n' },
+          { type: 'stderr' as const, data: 'oops' },
+          { type: 'display' as const, data: { 'text/html': '<b>hi</b>', 'text/plain': 'hi' } },
+        ],
+      },
+    };
+
+    expect(encode(srcbook, { inline: true })).not.toContain('output:');
+
+    const encoded = encode(srcbook, { inline: true, outputs: true });
+    expect(encoded).toContain('````output:stdout\nhello\n```fenced```\n\n\n````');
+
+    const decoded = decode(encoded) as DecodeSuccessResult;
+    expect(decoded.error).toBe(false);
+    expect(decoded.srcbook.cells.map((cell) => cell.type)).toEqual(
+      result.srcbook.cells.map((cell) => cell.type),
+    );
+
+    const decodedCell = decoded.srcbook.cells.find(
+      (cell) => cell.type === 'code' && cell.filename === 'foo.mjs',
+    )!;
+    expect(decoded.srcbook.outputs).toEqual({
+      [decodedCell.id]: [
+        { type: 'stdout', data: 'hello\n```fenced```\n\n' },
+        { type: 'stderr', data: 'oops' },
+        { type: 'display', data: { 'text/html': '<b>hi</b>', 'text/plain': 'hi' } },
+      ],
+    });
+  });
 });
 
 describe('it can decode from directories', () => {
@@ -0,0 +1,38 @@
+import Path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { cellLocations } from '../stack-traces.mjs';
+
+describe('locations in the output of a cell', () => {
+  const dir = Path.join(Path.sep, 'home', 'ben', '.srcbook', 'srcbooks', 'abc');
+  const srcDir = Path.join(dir, 'src');
+
+  it('rewrites paths of cells to their filenames', () => {
+    const output = [
+      `${Path.join(srcDir, 'boom.ts')}:6`,
+      `    at boom (${Path.join(srcDir, 'boom.ts')}:6:9)`,
+      `    at ${pathToFileURL(Path.join(srcDir, 'main.mjs')).href}:4:1`,
+    ].join('\n');
+
+    expect(cellLocations(output, dir)).toBe(
+      ['boom.ts:6', '    at boom (boom.ts:6:9)', '    at main.mjs:4:1'].join('\n'),
+    );
+  });
+
+  it('leaves out the run of cells imported by the kernel', () => {
+    const url = pathToFileURL(Path.join(srcDir, 'data.ts')).href;
+
+    expect(cellLocations(`    at load (${url}?srcbook-run=3:12:5)`, dir)).toBe(
+      '    at load (data.ts:12:5)',
+    );
+  });
+
+  it('leaves other paths alone', () => {
+    const output = [
+      '    at Module._compile (node:internal/modules/cjs/loader:1521:14)',
+      `    at run (${Path.join(dir, 'node_modules', 'lib', 'index.js')}:1:1)`,
+      `    at other (${Path.join(Path.sep, 'home', 'ben', 'src', 'other.ts')}:2:2)`,
+    ].join('\n');
+
+    expect(cellLocations(output, dir)).toBe(output);
+  });
+});
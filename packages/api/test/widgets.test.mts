@@ -0,0 +1,63 @@
+import type { WidgetCellType } from '@srcbook/shared';
+import { parametersEnv } from '../parameters.mjs';
+import { validateWidgetControls, widgetControlTypeDeclaration } from '../widgets.mjs';
+
+const chart: WidgetCellType = {
+  id: 'chart',
+  type: 'widget',
+  name: 'chart',
+  controls: [
+    { name: 'SAMPLES', type: 'slider', min: 10, max: 1000, step: 10, value: 100 },
+    { name: 'SCALE', type: 'select', options: ['linear', 'log'], value: 'log' },
+    { name: 'TITLE', type: 'text', value: 'Latency' },
+    { name: 'SMOOTH', type: 'checkbox', value: false },
+  ],
+};
+
+describe('widget cells', () => {
+  it('passes the values of their controls to code cells, with parameters taking precedence', () => {
+    const env = parametersEnv({
+      cells: [chart],
+      parameters: [{ name: 'REGION', type: 'string', default: 'us-east-1' }],
+    });
+
+    expect(env).toEqual({
+      SAMPLES: '100',
+      SCALE: 'log',
+      TITLE: 'Latency',
+      SMOOTH: 'false',
+      REGION: 'us-east-1',
+    });
+  });
+
+  it('declares the variables of their controls typed after the control', () => {
+    expect(chart.controls.map(widgetControlTypeDeclaration)).toEqual([
+      'readonly SAMPLES: `${number}`;',
+      'readonly SCALE: "linear" | "log";',
+      'readonly TITLE: string;',
+      "readonly SMOOTH: 'true' | 'false';",
+    ]);
+  });
+
+  it('rejects controls with invalid values or names already taken', () => {
+    const other: WidgetCellType = {
+      id: 'other',
+      type: 'widget',
+      name: 'other',
+      controls: [{ name: 'TITLE', type: 'text', value: '' }],
+    };
+
+    const errors = validateWidgetControls(
+      { cells: [chart, other], parameters: [{ name: 'SCALE', type: 'string' }] },
+      chart,
+      [
+        { name: 'SAMPLES', type: 'slider', min: 10, max: 1000, value: 5000 },
+        { name: 'SCALE', type: 'select', options: ['linear', 'log'], value: 'sqrt' },
+        { name: 'TITLE', type: 'text', value: 'Latency' },
+      ],
+    );
+
+    expect(errors).toHaveLength(4);
+    expect(errors.filter((error) => error.includes('already the name'))).toHaveLength(2);
+  });
+});
@@ -2,6 +2,7 @@ import EventEmitter from 'node:events';
 import type { ChildProcess } from 'node:child_process';
 import type { server as tsserver } from 'typescript';
 import { parse } from './messages.mjs';
+import { terminate } from '../exec.mjs';
 
 /**
  * This class provides a wrapper around a process running tsserver and is used to communicate
@@ -114,7 +115,7 @@ export class TsServer extends EventEmitter {
    */
   shutdown() {
     this.removeAllListeners();
-    return this.process.kill('SIGTERM');
+    return terminate(this.process);
   }
 
   /**
@@ -1,5 +1,7 @@
 import { spawn } from 'child_process';
 import { TsServer } from './tsserver.mjs';
+import { USE_PROCESS_GROUPS } from '../exec.mjs';
+import lifecycle from '../lifecycle.mjs';
 
 /**
  * This object is responsible for managing multiple tsserver instances.
@@ -46,8 +48,11 @@ export class TsServers {
     // package.json has finished installing its deps.
     const child = spawn('npx', ['tsserver'], {
       cwd: options.cwd,
+      detached: USE_PROCESS_GROUPS,
     });
 
+    lifecycle.track(child);
+
     const server = new TsServer(child);
 
     this.set(id, server);
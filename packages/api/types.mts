@@ -1,4 +1,13 @@
-import type { CellType, CodeLanguageType } from '@srcbook/shared';
+import type {
+  CellOutputType,
+  CellType,
+  CodeLanguageType,
+  ExecLimitsType,
+  ParameterType,
+  ParameterValueType,
+  PermissionsType,
+  RuntimeType,
+} from '@srcbook/shared';
 
 export type SessionType = {
   id: string;
@@ -18,6 +27,48 @@ export type SessionType = {
    */
   'tsconfig.json'?: string;
 
+  /**
+   * Whether code cells are executed in a long-lived kernel process which keeps
+   * in-memory state between runs, instead of in a new process for every run.
+   */
+  kernel?: boolean;
+
+  /**
+   * Limits enforced when executing code cells, unless a cell overrides them.
+   */
+  limits?: ExecLimitsType;
+
+  /**
+   * The runtime executing code cells. Defaults to node for JavaScript and tsx for TypeScript.
+   */
+  runtime?: RuntimeType;
+
+  /**
+   * Whether the cells importing a code cell are re-run after it runs successfully.
+   */
+  reactive?: boolean;
+
+  /**
+   * What code cells may access. Cells run sandboxed with node's permission model when set.
+   */
+  permissions?: PermissionsType;
+
+  /**
+   * Values the srcbook takes as input. Code cells read them from environment variables.
+   */
+  parameters?: ParameterType[];
+
+  /**
+   * Values of the parameters set for this session, keyed by name. Parameters without a
+   * value here use their default. These are not written to disk.
+   */
+  parameterValues?: Record<string, ParameterValueType>;
+
+  /**
+   * What each code cell output the last time it ran, keyed by cell id.
+   */
+  outputs?: Record<string, CellOutputType[]>;
+
   /**
    * Replace this with updatedAt once we store srcbooks in sqlite
    */
@@ -0,0 +1,64 @@
+import {
+  widgetControlErrors,
+  type CellType,
+  type ParameterType,
+  type WidgetCellType,
+  type WidgetControlType,
+} from '@srcbook/shared';
+
+/**
+ * The controls of all widget cells, in the order of the cells.
+ */
+export function widgetControls(cells: CellType[]): WidgetControlType[] {
+  return cells.flatMap((cell) => (cell.type === 'widget' ? cell.controls : []));
+}
+
+/**
+ * The environment variables exposing the current values of a srcbook's widgets to its code cells.
+ */
+export function widgetsEnv(cells: CellType[]): Record<string, string> {
+  return Object.fromEntries(
+    widgetControls(cells).map((control) => [control.name, String(control.value)]),
+  );
+}
+
+/**
+ * Declare a control's environment variable in env.d.ts, typed after the control.
+ */
+export function widgetControlTypeDeclaration(control: WidgetControlType) {
+  switch (control.type) {
+    case 'slider':
+      return `readonly ${control.name}: \`\${number}\`;`;
+    case 'checkbox':
+      return `readonly ${control.name}: 'true' | 'false';`;
+    case 'select':
+      return `readonly ${control.name}: ${control.options.map((option) => JSON.stringify(option)).join(' | ')};`;
+    case 'text':
+      return `readonly ${control.name}: string;`;
+  }
+}
+
+/**
+ * Problems with the controls of a widget cell, including names already taken by a parameter
+ * or a control of another widget since they share the environment of code cells.
+ */
+export function validateWidgetControls(
+  srcbook: { cells: CellType[]; parameters?: ParameterType[] },
+  cell: WidgetCellType,
+  controls: WidgetControlType[],
+) {
+  const errors = widgetControlErrors(controls);
+
+  const taken = new Set([
+    ...(srcbook.parameters ?? []).map((parameter) => parameter.name),
+    ...widgetControls(srcbook.cells.filter((c) => c.id !== cell.id)).map((c) => c.name),
+  ]);
+
+  for (const control of controls) {
+    if (taken.has(control.name)) {
+      errors.push(`${control.name} is already the name of a parameter or another control`);
+    }
+  }
+
+  return errors;
+}
@@ -1,11 +1,13 @@
-import { useState } from 'react';
+import { type ReactNode, useState } from 'react';
 import { Ban, Maximize, Minimize, PanelBottomClose, PanelBottomOpen, Sparkles } from 'lucide-react';
 import { CodeCellType, PackageJsonCellType, TsServerDiagnosticType } from '@srcbook/shared';
 import { cn } from '../lib/utils.js';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/underline-flat-tabs.js';
 import { useCells } from './use-cell.js';
-import { OutputType, StdoutOutputType, StderrOutputType, CellModeType } from '../types';
+import { StdoutOutputType, StderrOutputType, DisplayOutputType, CellModeType } from '../types';
 import { Button } from './ui/button.js';
+import { DisplayOutput } from './display-output.js';
+import { Input } from './ui/input.js';
 
 type Props = {
   cell: CodeCellType | PackageJsonCellType;
@@ -16,6 +18,8 @@ type Props = {
   setFullscreen: (fullscreen: boolean) => void;
   fullscreen: boolean;
   aiEnabled: boolean;
+  // Writes input to the running cell, closing its stdin when `eof` is set.
+  writeStdin?: (data: string, eof?: boolean) => void;
 };
 
 export function CellOutput(props: Props) {
@@ -29,11 +33,19 @@ export function CellOutput(props: Props) {
   const fullscreen = props.fullscreen;
   const stdout = getOutput(cell.id, 'stdout') as StdoutOutputType[];
   const stderr = getOutput(cell.id, 'stderr') as StderrOutputType[];
+  const display = getOutput(cell.id, 'display') as DisplayOutputType[];
   const diagnostics = getTsServerDiagnostics(cell.id);
   const suggestions = getTsServerSuggestions(cell.id);
 
   return (
     <div className={cn('font-mono text-sm', fullscreen && !show && 'border-b')}>
+      {display.length > 0 && (
+        <div className="border-t p-2 flex flex-col gap-2 font-sans">
+          {display.map((output, idx) => (
+            <DisplayOutput key={idx} data={output.data} />
+          ))}
+        </div>
+      )}
       <Tabs
         value={activeTab}
         onValueChange={(value) =>
@@ -172,11 +184,56 @@ export function CellOutput(props: Props) {
           </div>
         )}
       </Tabs>
+      {cell.type === 'code' && cell.status === 'running' && props.writeStdin && (
+        <Stdin cellId={cell.id} writeStdin={props.writeStdin} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Input for a running cell. Enter sends the line, Ctrl-D sends what was typed and closes
+ * stdin, like in a terminal. Sent input is echoed to stdout so it reads like a transcript.
+ */
+function Stdin(props: { cellId: string; writeStdin: (data: string, eof?: boolean) => void }) {
+  const { setOutput } = useCells();
+  const [value, setValue] = useState('');
+  const [closed, setClosed] = useState(false);
+
+  function send(data: string, eof?: boolean) {
+    props.writeStdin(data, eof);
+    if (data !== '') {
+      setOutput(props.cellId, { type: 'stdout', data });
+    }
+    setValue('');
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      send(value + '\n');
+    } else if (e.key === 'd' && e.ctrlKey) {
+      e.preventDefault();
+      send(value, true);
+      setClosed(true);
+    }
+  }
+
+  return (
+    <div className="border-t p-2">
+      <Input
+        className="h-8 font-mono text-[13px]"
+        placeholder={closed ? 'stdin closed' : 'stdin (Enter to send, Ctrl-D for EOF)'}
+        disabled={closed}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={onKeyDown}
+      />
     </div>
   );
 }
 
-function formatOutput(output: OutputType[], sep = '') {
+function formatOutput(output: Array<StdoutOutputType | StderrOutputType>, sep = '') {
   return output.map(({ data }) => data).join(sep);
 }
 
@@ -194,12 +251,57 @@ function Stderr({ stderr }: { stderr: StderrOutputType[] }) {
       {stderr.length === 0 ? (
         <div className="italic text-center text-muted-foreground">No errors or warnings</div>
       ) : (
-        formatOutput(stderr)
+        <CellLocations text={formatOutput(stderr)} />
       )}
     </div>
   );
 }
 
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Text with locations in cells linked to them, like `foo.ts:12:5` in stack traces. The server
+ * rewrites the paths of cells to their filenames (see api/stack-traces.mts).
+ */
+function CellLocations({ text }: { text: string }) {
+  const { cells, revealLine } = useCells();
+  const codeCells = cells.filter((cell): cell is CodeCellType => cell.type === 'code');
+
+  if (codeCells.length === 0) {
+    return text;
+  }
+
+  const filenames = codeCells.map((cell) => escapeRegExp(cell.filename)).join('|');
+  const pattern = new RegExp(`(?<![\\w./\\\\-])(${filenames}):(\\d+)(?::(\\d+))?`, 'g');
+  const parts: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const cell = codeCells.find((cell) => cell.filename === match[1])!;
+    const line = Number(match[2]);
+    const column = match[3] === undefined ? undefined : Number(match[3]);
+
+    parts.push(
+      text.slice(last, match.index),
+      <button
+        key={match.index}
+        className="underline underline-offset-2 hover:text-sb-red-80"
+        onClick={() => revealLine(cell.id, line, column)}
+      >
+        {match[0]}
+      </button>,
+    );
+
+    last = match.index! + match[0].length;
+  }
+
+  parts.push(text.slice(last));
+
+  return parts;
+}
+
 function formatDiagnostic(diag: TsServerDiagnosticType) {
   return `[Ln ${diag.start.line}, Col ${diag.start.offset}] ${diag.category} ts(${diag.code}): ${diag.text}`;
 }
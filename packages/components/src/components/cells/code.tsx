@@ -3,12 +3,21 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { Dialog, DialogContent } from '../ui/dialog.js';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip.js';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu.js';
 import Shortcut from '../keyboard-shortcut.js';
 import { useNavigate } from 'react-router-dom';
 import CodeMirror from '@uiw/react-codemirror';
 import { javascript } from '@codemirror/lang-javascript';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '../ui/resizable.js';
 import {
+  Bug,
+  Gauge,
+  Hourglass,
   Info,
   Play,
   Trash2,
@@ -22,13 +31,19 @@ import {
 } from 'lucide-react';
 import TextareaAutosize from 'react-textarea-autosize';
 import AiGenerateTipsDialog from '../ai-generate-tips-dialog.js';
-import { CellType, CodeCellType, CodeCellUpdateAttrsType } from '@srcbook/shared';
+import {
+  CellType,
+  CodeCellType,
+  CodeCellUpdateAttrsType,
+  CellExecutionType,
+} from '@srcbook/shared';
 import { cn } from '../../lib/utils.js';
 import { CellModeType, SessionType } from '../../types';
 import { Button } from '../ui/button.js';
 import { Input } from '../ui/input.js';
 import DeleteCellWithConfirmation from '../delete-cell-dialog';
 import { CellOutput } from '../cell-output.js';
+import { ExecutionHistory } from '../execution-history.js';
 import useTheme from '../use-theme.js';
 import { useDebouncedCallback } from 'use-debounce';
 import { EditorView } from 'codemirror';
@@ -70,12 +85,19 @@ type RegularProps = BaseProps & {
   onGetDefinitionContents: (pos: number, cell: CodeCellType) => Promise<string>;
   onRevert: () => void;
   onRunCell: () => void;
+  // Runs the cell under the debugger.
+  onDebugCell: () => void;
+  onProfileCell: (heap: boolean) => void;
   onStopCell: () => void;
+  // Writes input to the running cell, closing its stdin when `eof` is set.
+  onWriteStdin: (data: string, eof?: boolean) => void;
   onUpdateFileName: (filename: string) => void;
   prompt: string;
   showStdio: boolean;
   updateCellOnServer: (cell: CodeCellType, attrs: CodeCellUpdateAttrsType) => void;
   editorExtensions: Array<Extension>;
+  // Recent runs of the cell, most recent first.
+  executions?: CellExecutionType[];
 };
 type ReadOnlyProps = BaseProps & { readOnly: true };
 type Props = RegularProps | ReadOnlyProps;
@@ -101,6 +123,8 @@ export default function CodeCell(props: Props) {
             <Header
               cell={props.cell}
               runCell={props.onRunCell}
+              debugCell={props.onDebugCell}
+              profileCell={props.onProfileCell}
               stopCell={props.onStopCell}
               onDeleteCell={!props.readOnly ? props.onDeleteCell : null}
               generate={props.onGenerate}
@@ -118,6 +142,7 @@ export default function CodeCell(props: Props) {
               onRevert={props.onRevert}
               formatCell={props.onFormatCell}
               aiEnabled={!props.readOnly ? props.aiEnabled : false}
+              executions={props.executions ?? []}
             />
 
             {props.cellMode === 'reviewing' ? (
@@ -149,6 +174,7 @@ export default function CodeCell(props: Props) {
                     fixDiagnostics={props.aiFixDiagnostics}
                     cellMode={props.cellMode}
                     aiEnabled={props.aiEnabled}
+                    writeStdin={props.onWriteStdin}
                   />
                 </ResizablePanel>
               </ResizablePanelGroup>
@@ -162,6 +188,8 @@ export default function CodeCell(props: Props) {
           className={cn(
             'border rounded-md group',
             props.cell.status === 'running' && 'ring-1 ring-run-ring border-run-ring',
+            props.cell.status === 'queued' && 'border-dashed border-run-ring',
+            props.cell.status === 'limit-exceeded' && 'border-error',
             !props.readOnly &&
               (props.cellMode === 'generating' || props.cellMode === 'fixing') &&
               'ring-1 ring-ai-ring border-ai-ring',
@@ -207,6 +235,8 @@ export default function CodeCell(props: Props) {
             <Header
               cell={props.cell}
               runCell={props.onRunCell}
+              debugCell={props.onDebugCell}
+              profileCell={props.onProfileCell}
               stopCell={props.onStopCell}
               onDeleteCell={!props.readOnly ? props.onDeleteCell : null}
               generate={props.onGenerate}
@@ -224,6 +254,7 @@ export default function CodeCell(props: Props) {
               onRevert={props.onRevert}
               formatCell={props.onFormatCell}
               aiEnabled={props.aiEnabled}
+              executions={props.executions ?? []}
             />
           )}
 
@@ -257,6 +288,7 @@ export default function CodeCell(props: Props) {
                   fullscreen={props.fullscreen}
                   setFullscreen={props.onChangeFullscreen}
                   aiEnabled={props.aiEnabled}
+                  writeStdin={props.onWriteStdin}
                 />
               ) : null}
             </>
@@ -270,6 +302,8 @@ export default function CodeCell(props: Props) {
 function Header(props: {
   cell: CodeCellType;
   runCell: () => void;
+  debugCell: () => void;
+  profileCell: (heap: boolean) => void;
   onDeleteCell: ((cell: CellType) => void) | null;
   cellMode: CellModeType;
   setCellMode: (mode: CellModeType) => void;
@@ -287,10 +321,13 @@ function Header(props: {
   onRevert: () => void;
   formatCell: () => void;
   aiEnabled: boolean;
+  executions: CellExecutionType[];
 }) {
   const {
     cell,
     runCell,
+    debugCell,
+    profileCell,
     onDeleteCell,
     cellMode,
     setCellMode,
@@ -306,10 +343,14 @@ function Header(props: {
     stopCell,
     formatCell,
     aiEnabled,
+    executions,
   } = props;
 
   const navigate = useNavigate();
 
+  // Queued cells are about to run, they can only be cancelled.
+  const busy = cell.status === 'running' || cell.status === 'queued';
+
   return (
     <>
       <div className="p-1 flex items-center justify-between gap-2">
@@ -331,6 +372,22 @@ function Header(props: {
               Invalid filename
             </div>
           )}
+          {!busy && <ExecutionHistory executions={executions} />}
+          {cell.status === 'limit-exceeded' && (
+            <div className="bg-error text-error-foreground flex items-center rounded-sm border border-transparent px-[10px] py-2 text-sm leading-none font-medium">
+              <Info size={14} className="mr-1.5" />
+              Limit exceeded
+            </div>
+          )}
+          {cell.stale && !busy && (
+            <div
+              className="bg-warning text-warning-foreground flex items-center rounded-sm border border-transparent px-[10px] py-2 text-sm leading-none font-medium"
+              title="A cell it imports changed since it last ran"
+            >
+              <Info size={14} className="mr-1.5" />
+              Stale
+            </div>
+          )}
           {onDeleteCell !== null ? (
             <DeleteCellWithConfirmation onDeleteCell={() => onDeleteCell(cell)}>
               <Button className="hidden group-hover:flex" variant="icon" size="icon" tabIndex={1}>
@@ -347,10 +404,7 @@ function Header(props: {
           className={cn(
             'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex gap-2',
 
-            cell.status === 'running' ||
-              cellMode === 'fixing' ||
-              cellMode === 'generating' ||
-              cellMode === 'reviewing'
+            busy || cellMode === 'fixing' || cellMode === 'generating' || cellMode === 'reviewing'
               ? 'opacity-100'
               : '',
           )}
@@ -453,7 +507,62 @@ function Header(props: {
                   <LoaderCircle size={16} className="animate-spin" /> Stop
                 </Button>
               )}
-              {cell.status === 'idle' && (
+              {cell.status === 'queued' && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="secondary"
+                        size="default-with-icon"
+                        onClick={stopCell}
+                        tabIndex={1}
+                      >
+                        <Hourglass size={16} /> Queued
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      Waiting for other cells to finish, click to cancel
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {!busy && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="icon" size="icon" onClick={debugCell} tabIndex={1}>
+                        <Bug size={16} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Debug cell, pausing at its breakpoints</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {!busy && (
+                <DropdownMenu>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="icon" size="icon" tabIndex={1}>
+                            <Gauge size={16} />
+                          </Button>
+                        </DropdownMenuTrigger>
+                      </TooltipTrigger>
+                      <TooltipContent>Profile cell</TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem className="cursor-pointer" onClick={() => profileCell(false)}>
+                      Profile CPU
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="cursor-pointer" onClick={() => profileCell(true)}>
+                      Profile CPU and heap
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {!busy && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -0,0 +1,304 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { DisplayDataType, DisplayTableType, HttpResponseType } from '@srcbook/shared';
+import { cn } from '../lib/utils.js';
+import { ProfileOutput } from './profile-output.js';
+import { Button } from './ui/button.js';
+
+const TABLE_MIME_TYPE = 'application/vnd.srcbook.table+json';
+const PROFILE_MIME_TYPE = 'application/vnd.srcbook.profile+json';
+const HTTP_MIME_TYPE = 'application/vnd.srcbook.http+json';
+
+// Rows shown at once in a displayed table, the others are a page away.
+const TABLE_PAGE_SIZE = 50;
+
+/**
+ * Render a value displayed by a cell, using the richest representation we support.
+ */
+export function DisplayOutput({ data }: { data: DisplayDataType }) {
+  if (data['text/html'] !== undefined) {
+    return <HtmlFrame html={data['text/html']} />;
+  }
+
+  if (data['image/svg+xml'] !== undefined) {
+    return (
+      <img
+        className="max-w-full"
+        alt="SVG displayed by the cell"
+        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(data['image/svg+xml'])}`}
+      />
+    );
+  }
+
+  if (data['image/png'] !== undefined) {
+    return (
+      <img
+        className="max-w-full"
+        alt="PNG displayed by the cell"
+        src={`data:image/png;base64,${data['image/png']}`}
+      />
+    );
+  }
+
+  if (data[TABLE_MIME_TYPE] !== undefined) {
+    return <DisplayTable table={data[TABLE_MIME_TYPE]} />;
+  }
+
+  if (data[PROFILE_MIME_TYPE] !== undefined) {
+    return <ProfileOutput profile={data[PROFILE_MIME_TYPE]} />;
+  }
+
+  if (data[HTTP_MIME_TYPE] !== undefined) {
+    return <HttpResponseOutput response={data[HTTP_MIME_TYPE]} />;
+  }
+
+  if ('application/json' in data) {
+    return (
+      <div className="font-mono text-[13px]">
+        <JsonNode value={data['application/json']} open />
+      </div>
+    );
+  }
+
+  if (data['text/plain'] !== undefined) {
+    return <pre className="font-mono text-[13px] whitespace-pre-wrap">{data['text/plain']}</pre>;
+  }
+
+  return null;
+}
+
+// Reports the height of the document to the parent so the frame can fit its content.
+const RESIZE_SCRIPT = `<script>
+  new ResizeObserver(() => {
+    parent.postMessage({ srcbookFrameHeight: document.documentElement.scrollHeight }, '*');
+  }).observe(document.documentElement);
+</script>`;
+
+/**
+ * HTML from a cell runs in a sandboxed frame. Without `allow-same-origin` it cannot
+ * reach into the app, its cookies or storage, while its own scripts still run.
+ */
+function HtmlFrame({ html }: { html: string }) {
+  const ref = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState(32);
+
+  useEffect(() => {
+    function onMessage(event: MessageEvent) {
+      if (event.source !== ref.current?.contentWindow) {
+        return;
+      }
+
+      const frameHeight = event.data?.srcbookFrameHeight;
+
+      if (typeof frameHeight === 'number') {
+        setHeight(frameHeight);
+      }
+    }
+
+    window.addEventListener('message', onMessage);
+
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  return (
+    <iframe
+      ref={ref}
+      title="HTML displayed by the cell"
+      className="w-full bg-white rounded-sm"
+      style={{ height }}
+      sandbox="allow-scripts"
+      srcDoc={html + RESIZE_SCRIPT}
+    />
+  );
+}
+
+function formatTableValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function DisplayTable({ table }: { table: DisplayTableType }) {
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(table.rows.length / TABLE_PAGE_SIZE));
+  // A later run may display fewer rows, leaving the page out of range.
+  const currentPage = Math.min(page, pageCount - 1);
+  const start = currentPage * TABLE_PAGE_SIZE;
+  const rows = table.rows.slice(start, start + TABLE_PAGE_SIZE);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="max-h-96 overflow-auto border rounded-sm">
+        <table className="w-full text-left text-[13px]">
+          <thead className="sticky top-0 bg-muted">
+            <tr>
+              {table.columns.map((column) => (
+                <th key={column} className="px-2 py-1 font-medium border-b">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, idx) => (
+              <tr key={start + idx} className="border-b last:border-b-0">
+                {row.map((value, col) => (
+                  <td key={col} className="px-2 py-1 font-mono align-top">
+                    {formatTableValue(value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-1 text-xs text-tertiary-foreground">
+          <span className="mr-1">
+            {start + 1}–{start + rows.length} of {table.rows.length}
+          </span>
+          <Button
+            variant="icon"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Previous page"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+          >
+            <ChevronLeft size={14} />
+          </Button>
+          <Button
+            variant="icon"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Next page"
+            disabled={currentPage === pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+          >
+            <ChevronRight size={14} />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function statusColor(status: number) {
+  if (status >= 400) {
+    return 'text-sb-red-80';
+  }
+  return status >= 300 ? 'text-sb-yellow-80' : 'text-sb-green-80';
+}
+
+// JSON bodies are pretty-printed, anything else is shown as it came.
+function formatHttpBody(body: string) {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * The response to a request sent by an HTTP cell: its status, headers and body.
+ */
+function HttpResponseOutput({ response }: { response: HttpResponseType }) {
+  const [showHeaders, setShowHeaders] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-1 font-mono text-[13px]">
+      <div className="flex items-center gap-2">
+        <span className={cn('font-semibold', statusColor(response.status))}>
+          {response.status} {response.statusText}
+        </span>
+        <span className="truncate text-tertiary-foreground">
+          {response.method} {response.url}
+        </span>
+        <span className="ml-auto shrink-0 text-tertiary-foreground">{response.duration} ms</span>
+      </div>
+      <button
+        className="flex items-center text-left text-tertiary-foreground hover:text-foreground"
+        onClick={() => setShowHeaders(!showHeaders)}
+      >
+        {showHeaders ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        Headers ({response.headers.length})
+      </button>
+      {showHeaders && (
+        <div className="pl-4">
+          {response.headers.map(([name, value], idx) => (
+            <div key={idx}>
+              <span className="text-foreground">{name}:</span>{' '}
+              <span className="text-tertiary-foreground">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {response.body !== '' && (
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap border rounded-sm p-2">
+          {formatHttpBody(response.body)}
+        </pre>
+      )}
+      {response.truncated && (
+        <span className="text-xs text-tertiary-foreground">
+          The body is too large to show in full and was truncated.
+        </span>
+      )}
+    </div>
+  );
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <span className="text-sb-green-80">{JSON.stringify(value)}</span>;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return <span className="text-sb-blue-50">{String(value)}</span>;
+  }
+  return <span className="text-tertiary-foreground">null</span>;
+}
+
+/**
+ * A collapsible tree of a JSON value. Objects and arrays below the top level start collapsed.
+ */
+function JsonNode({ name, value, open }: { name?: string; value: unknown; open?: boolean }) {
+  const [expanded, setExpanded] = useState(open === true);
+
+  const label = name !== undefined ? <span className="text-foreground">{name}: </span> : null;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonValue value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, idx) => [String(idx), item] as const)
+    : Object.entries(value);
+
+  const summary = Array.isArray(value) ? `Array(${entries.length})` : `{${entries.length} keys}`;
+
+  return (
+    <div>
+      <button
+        className="flex items-center text-left hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        {label}
+        <span className={cn('text-tertiary-foreground', expanded && 'opacity-50')}>{summary}</span>
+      </button>
+      {expanded && (
+        <div className="pl-4">
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} value={item} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { CircleCheck, CircleX, History } from 'lucide-react';
+import type { CellExecutionType } from '@srcbook/shared';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover.js';
+import { cn } from '../lib/utils.js';
+
+function formatDuration(ms: number) {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatTime(ms: number) {
+  const date = new Date(ms);
+  const today = new Date().toDateString() === date.toDateString();
+  return today ? date.toLocaleTimeString() : date.toLocaleString();
+}
+
+function formatOutcome(execution: CellExecutionType) {
+  if (execution.signal) {
+    return execution.signal;
+  }
+  return execution.exitCode === null ? 'did not start' : `exit ${execution.exitCode}`;
+}
+
+function Outcome({ execution }: { execution: CellExecutionType }) {
+  return execution.exitCode === 0 ? (
+    <CircleCheck size={14} className="text-sb-green-80 shrink-0" />
+  ) : (
+    <CircleX size={14} className="text-sb-red-30 shrink-0" />
+  );
+}
+
+/**
+ * A badge showing how a cell's last run went, which opens the cell's recent runs.
+ *
+ * Expects executions ordered most recent first.
+ */
+export function ExecutionHistory({ executions }: { executions: CellExecutionType[] }) {
+  const last = executions[0];
+
+  if (!last) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'flex items-center gap-1 px-2 py-1 rounded-sm text-xs text-tertiary-foreground',
+            'hover:bg-muted hover:text-foreground transition-colors',
+          )}
+          title="Show run history"
+        >
+          <Outcome execution={last} />
+          <span>{formatDuration(last.endedAt - last.startedAt)}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0">
+        <div className="flex items-center gap-1.5 px-3 py-2 border-b text-sm font-medium">
+          <History size={14} />
+          Run history
+        </div>
+        <ul className="max-h-72 overflow-y-auto py-1 text-xs">
+          {executions.map((execution) => (
+            <li
+              key={execution.id}
+              className="grid grid-cols-[auto_1fr_auto_auto_auto] items-center gap-3 px-3 py-1.5"
+            >
+              <Outcome execution={execution} />
+              <span className="truncate">{formatTime(execution.startedAt)}</span>
+              <span className="font-mono">{formatOutcome(execution)}</span>
+              <span className="text-tertiary-foreground">
+                {formatDuration(execution.endedAt - execution.startedAt)}
+              </span>
+              <span className="text-tertiary-foreground">{formatSize(execution.outputSize)}</span>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import type { ProfileFrameType, ProfileType } from '@srcbook/shared';
+import { cn } from '../lib/utils.js';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/underline-flat-tabs.js';
+
+// Rows of the bottom-up table shown at most.
+const MAX_ROWS = 50;
+
+type CallType = {
+  index: number;
+  frame: ProfileFrameType;
+  self: number;
+  total: number;
+  children: CallType[];
+};
+
+function callTree(profile: ProfileType): CallType {
+  const calls: CallType[] = profile.nodes.map((node, index) => ({
+    index,
+    frame: profile.frames[node.frame]!,
+    self: node.self,
+    total: node.self,
+    children: [],
+  }));
+
+  // Parents come before their children, so children are done before their parents here.
+  for (let i = profile.nodes.length - 1; i > 0; i--) {
+    const parent = calls[profile.nodes[i]!.parent!]!;
+    parent.total += calls[i]!.total;
+    parent.children.unshift(calls[i]!);
+  }
+
+  return calls[0]!;
+}
+
+function formatAmount(amount: number, kind: ProfileType['kind']) {
+  if (kind === 'cpu') {
+    return `${(amount / 1000).toFixed(1)} ms`;
+  }
+
+  if (amount < 1024) {
+    return `${amount} B`;
+  }
+
+  return amount < 1024 * 1024
+    ? `${(amount / 1024).toFixed(1)} KB`
+    : `${(amount / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function functionName(frame: ProfileFrameType) {
+  return frame.functionName || '(anonymous)';
+}
+
+function location(frame: ProfileFrameType) {
+  const file = frame.filename ?? frame.url.split('/').pop();
+
+  if (!file) {
+    return '';
+  }
+
+  return frame.line > 0 ? `${file}:${frame.line}` : file;
+}
+
+/**
+ * A CPU or heap profile of a cell run: a flame graph of the calls and a bottom-up table of
+ * the functions they spent the most in. Functions of the srcbook's cells stand out from
+ * those of node and dependencies.
+ */
+export function ProfileOutput({ profile }: { profile: ProfileType }) {
+  const root = useMemo(() => callTree(profile), [profile]);
+
+  return (
+    <div className="border rounded-md text-xs">
+      <Tabs defaultValue="flame">
+        <div className="px-3 flex items-center justify-between bg-muted text-tertiary-foreground border-b">
+          <TabsList className="h-full">
+            <TabsTrigger value="flame">Flame graph</TabsTrigger>
+            <TabsTrigger value="bottom-up">Bottom-up</TabsTrigger>
+          </TabsList>
+          <span className="font-mono">
+            {profile.kind === 'cpu' ? 'CPU' : 'Heap'} · {formatAmount(root.total, profile.kind)} ·{' '}
+            {profile.path}
+          </span>
+        </div>
+        <TabsContent value="flame" className="mt-0 p-2">
+          <FlameGraph root={root} kind={profile.kind} />
+        </TabsContent>
+        <TabsContent value="bottom-up" className="mt-0">
+          <BottomUpTable root={root} kind={profile.kind} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+/**
+ * Calls from the top down, as wide as the share of the profile they take. Clicking a call
+ * zooms into it, clicking the top one zooms back out.
+ */
+function FlameGraph({ root, kind }: { root: CallType; kind: ProfileType['kind'] }) {
+  const [zoomed, setZoomed] = useState<CallType[]>([]);
+  const top = zoomed[zoomed.length - 1] ?? root;
+
+  function onClick(call: CallType) {
+    if (call === top) {
+      setZoomed(zoomed.slice(0, -1));
+    } else {
+      setZoomed([...zoomed, call]);
+    }
+  }
+
+  return (
+    <div className="font-mono overflow-auto max-h-96">
+      <FlameNode call={top} total={top.total} kind={kind} onClick={onClick} />
+    </div>
+  );
+}
+
+function FlameNode(props: {
+  call: CallType;
+  total: number;
+  kind: ProfileType['kind'];
+  onClick: (call: CallType) => void;
+}) {
+  const { call, total, kind } = props;
+  const inCell = call.frame.filename !== null;
+  const label = `${functionName(call.frame)} ${location(call.frame)}`;
+
+  return (
+    <div className="flex flex-col min-w-0">
+      <button
+        className={cn(
+          'h-5 px-1 mb-px rounded-sm truncate text-left border border-background',
+          inCell ? 'bg-sb-yellow-20 dark:bg-sb-yellow-80' : 'bg-muted hover:bg-accent',
+        )}
+        title={`${label}\n${formatAmount(call.total, kind)} (${((call.total / total) * 100).toFixed(1)}%)`}
+        onClick={() => props.onClick(call)}
+      >
+        {label}
+      </button>
+      <div className="flex">
+        {call.children.map((child) => (
+          <div key={child.index} style={{ width: `${(child.total / call.total) * 100}%` }}>
+            <FlameNode call={child} total={total} kind={kind} onClick={props.onClick} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type RowType = {
+  frame: ProfileFrameType;
+  self: number;
+  total: number;
+};
+
+/**
+ * Functions by what was spent in them. Calls of a function from within itself only count
+ * once towards its total.
+ */
+function BottomUpTable({ root, kind }: { root: CallType; kind: ProfileType['kind'] }) {
+  const rows = useMemo(() => {
+    const byFrame = new Map<ProfileFrameType, RowType>();
+
+    function visit(call: CallType, ancestors: Set<ProfileFrameType>) {
+      const row = byFrame.get(call.frame) ?? { frame: call.frame, self: 0, total: 0 };
+
+      row.self += call.self;
+
+      if (!ancestors.has(call.frame)) {
+        row.total += call.total;
+      }
+
+      byFrame.set(call.frame, row);
+
+      const nested = new Set(ancestors).add(call.frame);
+
+      for (const child of call.children) {
+        visit(child, nested);
+      }
+    }
+
+    visit(root, new Set());
+
+    return [...byFrame.values()].sort((a, b) => b.self - a.self).slice(0, MAX_ROWS);
+  }, [root]);
+
+  return (
+    <div className="overflow-auto max-h-96">
+      <table className="w-full font-mono">
+        <thead className="text-left text-tertiary-foreground">
+          <tr>
+            <th className="px-3 py-1 font-normal text-right">Self</th>
+            <th className="px-3 py-1 font-normal text-right">Total</th>
+            <th className="px-3 py-1 font-normal">Function</th>
+            <th className="px-3 py-1 font-normal">Location</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, idx) => (
+            <tr key={idx} className="border-t">
+              <td className="px-3 py-1 text-right whitespace-nowrap">
+                {formatAmount(row.self, kind)}
+              </td>
+              <td className="px-3 py-1 text-right whitespace-nowrap">
+                {formatAmount(row.total, kind)}
+              </td>
+              <td className={cn('px-3 py-1', row.frame.filename !== null && 'font-semibold')}>
+                {functionName(row.frame)}
+              </td>
+              <td className="px-3 py-1 text-tertiary-foreground">{location(row.frame)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
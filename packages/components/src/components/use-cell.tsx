@@ -6,15 +6,23 @@ import {
   useRef,
   useReducer,
   useEffect,
+  useState,
 } from 'react';
 import {
   CellType,
   CodeCellType,
   CodeLanguageType,
+  FileCellType,
+  HttpCellType,
   MarkdownCellType,
+  ShellCellType,
+  SqlCellType,
+  TestCellType,
   TsServerDiagnosticType,
   TsServerSuggestionType,
+  WidgetCellType,
   getDefaultExtensionForLanguage,
+  sqlResultsFilename,
 } from '@srcbook/shared';
 import { GenerateAICellType, OutputType } from '../types';
 
@@ -23,13 +31,14 @@ import { randomid } from '@srcbook/shared';
 type ClientCellType = CellType | GenerateAICellType;
 
 /**
- * Utility function to generate a unique filename for a code cell,
+ * Utility function to generate a unique filename for a cell's file,
  * given the list of existing filenames.
  */
-function generateUniqueFilename(existingFilenames: string[], language: CodeLanguageType): string {
-  const baseName = 'untitled';
-  const extension = getDefaultExtensionForLanguage(language);
-
+function generateUniqueFilename(
+  existingFilenames: string[],
+  extension: string,
+  baseName = 'untitled',
+): string {
   let filename = `${baseName}${extension}`;
   let counter = 1;
 
@@ -48,13 +57,34 @@ function buildGenerateAiCell(): GenerateAICellType {
   };
 }
 
+// Cells with files share the src directory, so their filenames must not collide, nor with the
+// results SQL cells write there.
+function fileCellFilenames(cells: ClientCellType[]) {
+  return cells.flatMap((c) => {
+    switch (c.type) {
+      case 'sql':
+        return [c.filename, sqlResultsFilename(c.filename)];
+      case 'code':
+      case 'test':
+      case 'http':
+      case 'shell':
+      case 'file':
+        return [c.filename];
+      default:
+        return [];
+    }
+  });
+}
+
 function buildCodeCell(
   cells: ClientCellType[],
   language: CodeLanguageType,
   attrs: Partial<CodeCellType> = {},
 ): CodeCellType {
-  const filenames = cells.filter((c) => c.type === 'code').map((c) => (c as CodeCellType).filename);
-  const uniqueFilename = generateUniqueFilename(filenames, language);
+  const uniqueFilename = generateUniqueFilename(
+    fileCellFilenames(cells),
+    getDefaultExtensionForLanguage(language),
+  );
 
   return {
     source: '',
@@ -67,6 +97,90 @@ function buildCodeCell(
   };
 }
 
+function buildTestCell(
+  cells: ClientCellType[],
+  language: CodeLanguageType,
+  attrs: Partial<TestCellType> = {},
+): TestCellType {
+  const uniqueFilename = generateUniqueFilename(
+    fileCellFilenames(cells),
+    getDefaultExtensionForLanguage(language),
+    'untitled.test',
+  );
+
+  return {
+    source: '',
+    filename: uniqueFilename,
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'test',
+    language,
+  };
+}
+
+function buildSqlCell(cells: ClientCellType[], attrs: Partial<SqlCellType> = {}): SqlCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(fileCellFilenames(cells), '.sql'),
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'sql',
+  };
+}
+
+function buildHttpCell(cells: ClientCellType[], attrs: Partial<HttpCellType> = {}): HttpCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(fileCellFilenames(cells), '.http'),
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'http',
+  };
+}
+
+function buildShellCell(
+  cells: ClientCellType[],
+  attrs: Partial<ShellCellType> = {},
+): ShellCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(fileCellFilenames(cells), '.sh'),
+    status: 'idle',
+    ...attrs,
+    id: randomid(),
+    type: 'shell',
+  };
+}
+
+function buildFileCell(cells: ClientCellType[], attrs: Partial<FileCellType> = {}): FileCellType {
+  return {
+    source: '',
+    filename: generateUniqueFilename(fileCellFilenames(cells), '.json', 'data'),
+    ...attrs,
+    id: randomid(),
+    type: 'file',
+  };
+}
+
+function buildWidgetCell(
+  cells: ClientCellType[],
+  attrs: Partial<WidgetCellType> = {},
+): WidgetCellType {
+  // Widgets are keyed by name in the srcbook metadata, so their names must be unique too.
+  const names = cells.flatMap((c) => (c.type === 'widget' ? [c.name] : []));
+
+  return {
+    name: generateUniqueFilename(names, '', 'widget'),
+    controls: [],
+    ...attrs,
+    id: randomid(),
+    type: 'widget',
+  };
+}
+
 function buildMarkdownCell(attrs: Partial<MarkdownCellType> = {}): MarkdownCellType {
   return {
     text: '',
@@ -79,6 +193,12 @@ function buildMarkdownCell(attrs: Partial<MarkdownCellType> = {}): MarkdownCellT
 type OutputStateType = Record<string, OutputType[]>;
 type TsServerStateType = Record<string, TsServerDiagnosticType[]>;
 
+// A location in a cell to scroll to and highlight, e.g. a frame of a stack trace. 1-based.
+export type RevealedLineType = { cellId: string; line: number; column?: number };
+
+// How long a revealed line stays highlighted.
+const REVEAL_DURATION = 3000;
+
 interface CellsContextType {
   cells: ClientCellType[];
   setCells: (cells: ClientCellType[]) => void;
@@ -90,24 +210,38 @@ interface CellsContextType {
     language: CodeLanguageType,
     attrs?: Partial<CodeCellType>,
   ) => CodeCellType;
+  createTestCell: (
+    idx: number,
+    language: CodeLanguageType,
+    attrs?: Partial<TestCellType>,
+  ) => TestCellType;
+  createSqlCell: (idx: number, attrs?: Partial<SqlCellType>) => SqlCellType;
+  createHttpCell: (idx: number, attrs?: Partial<HttpCellType>) => HttpCellType;
+  createShellCell: (idx: number, attrs?: Partial<ShellCellType>) => ShellCellType;
+  createFileCell: (idx: number, attrs?: Partial<FileCellType>) => FileCellType;
+  createWidgetCell: (idx: number, attrs?: Partial<WidgetCellType>) => WidgetCellType;
   createMarkdownCell: (idx: number, attrs?: Partial<MarkdownCellType>) => MarkdownCellType;
   createGenerateAiCell: (idx: number) => GenerateAICellType;
-  hasOutput: (id: string, type?: 'stdout' | 'stderr') => boolean;
-  getOutput: (id: string, type?: 'stdout' | 'stderr') => Array<OutputType>;
+  hasOutput: (id: string, type?: OutputType['type']) => boolean;
+  getOutput: (id: string, type?: OutputType['type']) => Array<OutputType>;
   setOutput: (id: string, output: OutputType | OutputType[]) => void;
-  clearOutput: (id: string, type?: 'stdout' | 'stderr') => void;
+  clearOutput: (id: string, type?: OutputType['type']) => void;
   getTsServerDiagnostics: (id: string) => TsServerDiagnosticType[];
   setTsServerDiagnostics: (id: string, diagnostics: TsServerDiagnosticType[]) => void;
   getTsServerSuggestions: (id: string) => TsServerSuggestionType[];
   setTsServerSuggestions: (id: string, suggestions: TsServerSuggestionType[]) => void;
+  revealedLine: RevealedLineType | null;
+  revealLine: (cellId: string, line: number, column?: number) => void;
 }
 
 const CellsContext = createContext<CellsContextType | undefined>(undefined);
 
-export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactNode }> = ({
-  cells,
-  children,
-}) => {
+export const CellsProvider: React.FC<{
+  cells: ClientCellType[];
+  // Outputs to start from, e.g. those saved from the last run of each cell.
+  outputs?: OutputStateType;
+  children: ReactNode;
+}> = ({ cells, outputs, children }) => {
   // Because we use refs for our state, we need a way to trigger
   // component re-renders when the ref state changes.
   //
@@ -123,7 +257,11 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
   }, [cells]);
 
   // Use ref to help avoid stale state bugs in closures.
-  const outputRef = useRef<OutputStateType>({});
+  const outputRef = useRef<OutputStateType>(outputs || {});
+  useEffect(() => {
+    outputRef.current = outputs || {};
+    forceComponentRerender();
+  }, [outputs]);
 
   // Use ref to help avoid stale state bugs in closures.
   const tsServerDiagnosticsRef = useRef<TsServerStateType>({});
@@ -183,6 +321,60 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
     [insertCellAt],
   );
 
+  const createTestCell = useCallback(
+    (idx: number, language: CodeLanguageType, attrs?: Partial<TestCellType>) => {
+      const cell = buildTestCell(cellsRef.current, language, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createSqlCell = useCallback(
+    (idx: number, attrs?: Partial<SqlCellType>) => {
+      const cell = buildSqlCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createHttpCell = useCallback(
+    (idx: number, attrs?: Partial<HttpCellType>) => {
+      const cell = buildHttpCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createShellCell = useCallback(
+    (idx: number, attrs?: Partial<ShellCellType>) => {
+      const cell = buildShellCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createFileCell = useCallback(
+    (idx: number, attrs?: Partial<FileCellType>) => {
+      const cell = buildFileCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
+  const createWidgetCell = useCallback(
+    (idx: number, attrs?: Partial<WidgetCellType>) => {
+      const cell = buildWidgetCell(cellsRef.current, attrs);
+      insertCellAt(cell, idx);
+      return cell;
+    },
+    [insertCellAt],
+  );
+
   const createGenerateAiCell = useCallback(
     (idx: number) => {
       const cell = buildGenerateAiCell();
@@ -201,13 +393,13 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
     [insertCellAt],
   );
 
-  const hasOutput = useCallback((id: string, type?: 'stdout' | 'stderr') => {
+  const hasOutput = useCallback((id: string, type?: OutputType['type']) => {
     const output = outputRef.current[id] || [];
     const length = type ? output.filter((o) => o.type === type).length : output.length;
     return length > 0;
   }, []);
 
-  const getOutput = useCallback((id: string, type?: 'stdout' | 'stderr') => {
+  const getOutput = useCallback((id: string, type?: OutputType['type']) => {
     const output = outputRef.current[id] || [];
     return type ? output.filter((o) => o.type === type) : output;
   }, []);
@@ -224,7 +416,7 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
   );
 
   const clearOutput = useCallback(
-    (id: string, type?: 'stdout' | 'stderr') => {
+    (id: string, type?: OutputType['type']) => {
       const output = outputRef.current[id] || [];
       const updated = type !== undefined ? output.filter((o) => o.type !== type) : [];
       stableSetOutput({ ...outputRef.current, [id]: updated });
@@ -254,6 +446,23 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
     [stableSetTsServerSuggestions],
   );
 
+  const [revealedLine, setRevealedLine] = useState<RevealedLineType | null>(null);
+
+  // A new object every time, for the cell to scroll to the line again when clicked twice.
+  const revealLine = useCallback((cellId: string, line: number, column?: number) => {
+    setRevealedLine({ cellId, line, column });
+  }, []);
+
+  useEffect(() => {
+    if (revealedLine === null) {
+      return;
+    }
+
+    const timeout = setTimeout(() => setRevealedLine(null), REVEAL_DURATION);
+
+    return () => clearTimeout(timeout);
+  }, [revealedLine]);
+
   return (
     <CellsContext.Provider
       value={{
@@ -263,6 +472,12 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
         removeCell,
         insertCellAt,
         createCodeCell,
+        createTestCell,
+        createSqlCell,
+        createHttpCell,
+        createShellCell,
+        createFileCell,
+        createWidgetCell,
         createMarkdownCell,
         createGenerateAiCell,
         hasOutput,
@@ -273,6 +488,8 @@ export const CellsProvider: React.FC<{ cells: ClientCellType[]; children: ReactN
         getTsServerSuggestions,
         setTsServerDiagnostics,
         setTsServerSuggestions,
+        revealedLine,
+        revealLine,
       }}
     >
       {children}
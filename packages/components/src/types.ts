@@ -1,4 +1,4 @@
-import { CellType, CodeLanguageType } from '@srcbook/shared';
+import { CellType, CodeLanguageType, DisplayDataType } from '@srcbook/shared';
 
 export type GenerateAICellType = {
   id: string;
@@ -7,7 +7,8 @@ export type GenerateAICellType = {
 
 export type StdoutOutputType = { type: 'stdout'; data: string };
 export type StderrOutputType = { type: 'stderr'; data: string };
-export type OutputType = StdoutOutputType | StderrOutputType;
+export type DisplayOutputType = { type: 'display'; data: DisplayDataType };
+export type OutputType = StdoutOutputType | StderrOutputType | DisplayOutputType;
 
 export type SessionType = {
   id: string;
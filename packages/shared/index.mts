@@ -6,4 +6,5 @@ export * from './src/types/tsserver.mjs';
 export * from './src/types/websockets.mjs';
 export * from './src/types/secrets.mjs';
 export * from './src/utils.mjs';
+export * from './src/source-map.mjs';
 export * from './src/ai.mjs';
@@ -17,7 +17,49 @@ export const PackageJsonCellSchema = z.object({
   type: z.literal('package.json'),
   source: z.string(),
   filename: z.literal('package.json'),
-  status: z.enum(['idle', 'running', 'failed']),
+  status: z.enum(['idle', 'queued', 'running', 'failed']),
+});
+
+// Limits the server enforces when executing a code cell. Unset limits are not enforced.
+export const ExecLimitsSchema = z.object({
+  // Wall-clock time in milliseconds.
+  timeout: z.number().int().positive().optional(),
+  // Maximum size of the V8 old space in megabytes, i.e. --max-old-space-size.
+  memory: z.number().int().positive().optional(),
+  // Total bytes written to stdout and stderr.
+  output: z.number().int().positive().optional(),
+});
+
+// Programs that run code cells. `node` only runs JavaScript, the others run TypeScript too.
+export const RuntimeSchema = z.enum(['node', 'tsx', 'bun', 'deno']);
+
+// What code cells may do when the srcbook runs them sandboxed with node's permission model.
+// Cells can always read the srcbook's own directory.
+export const PermissionsSchema = z.object({
+  // Extra paths cells can read, and paths they can write. Relative paths start at the srcbook's directory.
+  fsRead: z.array(z.string()),
+  fsWrite: z.array(z.string()),
+  childProcess: z.boolean(),
+  worker: z.boolean(),
+  // Variables of the server's environment passed on to cells, next to secrets and parameters.
+  env: z.array(z.string()),
+});
+
+// Whether a runtime is installed where the srcbook would run it.
+export const RuntimeAvailabilitySchema = z.object({
+  runtime: RuntimeSchema,
+  available: z.boolean(),
+  version: z.string().nullable(),
+});
+
+// A value a srcbook takes as input, like papermill parameters. Code cells read it from the
+// environment variable of the same name.
+export const ParameterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const ParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid environment variable name'),
+  type: z.enum(['string', 'number', 'boolean']),
+  default: ParameterValueSchema.optional(),
 });
 
 export const CodeCellSchema = z.object({
@@ -26,7 +68,229 @@ export const CodeCellSchema = z.object({
   source: z.string(),
   language: z.enum(['javascript', 'typescript']),
   filename: z.string(),
-  status: z.enum(['idle', 'running']),
+  // 'limit-exceeded' means the last run was stopped for exceeding one of its limits.
+  status: z.enum(['idle', 'queued', 'running', 'limit-exceeded']),
+  // Overrides the srcbook's limits for this cell.
+  limits: ExecLimitsSchema.optional(),
+  // Whether a cell it imports changed since it last ran, so its output may be out of date.
+  stale: z.boolean().optional(),
+});
+
+// The outcome of one test reported by the node test runner.
+export const TestResultSchema = z.object({
+  // Prefixed with the names of the suites containing the test, e.g. 'math › adds'.
+  name: z.string(),
+  status: z.enum(['pass', 'fail', 'skip', 'todo']),
+  // Milliseconds.
+  duration: z.number(),
+  error: z.string().optional(),
+});
+
+// A cell with tests, run with the node test runner (`node --test`) instead of executed.
+export const TestCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('test'),
+  source: z.string(),
+  language: z.enum(['javascript', 'typescript']),
+  filename: z.string(),
+  status: z.enum(['idle', 'queued', 'running']),
+  // Results of the last run, in the order the tests finished.
+  results: z.array(TestResultSchema).optional(),
+});
+
+// Rows of a table shown by a cell. Each row has one value per column.
+export const DisplayTableSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(z.unknown())),
+});
+
+// A function in a profile. When it is in a cell, `filename` is the cell's and `line` is in
+// the cell's source. Lines are 1-based, 0 when unknown.
+export const ProfileFrameSchema = z.object({
+  functionName: z.string(),
+  filename: z.string().nullable(),
+  url: z.string(),
+  line: z.number(),
+});
+
+// A call in the call tree of a profile. `self` is what was spent in the frame itself:
+// microseconds in CPU profiles, bytes in heap profiles.
+export const ProfileNodeSchema = z.object({
+  frame: z.number(),
+  // Index of the calling node, which always comes before it. Null for the root.
+  parent: z.number().nullable(),
+  self: z.number(),
+});
+
+// A profile of a run of a code cell, trimmed down for the UI.
+export const ProfileSchema = z.object({
+  kind: z.enum(['cpu', 'heap']),
+  // Where the full profile is saved, relative to the srcbook's directory.
+  path: z.string(),
+  frames: z.array(ProfileFrameSchema),
+  nodes: z.array(ProfileNodeSchema),
+});
+
+// The response to a request of an HTTP cell. The request is kept as written, before secrets
+// are filled in, so their values never end up in outputs.
+export const HttpResponseSchema = z.object({
+  method: z.string(),
+  url: z.string(),
+  status: z.number(),
+  statusText: z.string(),
+  headers: z.array(z.tuple([z.string(), z.string()])),
+  body: z.string(),
+  // Long bodies are cut short.
+  truncated: z.boolean(),
+  // Milliseconds until the whole body was received.
+  duration: z.number(),
+});
+
+// A value a cell displays, in one or more representations keyed by MIME type.
+// The UI renders the richest representation it supports.
+export const DisplayDataSchema = z.object({
+  'text/plain': z.string().optional(),
+  'text/html': z.string().optional(),
+  // Base64 encoded.
+  'image/png': z.string().optional(),
+  'image/svg+xml': z.string().optional(),
+  'application/json': z.unknown().optional(),
+  'application/vnd.srcbook.table+json': DisplayTableSchema.optional(),
+  'application/vnd.srcbook.profile+json': ProfileSchema.optional(),
+  'application/vnd.srcbook.http+json': HttpResponseSchema.optional(),
+});
+
+// A chunk of what a code cell outputs when run.
+export const CellOutputSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(['stdout', 'stderr']),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal('display'),
+    data: DisplayDataSchema,
+  }),
+]);
+
+// A record of one run of a code cell. Times are milliseconds since the epoch.
+export const CellExecutionSchema = z.object({
+  id: z.number(),
+  sessionId: z.string(),
+  cellId: z.string(),
+  // SHA-256 of the cell's source at the time it ran.
+  sourceHash: z.string(),
+  startedAt: z.number(),
+  endedAt: z.number(),
+  exitCode: z.number().nullable(),
+  signal: z.string().nullable(),
+  // Bytes written to stdout and stderr.
+  outputSize: z.number(),
+});
+
+// The SQLite database a SQL cell queries: a file given by its path relative to the srcbook's
+// directory, or the path held by a secret for databases kept out of the srcbook.
+export const SqlConnectionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('file'), path: z.string() }),
+  z.object({ type: z.literal('secret'), name: z.string() }),
+]);
+
+// A cell with SQL statements run against a SQLite database. The rows returned by the last
+// statement returning any are saved next to the cell's file as JSON, e.g. users.sql to
+// users.json, for later code cells to import.
+export const SqlCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('sql'),
+  source: z.string(),
+  filename: z.string(),
+  // Unset until one is selected, the cell cannot run without it.
+  connection: SqlConnectionSchema.optional(),
+  status: z.enum(['idle', 'queued', 'running']),
+});
+
+// A cell with HTTP requests written like in .http files, sent one after another:
+//
+//     POST https://example.com/api/users
+//     Authorization: Bearer {{API_TOKEN}}
+//
+//     { "name": "Ada" }
+//
+// Requests are separated by lines starting with ###. {{NAME}} is replaced with the value of
+// the secret NAME, which must be associated with the session.
+export const HttpCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('http'),
+  source: z.string(),
+  filename: z.string(),
+  status: z.enum(['idle', 'queued', 'running']),
+});
+
+// A cell with commands run by bash in the session directory, with the secrets associated
+// with the session in its environment.
+export const ShellCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('shell'),
+  source: z.string(),
+  filename: z.string(),
+  status: z.enum(['idle', 'queued', 'running']),
+});
+
+// A data file, like JSON, CSV, YAML or text, kept next to the code cells in src/ for them
+// to import or read. Its format follows from the extension of its filename.
+export const FileCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('file'),
+  source: z.string(),
+  filename: z.string(),
+});
+
+// An input of a widget cell. Like parameters, code cells read its current value from the
+// environment variable named after it.
+const WidgetControlFields = {
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid environment variable name'),
+  // Shown next to the control instead of its name.
+  label: z.string().optional(),
+};
+
+export const WidgetControlSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...WidgetControlFields,
+    type: z.literal('slider'),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().optional(),
+    value: z.number(),
+  }),
+  z.object({
+    ...WidgetControlFields,
+    type: z.literal('select'),
+    options: z.array(z.string()).min(1),
+    value: z.string(),
+  }),
+  z.object({ ...WidgetControlFields, type: z.literal('text'), value: z.string() }),
+  z.object({ ...WidgetControlFields, type: z.literal('checkbox'), value: z.boolean() }),
+]);
+
+// A cell with controls, like sliders and selects, for people to set values of code cells
+// without editing them. Controls and their values are kept in the srcbook metadata.
+export const WidgetCellSchema = z.object({
+  id: z.string(),
+  type: z.literal('widget'),
+  // Keys the widget's controls in the srcbook metadata.
+  name: z.string().regex(/^[a-zA-Z0-9_-]+$/),
+  controls: z.array(WidgetControlSchema),
+});
+
+// Which code cells import which, from the relative imports in their source.
+export const CellDependencyGraphSchema = z.object({
+  // Code cells in the order they appear in the srcbook.
+  cells: z.array(
+    z.object({
+      cellId: z.string(),
+      filename: z.string(),
+      // Ids of the code cells this cell imports.
+      imports: z.array(z.string()),
+    }),
+  ),
 });
 
 // Placeholder cells are used when instructing AI where to insert generated cell(s).
@@ -41,6 +305,12 @@ export const CellSchema = z.union([
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  TestCellSchema,
+  SqlCellSchema,
+  HttpCellSchema,
+  ShellCellSchema,
+  FileCellSchema,
+  WidgetCellSchema,
 ]);
 
 export const CellWithPlaceholderSchema = z.union([
@@ -48,6 +318,12 @@ export const CellWithPlaceholderSchema = z.union([
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  TestCellSchema,
+  SqlCellSchema,
+  HttpCellSchema,
+  ShellCellSchema,
+  FileCellSchema,
+  WidgetCellSchema,
   PlaceholderCellSchema,
 ]);
 
@@ -58,6 +334,29 @@ export const CellWithPlaceholderSchema = z.union([
 export const SrcbookMetadataSchema = z.object({
   language: z.enum(['javascript', 'typescript']),
   'tsconfig.json': z.optional(z.string()),
+  // Run code cells in a long-lived kernel process that keeps state between runs.
+  kernel: z.optional(z.boolean()),
+  limits: z.optional(ExecLimitsSchema),
+  // Runs code cells with this runtime instead of node (JavaScript) or tsx (TypeScript).
+  runtime: z.optional(RuntimeSchema),
+  parameters: z.optional(z.array(ParameterSchema)),
+  // Re-run the cells importing a code cell after it runs successfully.
+  reactive: z.optional(z.boolean()),
+  // Run code cells sandboxed with these permissions. Cells have full access without them.
+  permissions: z.optional(PermissionsSchema),
+  // Metadata of individual code cells, keyed by filename.
+  cells: z.optional(
+    z.record(
+      z.string(),
+      z.object({
+        limits: z.optional(ExecLimitsSchema),
+        // Of SQL cells.
+        connection: z.optional(SqlConnectionSchema),
+      }),
+    ),
+  ),
+  // Controls of widget cells, keyed by the name of the cell.
+  widgets: z.optional(z.record(z.string(), z.object({ controls: z.array(WidgetControlSchema) }))),
 });
 
 ///////////////////////////////////////////
@@ -82,9 +381,21 @@ export const CodeCellUpdateAttrsSchema = z.object({
   source: z.string(),
 });
 
+// The source of SQL cells is updated like that of code cells, their connection on its own.
+export const SqlCellUpdateAttrsSchema = z.object({
+  connection: SqlConnectionSchema,
+});
+
+// Controls are updated all at once, whether their values or their declarations changed.
+export const WidgetCellUpdateAttrsSchema = z.object({
+  controls: z.array(WidgetControlSchema),
+});
+
 export const CellUpdateAttrsSchema = z.union([
   TitleCellUpdateAttrsSchema,
   MarkdownCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  SqlCellUpdateAttrsSchema,
+  WidgetCellUpdateAttrsSchema,
 ]);
@@ -1,5 +1,23 @@
 import z from 'zod';
-import { CellSchema, MarkdownCellSchema, CodeCellSchema, CellUpdateAttrsSchema } from './cells.mjs';
+import {
+  CellSchema,
+  MarkdownCellSchema,
+  CodeCellSchema,
+  TestCellSchema,
+  SqlCellSchema,
+  HttpCellSchema,
+  ShellCellSchema,
+  FileCellSchema,
+  WidgetCellSchema,
+  CellUpdateAttrsSchema,
+  ExecLimitsSchema,
+  RuntimeSchema,
+  PermissionsSchema,
+  ParameterValueSchema,
+  CellExecutionSchema,
+  CellDependencyGraphSchema,
+  CellOutputSchema,
+} from './cells.mjs';
 import {
   TsServerDefinitionLocationSchema,
   TsServerDiagnosticSchema,
@@ -19,13 +37,86 @@ export const CellExecPayloadSchema = z.object({
   cellId: z.string(),
 });
 
+// 'upstream' runs a cell after the cells it imports, directly or not. 'downstream' runs a cell
+// and then the cells importing it, directly or not.
+export const CellsExecScopeSchema = z.enum(['all', 'above', 'below', 'upstream', 'downstream']);
+
+export const CellsExecPayloadSchema = z.object({
+  scope: CellsExecScopeSchema,
+  // The cell the scopes other than 'all' are relative to. Only the cells above exclude it.
+  cellId: z.string().optional(),
+});
+
+export const CellsExecSummaryPayloadSchema = z.object({
+  scope: CellsExecScopeSchema,
+  cellId: z.string().optional(),
+  // Whether every cell in scope ran and exited with 0.
+  success: z.boolean(),
+  // The cells that ran, in order. Only the last one can have failed.
+  results: z.array(
+    z.object({
+      cellId: z.string(),
+      exitCode: z.number().nullable(),
+      signal: z.string().nullable(),
+    }),
+  ),
+  // The cells that did not run because an earlier cell failed.
+  skipped: z.array(z.string()),
+  // Why none of the cells ran, e.g. because the session was already running cells.
+  error: z.string().optional(),
+});
+
+// Sent after a code cell's run has been recorded in the execution history.
+export const CellExecutedPayloadSchema = z.object({
+  execution: CellExecutionSchema,
+});
+
+// Run a code cell under the inspector, which waits for the client to attach a debugger.
+export const CellDebugPayloadSchema = z.object({
+  cellId: z.string(),
+});
+
+// A Chrome DevTools Protocol message, as JSON, for or from the inspector of the cell being debugged.
+export const DebugMessagePayloadSchema = z.object({
+  cellId: z.string(),
+  message: z.string(),
+});
+
+// Sent once the server is connected to the inspector of the cell, and once it is no longer.
+export const DebugStatusPayloadSchema = z.object({
+  cellId: z.string(),
+  attached: z.boolean(),
+});
+
+// Run a code cell with the V8 profiler, sampling the heap as well when `heap` is set.
+export const CellProfilePayloadSchema = z.object({
+  cellId: z.string(),
+  heap: z.boolean(),
+});
+
 export const CellStopPayloadSchema = z.object({
   cellId: z.string(),
 });
 
+// Input for a running cell. `eof` closes its stdin after writing `data`.
+export const CellStdinPayloadSchema = z.object({
+  cellId: z.string(),
+  data: z.string(),
+  eof: z.boolean().optional(),
+});
+
 export const CellCreatePayloadSchema = z.object({
   index: z.number(),
-  cell: z.union([MarkdownCellSchema, CodeCellSchema]),
+  cell: z.union([
+    MarkdownCellSchema,
+    CodeCellSchema,
+    TestCellSchema,
+    SqlCellSchema,
+    HttpCellSchema,
+    ShellCellSchema,
+    FileCellSchema,
+    WidgetCellSchema,
+  ]),
 });
 
 export const CellUpdatePayloadSchema = z.object({
@@ -81,10 +172,7 @@ export const AiGeneratedCellPayloadSchema = z.object({
 
 export const CellOutputPayloadSchema = z.object({
   cellId: z.string(),
-  output: z.object({
-    type: z.enum(['stdout', 'stderr']),
-    data: z.string(),
-  }),
+  output: CellOutputSchema,
 });
 
 export const DepsValidatePayloadSchema = z.object({});
@@ -137,6 +225,71 @@ export const TsConfigUpdatedPayloadSchema = z.object({
   source: z.string(),
 });
 
+export const LimitsUpdatePayloadSchema = z.object({
+  // Update the limits of this code cell instead of the srcbook's.
+  cellId: z.string().optional(),
+  limits: ExecLimitsSchema,
+});
+
+export const LimitsUpdatedPayloadSchema = z.object({
+  limits: ExecLimitsSchema,
+});
+
+// A null runtime goes back to the default for the srcbook's language.
+export const RuntimeUpdatePayloadSchema = z.object({
+  runtime: RuntimeSchema.nullable(),
+});
+
+export const RuntimeUpdatedPayloadSchema = z.object({
+  runtime: RuntimeSchema.nullable(),
+});
+
+// Values of the srcbook's parameters, keyed by name. Parameters left out use their default.
+export const ParametersUpdatePayloadSchema = z.object({
+  values: z.record(z.string(), ParameterValueSchema),
+});
+
+export const ParametersUpdatedPayloadSchema = z.object({
+  values: z.record(z.string(), ParameterValueSchema),
+});
+
+export const ReactiveUpdatePayloadSchema = z.object({
+  reactive: z.boolean(),
+});
+
+export const ReactiveUpdatedPayloadSchema = z.object({
+  reactive: z.boolean(),
+});
+
+// A null policy turns the sandbox off.
+export const PermissionsUpdatePayloadSchema = z.object({
+  permissions: PermissionsSchema.nullable(),
+});
+
+export const PermissionsUpdatedPayloadSchema = z.object({
+  permissions: PermissionsSchema.nullable(),
+});
+
+export const GraphUpdatedPayloadSchema = z.object({
+  graph: CellDependencyGraphSchema,
+});
+
 export const DepsInstallPayloadSchema = z.object({
   packages: z.array(z.string()).optional(),
 });
+
+export const KernelStartPayloadSchema = z.object({});
+
+export const KernelStopPayloadSchema = z.object({});
+
+export const KernelRestartPayloadSchema = z.object({});
+
+// Stop everything running for a session: cells, the kernel and the tsserver.
+export const SessionStopPayloadSchema = z.object({});
+
+export const KernelStatusPayloadSchema = z.object({
+  // Whether the session opted in to executing cells in a kernel.
+  enabled: z.boolean(),
+  // Whether a kernel process is currently alive for the session.
+  running: z.boolean(),
+});
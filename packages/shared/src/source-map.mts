@@ -0,0 +1,94 @@
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decode the base64 VLQ values of one segment of a source map's mappings.
+function decodeSegment(segment: string) {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Line numbers of the code a runtime executes mapped to those of the source it came from and
+ * back, from a source map. Lines are 0-based, like in the Chrome DevTools Protocol.
+ *
+ * Columns are ignored: breakpoints and paused locations are only shown per line.
+ */
+export class LineMap {
+  // Generated line -> original line of its first segment.
+  private readonly originalLines = new Map<number, number>();
+  // Original line -> first generated line with a segment from it.
+  private readonly generatedLines = new Map<number, number>();
+
+  constructor(mappings: string) {
+    let originalLine = 0;
+
+    mappings.split(';').forEach((line, generatedLine) => {
+      for (const segment of line.split(',')) {
+        const values = decodeSegment(segment);
+
+        // Segments of one value map to nothing in the source.
+        if (values.length < 4) {
+          continue;
+        }
+
+        originalLine += values[2]!;
+
+        if (!this.originalLines.has(generatedLine)) {
+          this.originalLines.set(generatedLine, originalLine);
+        }
+
+        if (!this.generatedLines.has(originalLine)) {
+          this.generatedLines.set(originalLine, generatedLine);
+        }
+      }
+    });
+  }
+
+  originalLine(generatedLine: number) {
+    return this.originalLines.get(generatedLine) ?? null;
+  }
+
+  /**
+   * The generated line of the first line from `originalLine` on that made it into the
+   * generated code, since lines like type declarations do not.
+   */
+  generatedLine(originalLine: number) {
+    const lines = [...this.generatedLines.keys()].filter((line) => line >= originalLine);
+
+    return lines.length > 0 ? this.generatedLines.get(Math.min(...lines))! : null;
+  }
+}
+
+/**
+ * The line map of an inline source map (a `data:` URL), or null for anything else.
+ */
+export function parseInlineSourceMap(url: string) {
+  const match = url.match(/^data:application\/json;(?:charset=[^;,]+;)?base64,(.*)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const sourceMap = JSON.parse(atob(match[1]!));
+    return typeof sourceMap.mappings === 'string' ? new LineMap(sourceMap.mappings) : null;
+  } catch {
+    return null;
+  }
+}
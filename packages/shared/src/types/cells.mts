@@ -5,6 +5,30 @@ import {
   MarkdownCellSchema,
   PackageJsonCellSchema,
   CodeCellSchema,
+  TestCellSchema,
+  TestResultSchema,
+  SqlCellSchema,
+  SqlConnectionSchema,
+  HttpCellSchema,
+  HttpResponseSchema,
+  ShellCellSchema,
+  FileCellSchema,
+  WidgetCellSchema,
+  WidgetControlSchema,
+  ExecLimitsSchema,
+  RuntimeSchema,
+  PermissionsSchema,
+  RuntimeAvailabilitySchema,
+  ParameterSchema,
+  ParameterValueSchema,
+  CellExecutionSchema,
+  CellDependencyGraphSchema,
+  DisplayDataSchema,
+  DisplayTableSchema,
+  ProfileSchema,
+  ProfileFrameSchema,
+  ProfileNodeSchema,
+  CellOutputSchema,
   PlaceholderCellSchema,
   CellSchema,
   CellWithPlaceholderSchema,
@@ -12,6 +36,8 @@ import {
   MarkdownCellUpdateAttrsSchema,
   PackageJsonCellUpdateAttrsSchema,
   CodeCellUpdateAttrsSchema,
+  SqlCellUpdateAttrsSchema,
+  WidgetCellUpdateAttrsSchema,
   CellUpdateAttrsSchema,
   SrcbookMetadataSchema,
 } from '../schemas/cells.mjs';
@@ -20,6 +46,30 @@ export type TitleCellType = z.infer<typeof TitleCellSchema>;
 export type MarkdownCellType = z.infer<typeof MarkdownCellSchema>;
 export type PackageJsonCellType = z.infer<typeof PackageJsonCellSchema>;
 export type CodeCellType = z.infer<typeof CodeCellSchema>;
+export type TestCellType = z.infer<typeof TestCellSchema>;
+export type TestResultType = z.infer<typeof TestResultSchema>;
+export type SqlCellType = z.infer<typeof SqlCellSchema>;
+export type SqlConnectionType = z.infer<typeof SqlConnectionSchema>;
+export type HttpCellType = z.infer<typeof HttpCellSchema>;
+export type HttpResponseType = z.infer<typeof HttpResponseSchema>;
+export type ShellCellType = z.infer<typeof ShellCellSchema>;
+export type FileCellType = z.infer<typeof FileCellSchema>;
+export type WidgetCellType = z.infer<typeof WidgetCellSchema>;
+export type WidgetControlType = z.infer<typeof WidgetControlSchema>;
+export type ExecLimitsType = z.infer<typeof ExecLimitsSchema>;
+export type RuntimeType = z.infer<typeof RuntimeSchema>;
+export type PermissionsType = z.infer<typeof PermissionsSchema>;
+export type RuntimeAvailabilityType = z.infer<typeof RuntimeAvailabilitySchema>;
+export type ParameterType = z.infer<typeof ParameterSchema>;
+export type ParameterValueType = z.infer<typeof ParameterValueSchema>;
+export type CellExecutionType = z.infer<typeof CellExecutionSchema>;
+export type CellDependencyGraphType = z.infer<typeof CellDependencyGraphSchema>;
+export type DisplayDataType = z.infer<typeof DisplayDataSchema>;
+export type DisplayTableType = z.infer<typeof DisplayTableSchema>;
+export type ProfileType = z.infer<typeof ProfileSchema>;
+export type ProfileFrameType = z.infer<typeof ProfileFrameSchema>;
+export type ProfileNodeType = z.infer<typeof ProfileNodeSchema>;
+export type CellOutputType = z.infer<typeof CellOutputSchema>;
 export type PlaceholderCellType = z.infer<typeof PlaceholderCellSchema>;
 
 export type CellType = z.infer<typeof CellSchema>;
@@ -29,6 +79,8 @@ export type TitleCellUpdateAttrsType = z.infer<typeof TitleCellUpdateAttrsSchema
 export type MarkdownCellUpdateAttrsType = z.infer<typeof MarkdownCellUpdateAttrsSchema>;
 export type PackageJsonCellUpdateAttrsType = z.infer<typeof PackageJsonCellUpdateAttrsSchema>;
 export type CodeCellUpdateAttrsType = z.infer<typeof CodeCellUpdateAttrsSchema>;
+export type SqlCellUpdateAttrsType = z.infer<typeof SqlCellUpdateAttrsSchema>;
+export type WidgetCellUpdateAttrsType = z.infer<typeof WidgetCellUpdateAttrsSchema>;
 export type CellUpdateAttrsType = z.infer<typeof CellUpdateAttrsSchema>;
 
 export type CellErrorType = {
@@ -2,7 +2,16 @@ import z from 'zod';
 
 import {
   CellExecPayloadSchema,
+  CellsExecScopeSchema,
+  CellsExecPayloadSchema,
+  CellsExecSummaryPayloadSchema,
+  CellExecutedPayloadSchema,
   CellStopPayloadSchema,
+  CellDebugPayloadSchema,
+  CellProfilePayloadSchema,
+  DebugMessagePayloadSchema,
+  DebugStatusPayloadSchema,
+  CellStdinPayloadSchema,
   CellCreatePayloadSchema,
   CellUpdatePayloadSchema,
   CellUpdatedPayloadSchema,
@@ -21,6 +30,17 @@ import {
   TsServerCellDiagnosticsPayloadSchema,
   TsConfigUpdatePayloadSchema,
   TsConfigUpdatedPayloadSchema,
+  LimitsUpdatePayloadSchema,
+  LimitsUpdatedPayloadSchema,
+  RuntimeUpdatePayloadSchema,
+  RuntimeUpdatedPayloadSchema,
+  ParametersUpdatePayloadSchema,
+  ParametersUpdatedPayloadSchema,
+  GraphUpdatedPayloadSchema,
+  ReactiveUpdatePayloadSchema,
+  ReactiveUpdatedPayloadSchema,
+  PermissionsUpdatePayloadSchema,
+  PermissionsUpdatedPayloadSchema,
   AiFixDiagnosticsPayloadSchema,
   TsServerCellSuggestionsPayloadSchema,
   TsServerQuickInfoRequestPayloadSchema,
@@ -29,10 +49,24 @@ import {
   TsServerDefinitionLocationRequestPayloadSchema,
   TsServerDefinitionLocationResponsePayloadSchema,
   TsServerCompletionEntriesPayloadSchema,
+  KernelStartPayloadSchema,
+  KernelStopPayloadSchema,
+  SessionStopPayloadSchema,
+  KernelRestartPayloadSchema,
+  KernelStatusPayloadSchema,
 } from '../schemas/websockets.mjs';
 
 export type CellExecPayloadType = z.infer<typeof CellExecPayloadSchema>;
+export type CellsExecScopeType = z.infer<typeof CellsExecScopeSchema>;
+export type CellsExecPayloadType = z.infer<typeof CellsExecPayloadSchema>;
+export type CellsExecSummaryPayloadType = z.infer<typeof CellsExecSummaryPayloadSchema>;
+export type CellExecutedPayloadType = z.infer<typeof CellExecutedPayloadSchema>;
 export type CellStopPayloadType = z.infer<typeof CellStopPayloadSchema>;
+export type CellDebugPayloadType = z.infer<typeof CellDebugPayloadSchema>;
+export type CellProfilePayloadType = z.infer<typeof CellProfilePayloadSchema>;
+export type DebugMessagePayloadType = z.infer<typeof DebugMessagePayloadSchema>;
+export type DebugStatusPayloadType = z.infer<typeof DebugStatusPayloadSchema>;
+export type CellStdinPayloadType = z.infer<typeof CellStdinPayloadSchema>;
 export type CellCreatePayloadType = z.infer<typeof CellCreatePayloadSchema>;
 export type CellUpdatePayloadType = z.infer<typeof CellUpdatePayloadSchema>;
 export type CellFormatPayloadType = z.infer<typeof CellFormatPayloadSchema>;
@@ -63,6 +97,18 @@ export type TsServerCellSuggestionsPayloadType = z.infer<
 export type TsConfigUpdatePayloadType = z.infer<typeof TsConfigUpdatePayloadSchema>;
 export type TsConfigUpdatedPayloadType = z.infer<typeof TsConfigUpdatedPayloadSchema>;
 
+export type LimitsUpdatePayloadType = z.infer<typeof LimitsUpdatePayloadSchema>;
+export type LimitsUpdatedPayloadType = z.infer<typeof LimitsUpdatedPayloadSchema>;
+export type RuntimeUpdatePayloadType = z.infer<typeof RuntimeUpdatePayloadSchema>;
+export type RuntimeUpdatedPayloadType = z.infer<typeof RuntimeUpdatedPayloadSchema>;
+export type ParametersUpdatePayloadType = z.infer<typeof ParametersUpdatePayloadSchema>;
+export type ParametersUpdatedPayloadType = z.infer<typeof ParametersUpdatedPayloadSchema>;
+export type GraphUpdatedPayloadType = z.infer<typeof GraphUpdatedPayloadSchema>;
+export type ReactiveUpdatePayloadType = z.infer<typeof ReactiveUpdatePayloadSchema>;
+export type ReactiveUpdatedPayloadType = z.infer<typeof ReactiveUpdatedPayloadSchema>;
+export type PermissionsUpdatePayloadType = z.infer<typeof PermissionsUpdatePayloadSchema>;
+export type PermissionsUpdatedPayloadType = z.infer<typeof PermissionsUpdatedPayloadSchema>;
+
 export type TsServerQuickInfoRequestPayloadType = z.infer<
   typeof TsServerQuickInfoRequestPayloadSchema
 >;
@@ -80,3 +126,9 @@ export type TsServerDefinitionLocationResponsePayloadType = z.infer<
 export type TsServerCompletionEntriesPayloadType = z.infer<
   typeof TsServerCompletionEntriesPayloadSchema
 >;
+
+export type KernelStartPayloadType = z.infer<typeof KernelStartPayloadSchema>;
+export type KernelStopPayloadType = z.infer<typeof KernelStopPayloadSchema>;
+export type SessionStopPayloadType = z.infer<typeof SessionStopPayloadSchema>;
+export type KernelRestartPayloadType = z.infer<typeof KernelRestartPayloadSchema>;
+export type KernelStatusPayloadType = z.infer<typeof KernelStatusPayloadSchema>;
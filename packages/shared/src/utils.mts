@@ -1,5 +1,5 @@
 import { base32hexnopad } from '@scure/base';
-import type { CodeLanguageType } from './types/cells.mjs';
+import type { CodeLanguageType, WidgetControlType } from './types/cells.mjs';
 import * as crypto from 'crypto';
 
 export function isBrowser(): boolean {
@@ -17,6 +17,129 @@ export function validFilename(filename: string) {
   return /^[a-zA-Z0-9_-]+\.(js|cjs|mjs|ts|cts|mts)$/.test(filename);
 }
 
+export function isSqlFile(filename: string) {
+  return /^[a-zA-Z0-9_-]+\.sql$/.test(filename);
+}
+
+export function isHttpFile(filename: string) {
+  return /^[a-zA-Z0-9_-]+\.http$/.test(filename);
+}
+
+export function isShellFile(filename: string) {
+  return /^[a-zA-Z0-9_-]+\.sh$/.test(filename);
+}
+
+// package.json is the srcbook's own, not a data file.
+export function isDataFile(filename: string) {
+  return filename !== 'package.json' && /^[a-zA-Z0-9_-]+\.(json|csv|yaml|yml|txt)$/.test(filename);
+}
+
+export type DataFileFormatType = 'json' | 'csv' | 'yaml' | 'text';
+
+export function dataFileFormat(filename: string): DataFileFormatType {
+  const extension = filename.slice(filename.lastIndexOf('.') + 1);
+
+  switch (extension) {
+    case 'json':
+    case 'csv':
+      return extension;
+    case 'yaml':
+    case 'yml':
+      return 'yaml';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Parse CSV text into its rows of fields, following RFC 4180: fields may be quoted to hold
+ * commas, newlines or quotes, the latter doubled.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // \r\n ends a single row.
+      if (char === '\r' && text[i + 1] === '\n') {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // The last row may not end with a newline.
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Problems with the controls of a widget cell beyond their shape: names used more than once
+ * and values out of their range or options.
+ */
+export function widgetControlErrors(controls: WidgetControlType[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const control of controls) {
+    if (names.has(control.name)) {
+      errors.push(`More than one control is named ${control.name}`);
+    }
+
+    names.add(control.name);
+
+    if (control.type === 'slider') {
+      if (control.min > control.max) {
+        errors.push(`The minimum of ${control.name} is greater than its maximum`);
+      } else if (control.value < control.min || control.value > control.max) {
+        errors.push(`${control.name} must be between ${control.min} and ${control.max}`);
+      }
+    }
+
+    if (control.type === 'select' && !control.options.includes(control.value)) {
+      errors.push(`${control.name} must be one of its options`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The file holding the results of a SQL cell, which code cells import, e.g. users.json for
+ * users.sql.
+ */
+export function sqlResultsFilename(filename: string) {
+  return filename.replace(/\.sql$/, '.json');
+}
+
 export function isJavaScriptFile(filename: string) {
   return /\.(js|cjs|mjs)$/.test(filename);
 }
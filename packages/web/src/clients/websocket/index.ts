@@ -9,6 +9,7 @@ import {
   DepsValidateResponsePayloadSchema,
   CellExecPayloadSchema,
   CellStopPayloadSchema,
+  CellStdinPayloadSchema,
   DepsInstallPayloadSchema,
   DepsValidatePayloadSchema,
   CellUpdatePayloadSchema,
@@ -27,6 +28,29 @@ import {
   TsServerDefinitionLocationResponsePayloadSchema,
   TsServerDefinitionLocationRequestPayloadSchema,
   TsServerCompletionEntriesPayloadSchema,
+  KernelStartPayloadSchema,
+  KernelStopPayloadSchema,
+  SessionStopPayloadSchema,
+  KernelRestartPayloadSchema,
+  KernelStatusPayloadSchema,
+  CellsExecPayloadSchema,
+  CellsExecSummaryPayloadSchema,
+  CellExecutedPayloadSchema,
+  LimitsUpdatePayloadSchema,
+  LimitsUpdatedPayloadSchema,
+  CellDebugPayloadSchema,
+  CellProfilePayloadSchema,
+  DebugMessagePayloadSchema,
+  DebugStatusPayloadSchema,
+  RuntimeUpdatePayloadSchema,
+  RuntimeUpdatedPayloadSchema,
+  ParametersUpdatePayloadSchema,
+  ParametersUpdatedPayloadSchema,
+  GraphUpdatedPayloadSchema,
+  ReactiveUpdatePayloadSchema,
+  ReactiveUpdatedPayloadSchema,
+  PermissionsUpdatePayloadSchema,
+  PermissionsUpdatedPayloadSchema,
 } from '@srcbook/shared';
 import Channel from '@/clients/websocket/channel';
 import WebSocketClient from '@/clients/websocket/client';
@@ -49,11 +73,24 @@ const IncomingSessionEvents = {
   'tsconfig.json:updated': TsConfigUpdatedPayloadSchema,
   'tsserver:cell:definition_location:response': TsServerDefinitionLocationResponsePayloadSchema,
   'tsserver:cell:completions:response': TsServerCompletionEntriesPayloadSchema,
+  'kernel:status': KernelStatusPayloadSchema,
+  'cells:exec:summary': CellsExecSummaryPayloadSchema,
+  'cell:executed': CellExecutedPayloadSchema,
+  'limits:updated': LimitsUpdatedPayloadSchema,
+  'runtime:updated': RuntimeUpdatedPayloadSchema,
+  'parameters:updated': ParametersUpdatedPayloadSchema,
+  'graph:updated': GraphUpdatedPayloadSchema,
+  'reactive:updated': ReactiveUpdatedPayloadSchema,
+  'permissions:updated': PermissionsUpdatedPayloadSchema,
+  'debug:status': DebugStatusPayloadSchema,
+  'debug:message': DebugMessagePayloadSchema,
 };
 
 const OutgoingSessionEvents = {
   'cell:exec': CellExecPayloadSchema,
+  'cells:exec': CellsExecPayloadSchema,
   'cell:stop': CellStopPayloadSchema,
+  'cell:stdin': CellStdinPayloadSchema,
   'cell:create': CellCreatePayloadSchema,
   'cell:update': CellUpdatePayloadSchema,
   'cell:rename': CellRenamePayloadSchema,
@@ -69,6 +106,18 @@ const OutgoingSessionEvents = {
   'tsconfig.json:update': TsConfigUpdatePayloadSchema,
   'tsserver:cell:definition_location:request': TsServerDefinitionLocationRequestPayloadSchema,
   'tsserver:cell:completions:request': TsServerQuickInfoRequestPayloadSchema,
+  'kernel:start': KernelStartPayloadSchema,
+  'kernel:stop': KernelStopPayloadSchema,
+  'kernel:restart': KernelRestartPayloadSchema,
+  'session:stop': SessionStopPayloadSchema,
+  'limits:update': LimitsUpdatePayloadSchema,
+  'runtime:update': RuntimeUpdatePayloadSchema,
+  'reactive:update': ReactiveUpdatePayloadSchema,
+  'permissions:update': PermissionsUpdatePayloadSchema,
+  'cell:debug': CellDebugPayloadSchema,
+  'cell:profile': CellProfilePayloadSchema,
+  'debug:send': DebugMessagePayloadSchema,
+  'parameters:update': ParametersUpdatePayloadSchema,
 };
 
 export class SessionChannel extends Channel<
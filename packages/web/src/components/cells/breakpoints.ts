@@ -0,0 +1,66 @@
+import {
+  Decoration,
+  EditorView,
+  Extension,
+  gutter,
+  GutterMarker,
+  RangeSet,
+} from '@uiw/react-codemirror';
+
+class BreakpointMarker extends GutterMarker {
+  toDOM() {
+    const dom = document.createElement('div');
+    dom.className = 'w-2 h-2 mt-1.5 rounded-full bg-sb-red-30';
+    return dom;
+  }
+}
+
+const breakpointMarker = new BreakpointMarker();
+
+class BreakpointSpacer extends GutterMarker {
+  toDOM() {
+    const dom = document.createElement('div');
+    dom.className = 'w-2';
+    return dom;
+  }
+}
+
+/**
+ * Gutter of the breakpoints of a cell, toggled by clicking next to a line.
+ * Lines are 1-based, like CodeMirror's.
+ */
+export function breakpointGutter(lines: number[], onToggle: (line: number) => void): Extension {
+  return gutter({
+    class: 'cursor-pointer px-1',
+    markers(view) {
+      const doc = view.state.doc;
+      const ranges = lines
+        .filter((line) => line <= doc.lines)
+        .map((line) => breakpointMarker.range(doc.line(line).from));
+
+      return RangeSet.of(ranges, true);
+    },
+    initialSpacer: () => new BreakpointSpacer(),
+    domEventHandlers: {
+      mousedown(view, block) {
+        onToggle(view.state.doc.lineAt(block.from).number);
+        return true;
+      },
+    },
+  });
+}
+
+const pausedLineDecoration = Decoration.line({ class: 'bg-sb-yellow-20 dark:bg-sb-yellow-80' });
+
+/** Highlights the line the debugger is paused on. */
+export function pausedLine(line: number | null): Extension {
+  return EditorView.decorations.of((view) => {
+    const doc = view.state.doc;
+
+    if (line === null || line > doc.lines) {
+      return Decoration.none;
+    }
+
+    return Decoration.set([pausedLineDecoration.range(doc.line(line).from)]);
+  });
+}
@@ -11,6 +11,8 @@ import {
   TsServerDiagnosticType,
 } from '@srcbook/shared';
 import { useSettings } from '@/components/use-settings';
+import { useExecutionHistory } from '@/components/use-execution-history';
+import { useDebugger } from '@/components/use-debugger';
 import CodeCell from '@srcbook/components/src/components/cells/code';
 import { SessionType } from '@/types';
 import { CellModeType } from '@srcbook/components/src/types';
@@ -24,6 +26,9 @@ import { autocompletion } from '@codemirror/autocomplete';
 import { type Diagnostic, linter } from '@codemirror/lint';
 import { javascript } from '@codemirror/lang-javascript';
 import { getCompletions } from '@/components/cells/get-completions';
+import { breakpointGutter, pausedLine } from '@/components/cells/breakpoints';
+import DebuggerPanel from '@/components/cells/debugger-panel';
+import { revealedLine } from '@/components/cells/reveal-line';
 import CodeMirror, {
   EditorState,
   EditorView,
@@ -137,6 +142,8 @@ export default function ControlledCodeCell(props: Props) {
   const [newSource, setNewSource] = useState('');
   const [fullscreen, setFullscreen] = useState(false);
   const { aiEnabled } = useSettings();
+  const { executionsForCell } = useExecutionHistory();
+  const debug = useDebugger();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalContent, setModalContent] = useState('');
@@ -169,6 +176,7 @@ export default function ControlledCodeCell(props: Props) {
     clearOutput,
     getTsServerDiagnostics,
     getTsServerSuggestions,
+    revealedLine: revealed,
   } = useCells();
 
   function setFilenameError(error: string | null) {
@@ -272,11 +280,14 @@ export default function ControlledCodeCell(props: Props) {
     });
   };
 
+  // Queued cells are about to run as well.
+  const busy = cell.status === 'running' || cell.status === 'queued';
+
   function runCell() {
     if (!channel) {
       return false;
     }
-    if (cell.status === 'running') {
+    if (busy) {
       return false;
     }
 
@@ -295,6 +306,33 @@ export default function ControlledCodeCell(props: Props) {
     }, DEBOUNCE_DELAY + 10);
   }
 
+  function debugCell() {
+    if (!channel || busy || debug.cellId !== null) {
+      return;
+    }
+
+    setShowStdio(true);
+
+    updateCellOnClient({ ...cell, status: 'running' });
+    clearOutput(cell.id);
+
+    // Same delay as runCell, for debounced updates to reach the server.
+    setTimeout(() => debug.debugCell(cell), DEBOUNCE_DELAY + 10);
+  }
+
+  function profileCell(heap: boolean) {
+    if (!channel || busy) {
+      return;
+    }
+
+    setShowStdio(true);
+
+    updateCellOnClient({ ...cell, status: 'running' });
+    clearOutput(cell.id);
+
+    setTimeout(() => channel.push('cell:profile', { cellId: cell.id, heap }), DEBOUNCE_DELAY + 10);
+  }
+
   function stopCell() {
     if (!channel) {
       return;
@@ -302,6 +340,13 @@ export default function ControlledCodeCell(props: Props) {
     channel.push('cell:stop', { cellId: cell.id });
   }
 
+  function writeStdin(data: string, eof?: boolean) {
+    if (!channel) {
+      return;
+    }
+    channel.push('cell:stdin', { cellId: cell.id, data, eof });
+  }
+
   function onRevertDiff() {
     setCellMode(generationType === 'edit' ? 'prompting' : 'off');
     setNewSource('');
@@ -403,6 +448,17 @@ export default function ControlledCodeCell(props: Props) {
     ),
   );
 
+  if (channel) {
+    extensions.push(
+      breakpointGutter(debug.breakpoints(cell.id), (line) => debug.toggleBreakpoint(cell.id, line)),
+      pausedLine(debug.pausedLine(cell.id)),
+    );
+  }
+
+  if (revealed && revealed.cellId === cell.id) {
+    extensions.push(revealedLine(revealed));
+  }
+
   const keys: Array<KeyBinding> = [];
   if (runCell) {
     keys.push({
@@ -457,7 +513,10 @@ export default function ControlledCodeCell(props: Props) {
           onGetDefinitionContents={onGetDefinitionContents}
           onRevert={onRevertDiff}
           onRunCell={runCell}
+          onDebugCell={debugCell}
+          onProfileCell={profileCell}
           onStopCell={stopCell}
+          onWriteStdin={writeStdin}
           onUpdateFileName={onUpdateFileName}
           prompt={prompt}
           session={props.session}
@@ -466,7 +525,9 @@ export default function ControlledCodeCell(props: Props) {
           fixDiagnostics={aiFixDiagnostics}
           editorExtensions={extensions}
           codeTheme={codeTheme}
+          executions={executionsForCell(cell.id)}
         />
+        {debug.cellId === cell.id && <DebuggerPanel />}
         <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
           <DialogContent className="w-[80vw] h-[80vh] max-w-none p-0 overflow-scroll">
             <CodeMirror
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  ChevronDown,
+  ChevronRight,
+  LoaderCircle,
+  Play,
+  Redo2,
+  Square,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+import { type RemoteObjectType, type PropertyType, useDebugger } from '@/components/use-debugger';
+
+function formatValue(object: RemoteObjectType | undefined) {
+  if (!object) {
+    return 'undefined';
+  }
+
+  switch (object.type) {
+    case 'undefined':
+      return 'undefined';
+    case 'string':
+      return JSON.stringify(object.value);
+    case 'number':
+    case 'bigint':
+      return object.unserializableValue ?? object.description ?? String(object.value);
+    case 'boolean':
+      return String(object.value);
+    case 'object':
+      return object.subtype === 'null' ? 'null' : (object.description ?? 'Object');
+    default:
+      return object.description ?? object.type;
+  }
+}
+
+function Variable(props: { name: string; value?: RemoteObjectType; defaultOpen?: boolean }) {
+  const { getProperties } = useDebugger();
+  const [open, setOpen] = useState(props.defaultOpen ?? false);
+  const [properties, setProperties] = useState<PropertyType[] | null>(null);
+
+  const objectId = props.value?.objectId;
+
+  const label = (
+    <>
+      <span className="text-tertiary-foreground">{props.name}:</span>
+      <span className="truncate">{formatValue(props.value)}</span>
+    </>
+  );
+
+  useEffect(() => {
+    if (open && objectId) {
+      getProperties(objectId)
+        .then(setProperties)
+        .catch(() => setProperties([]));
+    }
+  }, [open, objectId, getProperties]);
+
+  return (
+    <li>
+      {objectId ? (
+        <button
+          type="button"
+          className="w-full flex items-center gap-1 py-0.5 text-left"
+          aria-expanded={open}
+          onClick={() => setOpen(!open)}
+        >
+          {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          {label}
+        </button>
+      ) : (
+        <div className="flex items-center gap-1 py-0.5">
+          <span className="w-3" />
+          {label}
+        </div>
+      )}
+      {open && properties && (
+        <ul className="ml-4">
+          {properties.map((property) => (
+            <Variable key={property.name} name={property.name} value={property.value} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Controls, call stack, scopes and watch expressions of a cell being debugged.
+ */
+export default function DebuggerPanel() {
+  const {
+    status,
+    frames,
+    selectedFrame,
+    selectFrame,
+    watches,
+    addWatch,
+    removeWatch,
+    resume,
+    stepOver,
+    stepInto,
+    stepOut,
+    stop,
+  } = useDebugger();
+  const { cells } = useCells();
+  const [expression, setExpression] = useState('');
+
+  const paused = status === 'paused';
+  const frame = frames[selectedFrame];
+
+  function cellFilename(id: string | null) {
+    const cell = cells.find((cell) => cell.id === id);
+    return cell && cell.type === 'code' ? cell.filename : null;
+  }
+
+  return (
+    <div className="border rounded-md mt-2 text-xs font-mono">
+      <div className="p-1 flex items-center justify-between gap-2 border-b">
+        <span className="flex items-center gap-2 px-2 text-tertiary-foreground">
+          {paused ? (
+            'Paused'
+          ) : (
+            <>
+              <LoaderCircle size={14} className="animate-spin" />
+              {status === 'starting' ? 'Starting debugger' : 'Running'}
+            </>
+          )}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button variant="icon" size="icon" onClick={resume} disabled={!paused} title="Continue">
+            <Play size={16} />
+          </Button>
+          <Button
+            variant="icon"
+            size="icon"
+            onClick={stepOver}
+            disabled={!paused}
+            title="Step over"
+          >
+            <Redo2 size={16} />
+          </Button>
+          <Button
+            variant="icon"
+            size="icon"
+            onClick={stepInto}
+            disabled={!paused}
+            title="Step into"
+          >
+            <ArrowDownToLine size={16} />
+          </Button>
+          <Button variant="icon" size="icon" onClick={stepOut} disabled={!paused} title="Step out">
+            <ArrowUpFromLine size={16} />
+          </Button>
+          <Button variant="icon" size="icon" onClick={stop} title="Stop">
+            <Square size={16} />
+          </Button>
+        </div>
+      </div>
+      {paused && (
+        <div className="grid grid-cols-3 divide-x">
+          <div className="p-2 space-y-1">
+            <h5 className="font-sans font-medium">Call stack</h5>
+            <ul>
+              {frames.map((frame, idx) => (
+                <li key={frame.id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      'w-full px-1 py-0.5 rounded-sm text-left truncate',
+                      idx === selectedFrame && 'bg-muted',
+                    )}
+                    aria-current={idx === selectedFrame}
+                    onClick={() => selectFrame(idx)}
+                  >
+                    {frame.functionName || '(anonymous)'}{' '}
+                    <span className="text-tertiary-foreground">
+                      {cellFilename(frame.cellId) ?? frame.url.split('/').pop()}:{frame.line}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="p-2 space-y-1 max-h-80 overflow-auto">
+            <h5 className="font-sans font-medium">Scopes</h5>
+            <ul>
+              {frame?.scopes.map((scope, idx) => (
+                <Variable
+                  key={`${frame.id}-${idx}`}
+                  name={scope.name ? `${scope.type} (${scope.name})` : scope.type}
+                  value={scope.object}
+                  defaultOpen={scope.type === 'local'}
+                />
+              ))}
+            </ul>
+          </div>
+          <div className="p-2 space-y-1 max-h-80 overflow-auto">
+            <h5 className="font-sans font-medium">Watch</h5>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (expression.trim()) {
+                  addWatch(expression.trim());
+                  setExpression('');
+                }
+              }}
+            >
+              <Input
+                className="h-7 text-xs font-mono"
+                placeholder="Add expression"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+              />
+            </form>
+            <ul>
+              {watches.map((watch, idx) => (
+                <li key={idx} className="flex items-center justify-between gap-1 group/watch">
+                  {watch.error ? (
+                    <span className="py-0.5 truncate">
+                      <span className="text-tertiary-foreground">{watch.expression}:</span>{' '}
+                      <span className="text-sb-red-80">{watch.error}</span>
+                    </span>
+                  ) : (
+                    <ul className="min-w-0">
+                      <Variable name={watch.expression} value={watch.result} />
+                    </ul>
+                  )}
+                  <button
+                    className="hidden group-hover/watch:block text-tertiary-foreground"
+                    onClick={() => removeWatch(idx)}
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
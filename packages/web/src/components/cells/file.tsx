@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CellType,
+  CodeCellUpdateAttrsType,
+  DataFileFormatType,
+  DisplayTableType,
+  FileCellType,
+  dataFileFormat,
+  parseCsv,
+} from '@srcbook/shared';
+import CodeMirror from '@uiw/react-codemirror';
+import { json } from '@codemirror/lang-json';
+import { useDebouncedCallback } from 'use-debounce';
+import { Pencil, Table, Trash2 } from 'lucide-react';
+import { SessionChannel } from '@/clients/websocket';
+import { cn } from '@/lib/utils';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+import useTheme from '@srcbook/components/src/components/use-theme';
+import { DisplayOutput } from '@srcbook/components/src/components/display-output';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import DeleteCellWithConfirmation from '@srcbook/components/src/components/delete-cell-dialog';
+
+const DEBOUNCE_DELAY = 500;
+
+const FORMAT_LABELS: Record<DataFileFormatType, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  yaml: 'YAML',
+  text: 'Text',
+};
+
+type BaseProps = {
+  cell: FileCellType;
+};
+
+type RegularProps = BaseProps & {
+  readOnly?: false;
+  channel: SessionChannel;
+  updateCellOnServer: (cell: FileCellType, attrs: CodeCellUpdateAttrsType) => void;
+  onDeleteCell: (cell: CellType) => void;
+};
+type ReadOnlyProps = BaseProps & { readOnly: true };
+type Props = RegularProps | ReadOnlyProps;
+
+export default function FileCell(props: Props) {
+  const { readOnly, cell } = props;
+  const channel = !readOnly ? props.channel : null;
+
+  const { codeTheme } = useTheme();
+  const { updateCell: updateCellOnClient } = useCells();
+  const [filename, setFilename] = useState(cell.filename);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => setFilename(cell.filename), [cell.filename]);
+
+  const format = dataFileFormat(cell.filename);
+  const extensions = useMemo(() => (format === 'json' ? [json()] : []), [format]);
+
+  const updateCellOnServerDebounced = useDebouncedCallback(
+    (cell: FileCellType, attrs: CodeCellUpdateAttrsType) => {
+      if (!readOnly) {
+        props.updateCellOnServer(cell, attrs);
+      }
+    },
+    DEBOUNCE_DELAY,
+  );
+
+  function renameCell() {
+    if (!channel || filename === cell.filename) {
+      return;
+    }
+    updateCellOnClient({ ...cell, filename });
+    channel.push('cell:rename', { cellId: cell.id, filename });
+  }
+
+  return (
+    <div className="relative group/cell" id={`cell-${cell.id}`}>
+      <div
+        className={cn(
+          'border rounded-md group',
+          !readOnly && 'focus-within:ring-1 focus-within:ring-ring focus-within:border-ring',
+        )}
+      >
+        <div className="p-1 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            {readOnly ? (
+              <span className="w-[200px] font-mono font-semibold text-xs transition-colors px-2">
+                {cell.filename}
+              </span>
+            ) : (
+              <Input
+                required
+                value={filename}
+                onChange={(e) => setFilename(e.target.value)}
+                onBlur={renameCell}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-[200px] font-mono font-semibold text-xs transition-colors px-2 border-transparent hover:border-input group-hover:border-input"
+              />
+            )}
+            <span className="text-xs text-tertiary-foreground px-2">{FORMAT_LABELS[format]}</span>
+            {!readOnly && (
+              <DeleteCellWithConfirmation onDeleteCell={() => props.onDeleteCell(cell)}>
+                <Button className="hidden group-hover:flex" variant="icon" size="icon">
+                  <Trash2 size={16} />
+                </Button>
+              </DeleteCellWithConfirmation>
+            )}
+          </div>
+          {format === 'csv' && (
+            <Button
+              variant="secondary"
+              size="default-with-icon"
+              onClick={() => setShowPreview(!showPreview)}
+            >
+              {showPreview ? <Pencil size={16} /> : <Table size={16} />}
+              {showPreview ? 'Edit' : 'Preview'}
+            </Button>
+          )}
+        </div>
+
+        {format === 'csv' && showPreview ? (
+          <div className="border-t px-3 py-2">
+            <DisplayOutput data={{ 'application/vnd.srcbook.table+json': csvTable(cell.source) }} />
+          </div>
+        ) : (
+          <div id={cell.filename}>
+            <CodeMirror
+              value={cell.source}
+              theme={codeTheme}
+              extensions={extensions}
+              editable={!readOnly}
+              onChange={(source) => {
+                updateCellOnClient({ ...cell, source });
+                updateCellOnServerDebounced(cell, { source });
+              }}
+            />
+          </div>
+        )}
+
+        <p className="border-t px-3 py-2 text-xs text-tertiary-foreground">
+          Code cells can{' '}
+          {format === 'json' ? (
+            <>
+              import it:{' '}
+              <code className="font-mono">
+                import data from './{cell.filename}' with {'{'} type: 'json' {'}'};
+              </code>
+            </>
+          ) : (
+            <>
+              read it:{' '}
+              <code className="font-mono">fs.readFileSync('src/{cell.filename}', 'utf8')</code>
+            </>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// The first row of a CSV file holds the names of its columns.
+function csvTable(source: string): DisplayTableType {
+  const [columns = [], ...rows] = parseCsv(source);
+  return { columns, rows };
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { CellType, CodeCellUpdateAttrsType, HttpCellType } from '@srcbook/shared';
+import CodeMirror from '@uiw/react-codemirror';
+import { useDebouncedCallback } from 'use-debounce';
+import { Hourglass, LoaderCircle, Play, Trash2 } from 'lucide-react';
+import { SessionChannel } from '@/clients/websocket';
+import { cn } from '@/lib/utils';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+import useTheme from '@srcbook/components/src/components/use-theme';
+import { DisplayOutput } from '@srcbook/components/src/components/display-output';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import DeleteCellWithConfirmation from '@srcbook/components/src/components/delete-cell-dialog';
+
+const DEBOUNCE_DELAY = 500;
+
+const PLACEHOLDER = `GET https://api.example.com/users
+Authorization: Bearer {{API_TOKEN}}
+
+###
+
+POST https://api.example.com/users
+Content-Type: application/json
+
+{ "name": "Ada" }`;
+
+type BaseProps = {
+  cell: HttpCellType;
+};
+
+type RegularProps = BaseProps & {
+  readOnly?: false;
+  channel: SessionChannel;
+  updateCellOnServer: (cell: HttpCellType, attrs: CodeCellUpdateAttrsType) => void;
+  onDeleteCell: (cell: CellType) => void;
+};
+type ReadOnlyProps = BaseProps & { readOnly: true };
+type Props = RegularProps | ReadOnlyProps;
+
+export default function HttpCell(props: Props) {
+  const { readOnly, cell } = props;
+  const channel = !readOnly ? props.channel : null;
+
+  const { codeTheme } = useTheme();
+  const { updateCell: updateCellOnClient, clearOutput, getOutput } = useCells();
+  const [filename, setFilename] = useState(cell.filename);
+
+  useEffect(() => setFilename(cell.filename), [cell.filename]);
+
+  const updateCellOnServerDebounced = useDebouncedCallback(
+    (cell: HttpCellType, attrs: CodeCellUpdateAttrsType) => {
+      if (!readOnly) {
+        props.updateCellOnServer(cell, attrs);
+      }
+    },
+    DEBOUNCE_DELAY,
+  );
+
+  function runCell() {
+    if (!channel || cell.status !== 'idle') {
+      return;
+    }
+
+    // Update client side only. The server will know it's running from the 'cell:exec' event.
+    updateCellOnClient({ ...cell, status: 'running' });
+    clearOutput(cell.id);
+
+    // Add artificial delay to allow debounced updates to propagate
+    setTimeout(() => {
+      channel.push('cell:exec', { cellId: cell.id });
+    }, DEBOUNCE_DELAY + 10);
+  }
+
+  function stopCell() {
+    if (!channel) {
+      return;
+    }
+    channel.push('cell:stop', { cellId: cell.id });
+  }
+
+  function renameCell() {
+    if (!channel || filename === cell.filename) {
+      return;
+    }
+    updateCellOnClient({ ...cell, filename });
+    channel.push('cell:rename', { cellId: cell.id, filename });
+  }
+
+  const output = getOutput(cell.id);
+
+  return (
+    <div className="relative group/cell" id={`cell-${cell.id}`}>
+      <div
+        className={cn(
+          'border rounded-md group',
+          cell.status === 'running' && 'ring-1 ring-run-ring border-run-ring',
+          cell.status === 'queued' && 'border-dashed border-run-ring',
+          !readOnly &&
+            cell.status !== 'running' &&
+            'focus-within:ring-1 focus-within:ring-ring focus-within:border-ring',
+        )}
+      >
+        <div className="p-1 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            {readOnly ? (
+              <span className="w-[200px] font-mono font-semibold text-xs transition-colors px-2">
+                {cell.filename}
+              </span>
+            ) : (
+              <Input
+                required
+                value={filename}
+                onChange={(e) => setFilename(e.target.value)}
+                onBlur={renameCell}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-[200px] font-mono font-semibold text-xs transition-colors px-2 border-transparent hover:border-input group-hover:border-input"
+              />
+            )}
+            <span className="text-xs text-tertiary-foreground px-2">HTTP</span>
+            {!readOnly && (
+              <DeleteCellWithConfirmation onDeleteCell={() => props.onDeleteCell(cell)}>
+                <Button className="hidden group-hover:flex" variant="icon" size="icon">
+                  <Trash2 size={16} />
+                </Button>
+              </DeleteCellWithConfirmation>
+            )}
+          </div>
+          {!readOnly && (
+            <div
+              className={cn(
+                'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex gap-2',
+                cell.status !== 'idle' && 'opacity-100',
+              )}
+            >
+              {cell.status === 'running' && (
+                <Button variant="run" size="default-with-icon" onClick={stopCell}>
+                  <LoaderCircle size={16} className="animate-spin" /> Stop
+                </Button>
+              )}
+              {cell.status === 'queued' && (
+                <Button
+                  variant="secondary"
+                  size="default-with-icon"
+                  onClick={stopCell}
+                  title="Waiting for other cells to finish, click to cancel"
+                >
+                  <Hourglass size={16} /> Queued
+                </Button>
+              )}
+              {cell.status === 'idle' && (
+                <Button size="default-with-icon" onClick={runCell}>
+                  <Play size={16} />
+                  Send
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div id={cell.filename}>
+          <CodeMirror
+            value={cell.source}
+            theme={codeTheme}
+            editable={!readOnly}
+            placeholder={PLACEHOLDER}
+            onChange={(source) => {
+              updateCellOnClient({ ...cell, source });
+              updateCellOnServerDebounced(cell, { source });
+            }}
+          />
+        </div>
+
+        <p className="border-t px-3 py-2 text-xs text-tertiary-foreground">
+          <code className="font-mono">{'{{NAME}}'}</code> is replaced with the secret NAME
+          associated with this srcbook. Separate requests with{' '}
+          <code className="font-mono">###</code>.
+        </p>
+
+        {output.length > 0 && (
+          <div className="border-t px-3 py-2 space-y-2">
+            {output.map((o, idx) =>
+              o.type === 'display' ? (
+                <DisplayOutput key={idx} data={o.data} />
+              ) : (
+                <pre
+                  key={idx}
+                  className={cn(
+                    'font-mono text-xs whitespace-pre-wrap',
+                    o.type === 'stderr' && 'text-sb-red-80',
+                  )}
+                >
+                  {o.data}
+                </pre>
+              ),
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
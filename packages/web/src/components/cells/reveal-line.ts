@@ -0,0 +1,51 @@
+import { Decoration, EditorView, Extension, ViewPlugin } from '@uiw/react-codemirror';
+import type { RevealedLineType } from '@srcbook/components/src/components/use-cell';
+
+const revealedLineDecoration = Decoration.line({ class: 'bg-sb-red-10 dark:bg-sb-red-80' });
+
+// Extensions are rebuilt on every render of the cell, we only scroll once per reveal.
+const scrolled = new WeakSet<RevealedLineType>();
+
+/**
+ * Highlights a line of the cell, and on the first render moves the cursor to it and scrolls
+ * it into view, e.g. when clicking a frame of a stack trace in the output of a cell.
+ */
+export function revealedLine(revealed: RevealedLineType): Extension {
+  function position(view: EditorView) {
+    const doc = view.state.doc;
+
+    if (revealed.line > doc.lines) {
+      return null;
+    }
+
+    const line = doc.line(revealed.line);
+    const column = Math.max((revealed.column ?? 1) - 1, 0);
+
+    return { from: line.from, pos: Math.min(line.from + column, line.to) };
+  }
+
+  return [
+    EditorView.decorations.of((view) => {
+      const found = position(view);
+      return found ? Decoration.set([revealedLineDecoration.range(found.from)]) : Decoration.none;
+    }),
+    ViewPlugin.define((view) => {
+      const found = position(view);
+
+      if (found && !scrolled.has(revealed)) {
+        scrolled.add(revealed);
+
+        // Views cannot be updated while they are being configured.
+        requestAnimationFrame(() => {
+          view.dispatch({
+            selection: { anchor: found.pos },
+            effects: EditorView.scrollIntoView(found.pos, { y: 'center' }),
+          });
+          view.focus();
+        });
+      }
+
+      return {};
+    }),
+  ];
+}
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import {
+  CellType,
+  CodeCellUpdateAttrsType,
+  SqlCellType,
+  SqlCellUpdateAttrsType,
+  SqlConnectionType,
+  sqlResultsFilename,
+} from '@srcbook/shared';
+import CodeMirror from '@uiw/react-codemirror';
+import { useDebouncedCallback } from 'use-debounce';
+import { Hourglass, LoaderCircle, Play, Trash2 } from 'lucide-react';
+import { SessionChannel } from '@/clients/websocket';
+import { cn } from '@/lib/utils';
+import { getSecrets } from '@/lib/server';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+import useTheme from '@srcbook/components/src/components/use-theme';
+import { DisplayOutput } from '@srcbook/components/src/components/display-output';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import DeleteCellWithConfirmation from '@srcbook/components/src/components/delete-cell-dialog';
+
+const DEBOUNCE_DELAY = 500;
+
+type BaseProps = {
+  cell: SqlCellType;
+};
+
+type RegularProps = BaseProps & {
+  readOnly?: false;
+  sessionId: string;
+  channel: SessionChannel;
+  updateCellOnServer: (
+    cell: SqlCellType,
+    attrs: CodeCellUpdateAttrsType | SqlCellUpdateAttrsType,
+  ) => void;
+  onDeleteCell: (cell: CellType) => void;
+};
+type ReadOnlyProps = BaseProps & { readOnly: true };
+type Props = RegularProps | ReadOnlyProps;
+
+export default function SqlCell(props: Props) {
+  const { readOnly, cell } = props;
+  const channel = !readOnly ? props.channel : null;
+
+  const { codeTheme } = useTheme();
+  const { updateCell: updateCellOnClient, clearOutput, getOutput } = useCells();
+  const [filename, setFilename] = useState(cell.filename);
+
+  useEffect(() => setFilename(cell.filename), [cell.filename]);
+
+  const updateCellOnServerDebounced = useDebouncedCallback(
+    (cell: SqlCellType, attrs: CodeCellUpdateAttrsType) => {
+      if (!readOnly) {
+        props.updateCellOnServer(cell, attrs);
+      }
+    },
+    DEBOUNCE_DELAY,
+  );
+
+  function runCell() {
+    if (!channel || cell.status !== 'idle') {
+      return;
+    }
+
+    // Update client side only. The server will know it's running from the 'cell:exec' event.
+    updateCellOnClient({ ...cell, status: 'running' });
+    clearOutput(cell.id);
+
+    // Add artificial delay to allow debounced updates to propagate
+    setTimeout(() => {
+      channel.push('cell:exec', { cellId: cell.id });
+    }, DEBOUNCE_DELAY + 10);
+  }
+
+  function stopCell() {
+    if (!channel) {
+      return;
+    }
+    channel.push('cell:stop', { cellId: cell.id });
+  }
+
+  function renameCell() {
+    if (!channel || filename === cell.filename) {
+      return;
+    }
+    updateCellOnClient({ ...cell, filename });
+    channel.push('cell:rename', { cellId: cell.id, filename });
+  }
+
+  function updateConnection(connection: SqlConnectionType) {
+    if (readOnly) {
+      return;
+    }
+    updateCellOnClient({ ...cell, connection });
+    props.updateCellOnServer(cell, { connection });
+  }
+
+  const output = getOutput(cell.id);
+
+  return (
+    <div className="relative group/cell" id={`cell-${cell.id}`}>
+      <div
+        className={cn(
+          'border rounded-md group',
+          cell.status === 'running' && 'ring-1 ring-run-ring border-run-ring',
+          cell.status === 'queued' && 'border-dashed border-run-ring',
+          !readOnly &&
+            cell.status !== 'running' &&
+            'focus-within:ring-1 focus-within:ring-ring focus-within:border-ring',
+        )}
+      >
+        <div className="p-1 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            {readOnly ? (
+              <span className="w-[200px] font-mono font-semibold text-xs transition-colors px-2">
+                {cell.filename}
+              </span>
+            ) : (
+              <Input
+                required
+                value={filename}
+                onChange={(e) => setFilename(e.target.value)}
+                onBlur={renameCell}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-[200px] font-mono font-semibold text-xs transition-colors px-2 border-transparent hover:border-input group-hover:border-input"
+              />
+            )}
+            <span className="text-xs text-tertiary-foreground px-2">SQL</span>
+            {!readOnly && (
+              <DeleteCellWithConfirmation onDeleteCell={() => props.onDeleteCell(cell)}>
+                <Button className="hidden group-hover:flex" variant="icon" size="icon">
+                  <Trash2 size={16} />
+                </Button>
+              </DeleteCellWithConfirmation>
+            )}
+          </div>
+          {!readOnly && (
+            <div
+              className={cn(
+                'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex gap-2',
+                cell.status !== 'idle' && 'opacity-100',
+              )}
+            >
+              {cell.status === 'running' && (
+                <Button variant="run" size="default-with-icon" onClick={stopCell}>
+                  <LoaderCircle size={16} className="animate-spin" /> Stop
+                </Button>
+              )}
+              {cell.status === 'queued' && (
+                <Button
+                  variant="secondary"
+                  size="default-with-icon"
+                  onClick={stopCell}
+                  title="Waiting for other cells to finish, click to cancel"
+                >
+                  <Hourglass size={16} /> Queued
+                </Button>
+              )}
+              {cell.status === 'idle' && (
+                <Button size="default-with-icon" onClick={runCell}>
+                  <Play size={16} />
+                  Run
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-2 pb-2 flex items-center gap-2 text-xs">
+          <span className="text-tertiary-foreground">Database</span>
+          {readOnly ? (
+            <span className="font-mono">{connectionLabel(cell.connection)}</span>
+          ) : (
+            <ConnectionSelector
+              sessionId={props.sessionId}
+              connection={cell.connection}
+              onChange={updateConnection}
+            />
+          )}
+        </div>
+
+        <div id={cell.filename}>
+          <CodeMirror
+            value={cell.source}
+            theme={codeTheme}
+            editable={!readOnly}
+            onChange={(source) => {
+              updateCellOnClient({ ...cell, source });
+              updateCellOnServerDebounced(cell, { source });
+            }}
+          />
+        </div>
+
+        <p className="border-t px-3 py-2 text-xs text-tertiary-foreground">
+          Code cells can import the rows of the last run:{' '}
+          <code className="font-mono">
+            import rows from './{sqlResultsFilename(cell.filename)}' with {'{'} type: 'json' {'}'};
+          </code>
+        </p>
+
+        {output.length > 0 && (
+          <div className="border-t px-3 py-2 space-y-2">
+            {output.map((o, idx) =>
+              o.type === 'display' ? (
+                <DisplayOutput key={idx} data={o.data} />
+              ) : (
+                <pre
+                  key={idx}
+                  className={cn(
+                    'font-mono text-xs whitespace-pre-wrap',
+                    o.type === 'stderr' && 'text-sb-red-80',
+                  )}
+                >
+                  {o.data}
+                </pre>
+              ),
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function connectionLabel(connection: SqlConnectionType | undefined) {
+  if (!connection) {
+    return 'None';
+  }
+  return connection.type === 'file' ? connection.path : `Secret ${connection.name}`;
+}
+
+/**
+ * Pick the database of a SQL cell: a file in the srcbook's directory, or a secret holding
+ * the path of one kept elsewhere. Only secrets associated with the srcbook are offered.
+ */
+function ConnectionSelector(props: {
+  sessionId: string;
+  connection: SqlConnectionType | undefined;
+  onChange: (connection: SqlConnectionType) => void;
+}) {
+  const { sessionId, connection, onChange } = props;
+
+  const [type, setType] = useState<SqlConnectionType['type']>(connection?.type ?? 'file');
+  const [path, setPath] = useState(connection?.type === 'file' ? connection.path : '');
+  const [secrets, setSecrets] = useState<string[]>([]);
+
+  useEffect(() => {
+    getSecrets()
+      .then(({ result }) =>
+        setSecrets(
+          result.filter((s) => s.associatedWithSessionIds.includes(sessionId)).map((s) => s.name),
+        ),
+      )
+      .catch((err) => console.error('Error loading secrets', err));
+  }, [sessionId]);
+
+  function savePath() {
+    const trimmed = path.trim();
+    if (trimmed !== '' && !(connection?.type === 'file' && connection.path === trimmed)) {
+      onChange({ type: 'file', path: trimmed });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={type} onValueChange={(value) => setType(value as SqlConnectionType['type'])}>
+        <SelectTrigger className="h-7 w-[100px] text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="file">File</SelectItem>
+          <SelectItem value="secret">Secret</SelectItem>
+        </SelectContent>
+      </Select>
+      {type === 'file' ? (
+        <Input
+          value={path}
+          placeholder="data/app.db"
+          onChange={(e) => setPath(e.target.value)}
+          onBlur={savePath}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="h-7 w-[240px] font-mono text-xs"
+        />
+      ) : (
+        <Select
+          value={connection?.type === 'secret' ? connection.name : undefined}
+          onValueChange={(name) => onChange({ type: 'secret', name })}
+          disabled={secrets.length === 0}
+        >
+          <SelectTrigger className="h-7 w-[240px] font-mono text-xs">
+            <SelectValue
+              placeholder={
+                secrets.length === 0 ? 'No secrets associated with this srcbook' : 'Select a secret'
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {secrets.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
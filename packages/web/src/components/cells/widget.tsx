@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import {
+  CellErrorPayloadType,
+  CellType,
+  WidgetCellType,
+  WidgetCellUpdateAttrsSchema,
+  WidgetCellUpdateAttrsType,
+  WidgetControlType,
+  widgetControlErrors,
+} from '@srcbook/shared';
+import CodeMirror from '@uiw/react-codemirror';
+import { json } from '@codemirror/lang-json';
+import { useDebouncedCallback } from 'use-debounce';
+import { Check, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { SessionChannel } from '@/clients/websocket';
+import { cn } from '@/lib/utils';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+import useTheme from '@srcbook/components/src/components/use-theme';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import DeleteCellWithConfirmation from '@srcbook/components/src/components/delete-cell-dialog';
+
+const DEBOUNCE_DELAY = 500;
+
+// Shown when configuring a widget without controls, one of each kind.
+const EXAMPLE_CONTROLS: WidgetControlType[] = [
+  { name: 'SAMPLES', type: 'slider', min: 10, max: 1000, step: 10, value: 100 },
+  { name: 'SCALE', type: 'select', options: ['linear', 'log'], value: 'linear' },
+  { name: 'TITLE', label: 'Chart title', type: 'text', value: 'Latency' },
+  { name: 'SMOOTH', type: 'checkbox', value: false },
+];
+
+type BaseProps = {
+  cell: WidgetCellType;
+};
+
+type RegularProps = BaseProps & {
+  readOnly?: false;
+  channel: SessionChannel;
+  updateCellOnServer: (cell: WidgetCellType, attrs: WidgetCellUpdateAttrsType) => void;
+  onDeleteCell: (cell: CellType) => void;
+};
+type ReadOnlyProps = BaseProps & { readOnly: true };
+type Props = RegularProps | ReadOnlyProps;
+
+export default function WidgetCell(props: Props) {
+  const { readOnly, cell } = props;
+  const channel = !readOnly ? props.channel : null;
+
+  const { codeTheme } = useTheme();
+  const { updateCell: updateCellOnClient } = useCells();
+  const [configuring, setConfiguring] = useState(false);
+  const [config, setConfig] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateCellOnServerDebounced = useDebouncedCallback(
+    (cell: WidgetCellType, attrs: WidgetCellUpdateAttrsType) => {
+      if (!readOnly) {
+        props.updateCellOnServer(cell, attrs);
+      }
+    },
+    DEBOUNCE_DELAY,
+  );
+
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+
+    function callback(payload: CellErrorPayloadType) {
+      if (payload.cellId !== cell.id) {
+        return;
+      }
+
+      const controlsErrors = payload.errors.filter((e) => e.attribute === 'controls');
+
+      if (controlsErrors.length > 0) {
+        setErrors(controlsErrors.map((e) => e.message));
+      }
+    }
+
+    channel.on('cell:error', callback);
+
+    return () => channel.off('cell:error', callback);
+  }, [cell.id, channel]);
+
+  function updateControls(controls: WidgetControlType[]) {
+    setErrors([]);
+    updateCellOnClient({ ...cell, controls });
+    updateCellOnServerDebounced(cell, { controls });
+  }
+
+  function updateValue(name: string, value: WidgetControlType['value']) {
+    updateControls(
+      cell.controls.map((control) =>
+        control.name === name ? ({ ...control, value } as WidgetControlType) : control,
+      ),
+    );
+  }
+
+  function startConfiguring() {
+    const controls = cell.controls.length > 0 ? cell.controls : EXAMPLE_CONTROLS;
+    setConfig(JSON.stringify(controls, null, 2));
+    setErrors([]);
+    setConfiguring(true);
+  }
+
+  function saveConfig() {
+    let controls: unknown;
+
+    try {
+      controls = JSON.parse(config);
+    } catch (e) {
+      setErrors([`Invalid JSON: ${(e as Error).message}`]);
+      return;
+    }
+
+    const result = WidgetCellUpdateAttrsSchema.safeParse({ controls });
+
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map((issue) => {
+          // Drop the leading `controls` from paths like controls.0.value.
+          const path = issue.path.slice(1).join('.');
+          return path ? `${path}: ${issue.message}` : issue.message;
+        }),
+      );
+      return;
+    }
+
+    const controlErrors = widgetControlErrors(result.data.controls);
+
+    if (controlErrors.length > 0) {
+      setErrors(controlErrors);
+      return;
+    }
+
+    updateControls(result.data.controls);
+    setConfiguring(false);
+  }
+
+  return (
+    <div className="relative group/cell" id={`cell-${cell.id}`}>
+      <div
+        className={cn(
+          'border rounded-md group',
+          !readOnly && 'focus-within:ring-1 focus-within:ring-ring focus-within:border-ring',
+        )}
+      >
+        <div className="p-1 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            <span className="font-mono font-semibold text-xs px-2">{cell.name}</span>
+            <span className="text-xs text-tertiary-foreground px-2">Widget</span>
+            {!readOnly && (
+              <DeleteCellWithConfirmation onDeleteCell={() => props.onDeleteCell(cell)}>
+                <Button className="hidden group-hover:flex" variant="icon" size="icon">
+                  <Trash2 size={16} />
+                </Button>
+              </DeleteCellWithConfirmation>
+            )}
+          </div>
+          {!readOnly &&
+            (configuring ? (
+              <div className="flex items-center gap-1">
+                <Button variant="secondary" onClick={() => setConfiguring(false)}>
+                  Cancel
+                </Button>
+                <Button size="default-with-icon" onClick={saveConfig}>
+                  <Check size={16} />
+                  Save
+                </Button>
+              </div>
+            ) : (
+              <Button variant="secondary" size="default-with-icon" onClick={startConfiguring}>
+                <SlidersHorizontal size={16} />
+                Configure
+              </Button>
+            ))}
+        </div>
+
+        {configuring ? (
+          <div className="border-t">
+            <CodeMirror
+              value={config}
+              theme={codeTheme}
+              extensions={[json()]}
+              onChange={(config) => setConfig(config)}
+            />
+          </div>
+        ) : cell.controls.length > 0 ? (
+          <div className="border-t px-3 py-3 grid gap-3">
+            {cell.controls.map((control) => (
+              <WidgetControl
+                key={control.name}
+                cellId={cell.id}
+                control={control}
+                readOnly={readOnly}
+                onChange={(value) => updateValue(control.name, value)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="border-t px-3 py-2 text-sm text-tertiary-foreground">
+            No controls yet. Configure sliders, selects, text fields and checkboxes as JSON.
+          </p>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="border-t px-3 py-2 font-mono text-xs text-sb-red-80">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {cell.controls.length > 0 && (
+          <p className="border-t px-3 py-2 text-xs text-tertiary-foreground">
+            Code cells read the values from the environment:{' '}
+            <code className="font-mono">process.env.{cell.controls[0]?.name}</code>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function WidgetControl({
+  cellId,
+  control,
+  readOnly,
+  onChange,
+}: {
+  cellId: string;
+  control: WidgetControlType;
+  readOnly?: boolean;
+  onChange: (value: WidgetControlType['value']) => void;
+}) {
+  const id = `widget-${cellId}-${control.name}`;
+  const label = control.label ?? control.name;
+
+  switch (control.type) {
+    case 'slider':
+      return (
+        <label htmlFor={id} className="flex items-center gap-3 text-xs">
+          <span className="w-40 truncate font-mono font-semibold">{label}</span>
+          <input
+            id={id}
+            type="range"
+            className="flex-1 accent-foreground"
+            disabled={readOnly}
+            min={control.min}
+            max={control.max}
+            step={control.step ?? 1}
+            value={control.value}
+            onChange={(e) => onChange(Number(e.target.value))}
+          />
+          <span className="w-16 text-right font-mono">{control.value}</span>
+        </label>
+      );
+    case 'select':
+      return (
+        <div className="flex items-center gap-3 text-xs">
+          <span className="w-40 truncate font-mono font-semibold">{label}</span>
+          <Select disabled={readOnly} value={control.value} onValueChange={onChange}>
+            <SelectTrigger id={id} className="h-7 w-[200px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {control.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case 'text':
+      return (
+        <label htmlFor={id} className="flex items-center gap-3 text-xs">
+          <span className="w-40 truncate font-mono font-semibold">{label}</span>
+          <Input
+            id={id}
+            className="h-7 flex-1 text-xs"
+            disabled={readOnly}
+            value={control.value}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </label>
+      );
+    case 'checkbox':
+      return (
+        <label htmlFor={id} className="flex items-center gap-3 text-xs cursor-pointer">
+          <span className="w-40 truncate font-mono font-semibold">{label}</span>
+          <Switch id={id} disabled={readOnly} checked={control.value} onCheckedChange={onChange} />
+        </label>
+      );
+  }
+}
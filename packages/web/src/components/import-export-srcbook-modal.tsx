@@ -22,6 +22,7 @@ import { showSaveFilePicker } from '@/lib/file-system-access';
 import { Input } from '@srcbook/components/src/components/ui/input';
 import { Textarea } from '@srcbook/components/src/components/ui/textarea';
 import { Button } from '@srcbook/components/src/components/ui/button';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
 import SrcMdUploadDropZone from '@/components/srcmd-upload-drop-zone';
 import {
   Dialog,
@@ -276,6 +277,7 @@ export function ExportSrcbookModal({
   session: SessionType;
 }) {
   const [activeTab, setActiveTab] = useState<'file' | 'text'>('file');
+  const [includeOutputs, setIncludeOutputs] = useState(false);
 
   const clipboardTextareaRef = useRef<HTMLTextAreaElement | null>(null);
 
@@ -295,7 +297,7 @@ export function ExportSrcbookModal({
 
       let text;
       try {
-        text = await exportSrcmdText(session.id);
+        text = await exportSrcmdText(session.id, { outputs: includeOutputs });
       } catch (error) {
         console.error('Error export srcbook as text:', error);
         setSrcbookText({ status: 'error' });
@@ -305,7 +307,7 @@ export function ExportSrcbookModal({
       setSrcbookText({ status: 'complete', text });
     };
     run();
-  }, [open, session.id]);
+  }, [open, session.id, includeOutputs]);
 
   // When changing tabs, focus the inputs on each tab
   useEffect(() => {
@@ -427,6 +429,18 @@ export function ExportSrcbookModal({
             </TabsList>
           </div>
 
+          <label
+            htmlFor="export-include-outputs"
+            className="flex items-center justify-between mb-4 text-sm cursor-pointer"
+          >
+            Include the last output of each code cell
+            <Switch
+              id="export-include-outputs"
+              checked={includeOutputs}
+              onCheckedChange={setIncludeOutputs}
+            />
+          </label>
+
           <TabsContent className="mt-0" value="file">
             <div className="flex flex-col gap-4 w-full items-center justify-center h-[160px] border border-dashed rounded-md cursor-default">
               <div className="flex flex-col items-center gap-2 text-tertiary-foreground">
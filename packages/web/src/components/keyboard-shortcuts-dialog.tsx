@@ -42,6 +42,10 @@ export default function KeyboardShortcutsDialog({
               <ShortcutRow keys={['mod', 'enter']} description="send current message to the AI" />
               {!readOnly ? (
                 <>
+                  <h5 className="font-semibold pt-6 pb-2">Running cells</h5>
+                  <ShortcutRow keys={['mod', 'shift', '↵']} description="run all cells" />
+                  <ShortcutRow keys={['mod', 'alt', '↑']} description="run cells above this cell" />
+                  <ShortcutRow keys={['mod', 'alt', '↓']} description="run this cell and below" />
                   <h5 className="font-semibold pt-6 pb-2">Markdown edit</h5>
                   <ShortcutRow keys={['esc']} description="switch back to preview mode" />
                   <ShortcutRow keys={['mod', '↵']} description="switch back to preview mode" />
@@ -8,8 +8,14 @@ import {
   TrashIcon,
   ShareIcon,
   ExternalLinkIcon,
+  PlayIcon,
+  ArrowUpToLineIcon,
+  ArrowDownToLineIcon,
+  WorkflowIcon,
+  NetworkIcon,
+  SquareIcon,
 } from 'lucide-react';
-import { TitleCellType } from '@srcbook/shared';
+import { CellsExecScopeType, TitleCellType } from '@srcbook/shared';
 
 import { SessionType } from '@/types';
 import { SrcbookLogo } from '@/components/logos';
@@ -22,6 +28,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@srcbook/components/src/components/ui/dropdown-menu';
 import { createSession, createSrcbook } from '@/lib/server';
@@ -57,6 +64,15 @@ type SessionNavbarProps = {
   srcbooks: Array<SessionType>;
   title: string;
   baseDir: string;
+  runCells?: (scope: CellsExecScopeType) => void;
+  // Stop every process running for the session.
+  stopAll?: () => void;
+  // Whether cells are currently being run in sequence.
+  runningCells?: boolean;
+  // Whether there is a focused cell to run the cells above or below of.
+  canRunRelativeToCell?: boolean;
+  // Whether the focused cell is a code cell, whose dependencies and dependents can be run with it.
+  canRunUpstream?: boolean;
 };
 
 export function SessionNavbar(props: SessionNavbarProps) {
@@ -215,6 +231,15 @@ export function SessionNavbar(props: SessionNavbarProps) {
           <LightDarkModeDebugChanger />
 
           <div className="flex items-center gap-2">
+            {!props.readOnly && props.runCells && props.stopAll ? (
+              <RunCellsMenu
+                runCells={props.runCells}
+                stopAll={props.stopAll}
+                running={props.runningCells ?? false}
+                canRunRelativeToCell={props.canRunRelativeToCell ?? false}
+                canRunUpstream={props.canRunUpstream ?? false}
+              />
+            ) : null}
             {!props.readOnly ? (
               <TooltipProvider>
                 <Tooltip>
@@ -249,6 +274,77 @@ export function SessionNavbar(props: SessionNavbarProps) {
   );
 }
 
+function RunCellsMenu(props: {
+  runCells: (scope: CellsExecScopeType) => void;
+  stopAll: () => void;
+  running: boolean;
+  canRunRelativeToCell: boolean;
+  canRunUpstream: boolean;
+}) {
+  const { runCells, stopAll, running, canRunRelativeToCell, canRunUpstream } = props;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="secondary" className="active:translate-y-0">
+          <div className="flex items-center gap-2">
+            <PlayIcon size={16} />
+            {running ? 'Running...' : 'Run'}
+            <ChevronDownIcon size={12} />
+          </div>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuItem
+          onClick={() => runCells('all')}
+          disabled={running}
+          className="cursor-pointer"
+        >
+          <PlayIcon className="mr-2 h-4 w-4" />
+          <span>Run all cells</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => runCells('above')}
+          disabled={running || !canRunRelativeToCell}
+          className="cursor-pointer"
+        >
+          <ArrowUpToLineIcon className="mr-2 h-4 w-4" />
+          <span>Run cells above</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => runCells('below')}
+          disabled={running || !canRunRelativeToCell}
+          className="cursor-pointer"
+        >
+          <ArrowDownToLineIcon className="mr-2 h-4 w-4" />
+          <span>Run this cell and below</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => runCells('upstream')}
+          disabled={running || !canRunUpstream}
+          className="cursor-pointer"
+        >
+          <WorkflowIcon className="mr-2 h-4 w-4" />
+          <span>Run with dependencies</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => runCells('downstream')}
+          disabled={running || !canRunUpstream}
+          className="cursor-pointer"
+        >
+          <NetworkIcon className="mr-2 h-4 w-4" />
+          <span>Run with dependents</span>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={stopAll} className="cursor-pointer">
+          <SquareIcon className="mr-2 h-4 w-4" />
+          <span>Stop all</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 function SocialGithubIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" width="19" height="19" fill="none" viewBox="0 0 19 19">
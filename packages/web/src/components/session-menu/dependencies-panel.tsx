@@ -0,0 +1,155 @@
+import type { CellDependencyGraphType } from '@srcbook/shared';
+import { useDependencyGraph } from '@/components/use-dependency-graph';
+
+const NODE_WIDTH = 120;
+const NODE_HEIGHT = 28;
+const COLUMN_GAP = 16;
+const ROW_GAP = 40;
+
+type NodeType = CellDependencyGraphType['cells'][number];
+
+/**
+ * Rows of the diagram: cells importing nothing come first, then each cell goes one row below
+ * the lowest cell it imports. Cells keep their srcbook order within a row.
+ */
+function layoutRows(graph: CellDependencyGraphType) {
+  const depths = new Map<string, number>();
+
+  function depth(node: NodeType, visiting: Set<string>): number {
+    const known = depths.get(node.cellId);
+    if (known !== undefined) {
+      return known;
+    }
+
+    // Circular imports put the cell back on the row of the cell it was reached from.
+    if (visiting.has(node.cellId)) {
+      return -1;
+    }
+
+    visiting.add(node.cellId);
+
+    const imported = graph.cells.filter((other) => node.imports.includes(other.cellId));
+    const result = Math.max(-1, ...imported.map((other) => depth(other, visiting))) + 1;
+
+    visiting.delete(node.cellId);
+    depths.set(node.cellId, result);
+
+    return result;
+  }
+
+  const rows: NodeType[][] = [];
+
+  for (const node of graph.cells) {
+    const row = depth(node, new Set());
+    rows[row] = [...(rows[row] ?? []), node];
+  }
+
+  return rows.filter((row) => row !== undefined);
+}
+
+export default function SessionMenuPanelDependencies() {
+  const { graph } = useDependencyGraph();
+
+  const rows = layoutRows(graph);
+  const columns = Math.max(1, ...rows.map((row) => row.length));
+  const width = columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = rows.length * NODE_HEIGHT + Math.max(0, rows.length - 1) * ROW_GAP;
+
+  const positions = new Map<string, { x: number; y: number }>();
+  rows.forEach((row, rowIdx) => {
+    row.forEach((node, columnIdx) => {
+      positions.set(node.cellId, {
+        x: columnIdx * (NODE_WIDTH + COLUMN_GAP),
+        y: rowIdx * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  return (
+    <>
+      <h4 className="text-lg font-semibold leading-tight mb-2">Dependencies</h4>
+      <p className="text-sm text-tertiary-foreground mb-6">
+        Code cells and the cells they import. Arrows point from a cell to the cells it imports.
+      </p>
+
+      {graph.cells.length === 0 ? (
+        <p className="text-sm text-tertiary-foreground">There are no code cells yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <svg width={width} height={height} className="overflow-visible">
+            <defs>
+              <marker
+                id="dependency-arrow"
+                viewBox="0 0 10 10"
+                refX="10"
+                refY="5"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" className="fill-tertiary-foreground" />
+              </marker>
+            </defs>
+
+            {graph.cells.flatMap((node) =>
+              node.imports.map((importedId) => {
+                const from = positions.get(node.cellId)!;
+                const to = positions.get(importedId)!;
+                const x1 = from.x + NODE_WIDTH / 2;
+                const y1 = from.y;
+                const x2 = to.x + NODE_WIDTH / 2;
+                const y2 = to.y + NODE_HEIGHT;
+                const bend = Math.max(ROW_GAP / 2, Math.abs(y1 - y2) / 2);
+
+                return (
+                  <path
+                    key={`${node.cellId}-${importedId}`}
+                    d={`M ${x1} ${y1} C ${x1} ${y1 - bend}, ${x2} ${y2 + bend}, ${x2} ${y2}`}
+                    fill="none"
+                    strokeWidth={1}
+                    className="stroke-tertiary-foreground"
+                    markerEnd="url(#dependency-arrow)"
+                  />
+                );
+              }),
+            )}
+
+            {graph.cells.map((node) => {
+              const { x, y } = positions.get(node.cellId)!;
+
+              return (
+                <g
+                  key={node.cellId}
+                  transform={`translate(${x}, ${y})`}
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document
+                      .getElementById(`cell-${node.cellId}`)
+                      ?.scrollIntoView({ behavior: 'smooth' })
+                  }
+                >
+                  <title>{node.filename}</title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={4}
+                    className="fill-background stroke-border hover:stroke-foreground"
+                  />
+                  <text
+                    x={NODE_WIDTH / 2}
+                    y={NODE_HEIGHT / 2}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    className="fill-foreground font-mono text-xs"
+                  >
+                    {node.filename.length > 16 ? `${node.filename.slice(0, 15)}…` : node.filename}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+    </>
+  );
+}
@@ -10,6 +10,7 @@ import {
   PackageIcon,
   SettingsIcon,
   KeySquareIcon,
+  WorkflowIcon,
   XIcon,
 } from 'lucide-react';
 import type { SessionType } from '@/types';
@@ -27,6 +28,7 @@ import SessionMenuPanelTableOfContents from './table-of-contents-panel';
 import SessionMenuPanelPackages from './packages-panel';
 import SessionMenuPanelSettings from './settings-panel';
 import SessionMenuPanelSecrets from './secrets-panel';
+import SessionMenuPanelDependencies from './dependencies-panel';
 
 export type SessionMenuPanelContentsProps = {
   readOnly: boolean;
@@ -44,6 +46,14 @@ export const SESSION_MENU_PANELS = [
     tooltipContent: 'Table of contents',
     showInReadOnly: true,
   },
+  {
+    name: 'dependencies' as const,
+    icon: WorkflowIcon,
+    openWidthInPx: 480,
+    contents: () => <SessionMenuPanelDependencies />,
+    tooltipContent: 'Cell dependencies',
+    showInReadOnly: true,
+  },
   {
     name: 'packages' as const,
     icon: PackageIcon,
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { OutputType } from '@srcbook/components/src/types';
 import {
+  Hourglass,
   Info,
   LoaderCircle,
   Play,
@@ -38,8 +39,17 @@ function PackageJson({
   openDepsInstallModal: (() => void) | null;
 }) {
   const { codeTheme } = useTheme();
-  const { source, onChangeSource, validationError, npmInstall, installing, output, failed } =
-    usePackageJson();
+  const {
+    source,
+    onChangeSource,
+    validationError,
+    npmInstall,
+    cancelInstall,
+    installing,
+    queued,
+    output,
+    failed,
+  } = usePackageJson();
 
   const [open, setOpen] = useState(true);
 
@@ -80,7 +90,17 @@ function PackageJson({
           <Button variant="secondary" onClick={openDepsInstallModal}>
             Add package
           </Button>
-          {installing ? (
+          {queued ? (
+            <Button
+              variant="secondary"
+              size="default-with-icon"
+              onClick={cancelInstall}
+              title="Waiting for other cells to finish, click to cancel"
+            >
+              <Hourglass size={16} />
+              Queued
+            </Button>
+          ) : installing ? (
             <Button variant="run" size="default-with-icon" disabled>
               <LoaderCircle size={16} className="animate-spin" />
               Installing
@@ -1,7 +1,22 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { TitleCellType, TsConfigUpdatedPayloadType } from '@srcbook/shared';
-import { X, Info } from 'lucide-react';
+import type {
+  CodeCellType,
+  ExecLimitsType,
+  LimitsUpdatedPayloadType,
+  ParameterType,
+  ParameterValueType,
+  ParametersUpdatedPayloadType,
+  PermissionsType,
+  PermissionsUpdatedPayloadType,
+  RuntimeAvailabilityType,
+  RuntimeType,
+  RuntimeUpdatedPayloadType,
+  ReactiveUpdatedPayloadType,
+  TitleCellType,
+  TsConfigUpdatedPayloadType,
+} from '@srcbook/shared';
+import { X, Info, RotateCcw } from 'lucide-react';
 import CodeMirror from '@uiw/react-codemirror';
 import { json } from '@codemirror/lang-json';
 
@@ -12,6 +27,18 @@ import useTheme from '@srcbook/components/src/components/use-theme';
 import { SessionChannel } from '@/clients/websocket';
 import { useTsconfigJson } from '@/components/use-tsconfig-json';
 import { useCells } from '@srcbook/components/src/components/use-cell';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import { useKernel } from '@/components/use-kernel';
+import { loadRuntimes } from '@/lib/server';
 
 import type { SessionMenuPanelContentsProps } from '.';
 
@@ -59,19 +86,656 @@ export default function SessionMenuPanelSettings({ readOnly, session, channel }:
           </p>
         </div>
       )}
-      {/* TOOD: Add more settings or handle this in a better way */}
-      {session.language === 'javascript' && (
-        <p className="text-tertiary-foreground text-lg mt-5">No additional settings</p>
-      )}
-      {session.language === 'typescript' && (
-        <div className="text-foreground mt-2 space-y-6">
+      <div className="text-foreground mt-2 space-y-6">
+        {session.parameters && session.parameters.length > 0 && (
+          <Parameters
+            readOnly={readOnly}
+            session={session}
+            parameters={session.parameters}
+            channel={channel}
+          />
+        )}
+        <Runtime readOnly={readOnly} session={session} channel={channel} />
+        <Kernel readOnly={readOnly} />
+        <Reactive readOnly={readOnly} session={session} channel={channel} />
+        <Permissions readOnly={readOnly} session={session} channel={channel} />
+        <Limits readOnly={readOnly} session={session} channel={channel} />
+        {session.language === 'typescript' && (
           <TsconfigJson readOnly={readOnly} channel={channel} />
-        </div>
-      )}
+        )}
+      </div>
     </>
   );
 }
 
+function Parameters({
+  readOnly,
+  session,
+  parameters,
+  channel,
+}: {
+  readOnly?: boolean;
+  session: SessionMenuPanelContentsProps['session'];
+  parameters: ParameterType[];
+  channel: SessionChannel | null;
+}) {
+  const [open, setOpen] = useState(true);
+  const [values, setValues] = useState<Record<string, ParameterValueType>>(
+    session.parameterValues ?? {},
+  );
+
+  useEffect(() => {
+    if (!channel) return;
+    const callback = (payload: ParametersUpdatedPayloadType) => setValues(payload.values);
+
+    channel.on('parameters:updated', callback);
+
+    return () => channel.off('parameters:updated', callback);
+  }, [channel]);
+
+  function updateValue(name: string, value: ParameterValueType | undefined) {
+    if (!channel) return;
+    const updated = { ...values };
+    if (value === undefined) {
+      delete updated[name];
+    } else {
+      updated[name] = value;
+    }
+    setValues(updated);
+    channel.push('parameters:update', { values: updated });
+  }
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Parameters">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Set the inputs of this Srcbook before running it. Cells read them from{' '}
+          <code>process.env</code>. Leave a field empty to use its default.
+        </p>
+        {parameters.map((parameter) => (
+          <ParameterInput
+            key={parameter.name}
+            readOnly={readOnly}
+            parameter={parameter}
+            value={values[parameter.name]}
+            onCommit={(value) => updateValue(parameter.name, value)}
+          />
+        ))}
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+function ParameterInput({
+  readOnly,
+  parameter,
+  value,
+  onCommit,
+}: {
+  readOnly?: boolean;
+  parameter: ParameterType;
+  value: ParameterValueType | undefined;
+  onCommit: (value: ParameterValueType | undefined) => void;
+}) {
+  const id = `parameter-${parameter.name}`;
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  if (parameter.type === 'boolean') {
+    return (
+      <label htmlFor={id} className="flex items-center justify-between cursor-pointer">
+        <span className="font-mono text-xs font-semibold">{parameter.name}</span>
+        <Switch
+          id={id}
+          disabled={readOnly}
+          checked={(value ?? parameter.default) === true}
+          onCheckedChange={onCommit}
+        />
+      </label>
+    );
+  }
+
+  function commit() {
+    if (text === '') {
+      if (value !== undefined) onCommit(undefined);
+      return;
+    }
+
+    const parsed = parameter.type === 'number' ? Number(text) : text;
+
+    if (typeof parsed === 'number' && !Number.isFinite(parsed)) {
+      setText(value === undefined ? '' : String(value));
+      return;
+    }
+
+    if (parsed !== value) onCommit(parsed);
+  }
+
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-xs text-tertiary-foreground">
+      <span className="font-mono font-semibold text-foreground">{parameter.name}</span>
+      <Input
+        id={id}
+        type={parameter.type === 'number' ? 'number' : 'text'}
+        disabled={readOnly}
+        value={text}
+        placeholder={parameter.default === undefined ? 'No default' : String(parameter.default)}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+      />
+    </label>
+  );
+}
+
+const RUNTIME_NAMES: Record<RuntimeType, string> = {
+  node: 'Node.js',
+  tsx: 'tsx',
+  bun: 'Bun',
+  deno: 'Deno',
+};
+
+function Runtime({
+  readOnly,
+  session,
+  channel,
+}: {
+  readOnly?: boolean;
+  session: SessionMenuPanelContentsProps['session'];
+  channel: SessionChannel | null;
+}) {
+  const [open, setOpen] = useState(false);
+  const [runtime, setRuntime] = useState<RuntimeType | null>(session.runtime ?? null);
+  const [runtimes, setRuntimes] = useState<RuntimeAvailabilityType[]>([]);
+
+  const defaultRuntime: RuntimeType = session.language === 'typescript' ? 'tsx' : 'node';
+
+  // Detect installed runtimes every time the section is opened, they may have changed since.
+  useEffect(() => {
+    if (!open) return;
+    loadRuntimes(session.id)
+      .then(({ error, result }) => {
+        if (!error) setRuntimes(result);
+      })
+      .catch((error) => console.error('Failed to detect runtimes:', error));
+  }, [open, session.id]);
+
+  useEffect(() => {
+    if (!channel) return;
+    const callback = (payload: RuntimeUpdatedPayloadType) => setRuntime(payload.runtime);
+
+    channel.on('runtime:updated', callback);
+
+    return () => channel.off('runtime:updated', callback);
+  }, [channel]);
+
+  function updateRuntime(value: RuntimeType) {
+    if (!channel) return;
+    // Picking the default keeps the srcbook free of a runtime setting.
+    const runtime = value === defaultRuntime ? null : value;
+    setRuntime(runtime);
+    channel.push('runtime:update', { runtime });
+  }
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Runtime">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Run code cells with another runtime installed on this machine, e.g. to compare how they
+          perform. The kernel always runs on {RUNTIME_NAMES[defaultRuntime]}.
+        </p>
+        <Select disabled={readOnly} value={runtime ?? defaultRuntime} onValueChange={updateRuntime}>
+          <SelectTrigger id="runtime-selector">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RUNTIME_NAMES) as RuntimeType[]).map((name) => {
+              const detected = runtimes.find((r) => r.runtime === name);
+              const unsupported = name === 'node' && session.language === 'typescript';
+
+              return (
+                <SelectItem
+                  key={name}
+                  value={name}
+                  disabled={unsupported || detected?.available === false}
+                >
+                  {RUNTIME_NAMES[name]}
+                  {name === defaultRuntime && ' (default)'}
+                  <span className="ml-2 text-tertiary-foreground">
+                    {unsupported
+                      ? 'JavaScript only'
+                      : detected && (detected.available ? detected.version : 'not installed')}
+                  </span>
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+function Kernel({ readOnly }: { readOnly?: boolean }) {
+  const { enabled, running, start, stop, restart } = useKernel();
+  const [open, setOpen] = useState(true);
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Kernel">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Run cells in a long-lived process so they can share in-memory state. Importing another
+          cell gives you the values from its last run instead of running it again.
+        </p>
+        <label
+          htmlFor="kernel-enabled"
+          className="flex items-center justify-between cursor-pointer"
+        >
+          Use a persistent kernel
+          <Switch
+            id="kernel-enabled"
+            disabled={readOnly}
+            checked={enabled}
+            onCheckedChange={(checked) => (checked ? start() : stop())}
+          />
+        </label>
+        {enabled && (
+          <div className="flex items-center justify-between">
+            <p className="text-tertiary-foreground">{running ? 'Running' : 'Not running'}</p>
+            <Button
+              variant="secondary"
+              className="flex items-center gap-1.5"
+              disabled={readOnly}
+              onClick={restart}
+            >
+              <RotateCcw size={14} />
+              Restart kernel
+            </Button>
+          </div>
+        )}
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+function Reactive({
+  readOnly,
+  session,
+  channel,
+}: {
+  readOnly?: boolean;
+  session: SessionMenuPanelContentsProps['session'];
+  channel: SessionChannel | null;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reactive, setReactive] = useState(session.reactive === true);
+
+  useEffect(() => {
+    if (!channel) return;
+    const callback = (payload: ReactiveUpdatedPayloadType) => setReactive(payload.reactive);
+
+    channel.on('reactive:updated', callback);
+
+    return () => channel.off('reactive:updated', callback);
+  }, [channel]);
+
+  function updateReactive(checked: boolean) {
+    if (!channel) return;
+    setReactive(checked);
+    channel.push('reactive:update', { reactive: checked });
+  }
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Reactive mode">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Re-run the cells importing a cell after it runs successfully, so their output keeps up
+          with your changes. Otherwise they are marked as stale until you run them.
+        </p>
+        <label
+          htmlFor="reactive-enabled"
+          className="flex items-center justify-between cursor-pointer"
+        >
+          Re-run dependent cells
+          <Switch
+            id="reactive-enabled"
+            disabled={readOnly}
+            checked={reactive}
+            onCheckedChange={updateReactive}
+          />
+        </label>
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+const DEFAULT_PERMISSIONS: PermissionsType = {
+  fsRead: [],
+  fsWrite: [],
+  childProcess: false,
+  worker: false,
+  env: [],
+};
+
+function Permissions({
+  readOnly,
+  session,
+  channel,
+}: {
+  readOnly?: boolean;
+  session: SessionMenuPanelContentsProps['session'];
+  channel: SessionChannel | null;
+}) {
+  const [open, setOpen] = useState(false);
+  const [permissions, setPermissions] = useState<PermissionsType | null>(
+    session.permissions ?? null,
+  );
+
+  useEffect(() => {
+    if (!channel) return;
+    const callback = (payload: PermissionsUpdatedPayloadType) =>
+      setPermissions(payload.permissions);
+
+    channel.on('permissions:updated', callback);
+
+    return () => channel.off('permissions:updated', callback);
+  }, [channel]);
+
+  function updatePermissions(permissions: PermissionsType | null) {
+    if (!channel) return;
+    setPermissions(permissions);
+    channel.push('permissions:update', { permissions });
+  }
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Permissions">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Run code cells sandboxed with the Node.js permission model. Cells can read the
+          srcbook&apos;s directory and get its secrets and parameters, but nothing else unless
+          allowed below. Relative paths start at the srcbook&apos;s directory. Changing permissions
+          stops the kernel. Test, shell and SQL cells and the Bun runtime are not supported.
+        </p>
+        <label htmlFor="permissions-enabled" className="flex items-center justify-between">
+          Sandbox cells
+          <Switch
+            id="permissions-enabled"
+            disabled={readOnly}
+            checked={permissions !== null}
+            onCheckedChange={(checked) => updatePermissions(checked ? DEFAULT_PERMISSIONS : null)}
+          />
+        </label>
+        {permissions && (
+          <>
+            <ListInput
+              id="permissions-fs-read"
+              label="Readable paths"
+              readOnly={readOnly}
+              values={permissions.fsRead}
+              placeholder="e.g. /usr/share/dict, data"
+              onCommit={(fsRead) => updatePermissions({ ...permissions, fsRead })}
+            />
+            <ListInput
+              id="permissions-fs-write"
+              label="Writable paths"
+              readOnly={readOnly}
+              values={permissions.fsWrite}
+              placeholder="e.g. output"
+              onCommit={(fsWrite) => updatePermissions({ ...permissions, fsWrite })}
+            />
+            <ListInput
+              id="permissions-env"
+              label="Environment variables"
+              readOnly={readOnly}
+              values={permissions.env}
+              placeholder="e.g. HOME, LANG"
+              onCommit={(env) => updatePermissions({ ...permissions, env })}
+            />
+            <label
+              htmlFor="permissions-child-process"
+              className="flex items-center justify-between"
+            >
+              Start child processes
+              <Switch
+                id="permissions-child-process"
+                disabled={readOnly}
+                checked={permissions.childProcess}
+                onCheckedChange={(childProcess) =>
+                  updatePermissions({ ...permissions, childProcess })
+                }
+              />
+            </label>
+            <label htmlFor="permissions-worker" className="flex items-center justify-between">
+              Start worker threads
+              <Switch
+                id="permissions-worker"
+                disabled={readOnly}
+                checked={permissions.worker}
+                onCheckedChange={(worker) => updatePermissions({ ...permissions, worker })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+// A comma-separated list of values, committed when the input loses focus.
+function ListInput({
+  id,
+  label,
+  readOnly,
+  values,
+  placeholder,
+  onCommit,
+}: {
+  id: string;
+  label: string;
+  readOnly?: boolean;
+  values: string[];
+  placeholder: string;
+  onCommit: (values: string[]) => void;
+}) {
+  const [text, setText] = useState(values.join(', '));
+
+  useEffect(() => {
+    setText(values.join(', '));
+  }, [values]);
+
+  function commit() {
+    const parsed = text
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value !== '');
+
+    if (parsed.join(',') !== values.join(',')) onCommit(parsed);
+  }
+
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-xs text-tertiary-foreground">
+      {label}
+      <Input
+        id={id}
+        disabled={readOnly}
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+      />
+    </label>
+  );
+}
+
+// How each limit is shown in the UI: the unit it is entered in and how many
+// of the stored unit (ms, MB, bytes) that is.
+const LIMIT_FIELDS: { key: keyof ExecLimitsType; label: string; unit: string; scale: number }[] = [
+  { key: 'timeout', label: 'Timeout', unit: 'seconds', scale: 1000 },
+  { key: 'memory', label: 'Memory', unit: 'MB', scale: 1 },
+  { key: 'output', label: 'Output', unit: 'KB', scale: 1024 },
+];
+
+function Limits({
+  readOnly,
+  session,
+  channel,
+}: {
+  readOnly?: boolean;
+  session: SessionMenuPanelContentsProps['session'];
+  channel: SessionChannel | null;
+}) {
+  const { cells } = useCells();
+  const [open, setOpen] = useState(false);
+  const [limits, setLimits] = useState<ExecLimitsType>(session.limits ?? {});
+
+  useEffect(() => {
+    if (!channel) return;
+    const callback = (payload: LimitsUpdatedPayloadType) => setLimits(payload.limits);
+
+    channel.on('limits:updated', callback);
+
+    return () => channel.off('limits:updated', callback);
+  }, [channel]);
+
+  function updateLimits(limits: ExecLimitsType, cellId?: string) {
+    if (!channel) return;
+    if (!cellId) setLimits(limits);
+    channel.push('limits:update', { cellId, limits });
+  }
+
+  const codeCells = cells.filter((cell) => cell.type === 'code') as CodeCellType[];
+
+  return (
+    <CollapsibleContainer open={open} onChangeOpen={setOpen} title="Limits">
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        <p className="text-tertiary-foreground">
+          Stop cells that run too long, use too much memory or print too much output. Leave a field
+          empty for no limit. Memory limits apply to the kernel the next time it starts.
+        </p>
+        <LimitFields
+          id="srcbook"
+          readOnly={readOnly}
+          limits={limits}
+          onChange={(limits) => updateLimits(limits)}
+        />
+        {codeCells.length > 0 && (
+          <>
+            <h5 className="font-medium pt-2">Cell overrides</h5>
+            {codeCells.map((cell) => (
+              <div key={cell.id} className="space-y-2">
+                <p className="font-mono text-xs font-semibold">{cell.filename}</p>
+                <LimitFields
+                  id={cell.id}
+                  readOnly={readOnly}
+                  limits={cell.limits ?? {}}
+                  defaults={limits}
+                  onChange={(limits) => updateLimits(limits, cell.id)}
+                />
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </CollapsibleContainer>
+  );
+}
+
+function LimitFields({
+  id,
+  readOnly,
+  limits,
+  defaults,
+  onChange,
+}: {
+  id: string;
+  readOnly?: boolean;
+  limits: ExecLimitsType;
+  defaults?: ExecLimitsType;
+  onChange: (limits: ExecLimitsType) => void;
+}) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {LIMIT_FIELDS.map(({ key, label, unit, scale }) => (
+        <LimitInput
+          key={key}
+          id={`limit-${id}-${key}`}
+          label={`${label} (${unit})`}
+          readOnly={readOnly}
+          value={limits[key] === undefined ? undefined : limits[key] / scale}
+          placeholder={defaults?.[key] === undefined ? 'None' : String(defaults[key] / scale)}
+          onCommit={(value) => {
+            const updated = { ...limits };
+            if (value === undefined) {
+              delete updated[key];
+            } else {
+              updated[key] = Math.max(1, Math.round(value * scale));
+            }
+            onChange(updated);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function LimitInput({
+  id,
+  label,
+  readOnly,
+  value,
+  placeholder,
+  onCommit,
+}: {
+  id: string;
+  label: string;
+  readOnly?: boolean;
+  value: number | undefined;
+  placeholder: string;
+  onCommit: (value: number | undefined) => void;
+}) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  function commit() {
+    const trimmed = text.trim();
+
+    if (trimmed === '') {
+      if (value !== undefined) onCommit(undefined);
+      return;
+    }
+
+    const parsed = Number(trimmed);
+
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setText(value === undefined ? '' : String(value));
+      return;
+    }
+
+    if (parsed !== value) onCommit(parsed);
+  }
+
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-xs text-tertiary-foreground">
+      {label}
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        disabled={readOnly}
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+      />
+    </label>
+  );
+}
+
 function TsconfigJson({
   readOnly,
   channel,
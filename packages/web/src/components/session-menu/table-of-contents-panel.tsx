@@ -1,5 +1,15 @@
 import { marked, type Tokens } from 'marked';
-import { CodeCellType, MarkdownCellType, TitleCellType } from '@srcbook/shared';
+import {
+  CodeCellType,
+  FileCellType,
+  HttpCellType,
+  MarkdownCellType,
+  ShellCellType,
+  SqlCellType,
+  TestCellType,
+  TitleCellType,
+  WidgetCellType,
+} from '@srcbook/shared';
 import { Circle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCells } from '@srcbook/components/src/components/use-cell';
@@ -9,8 +19,28 @@ type PropsType = Record<string, never>;
 export default function SessionMenuPanelTableOfContents(_props: PropsType) {
   const { cells: allCells } = useCells();
   const cells = allCells.filter((cell) => {
-    return cell.type === 'title' || cell.type === 'markdown' || cell.type === 'code';
-  }) as Array<TitleCellType | CodeCellType | MarkdownCellType>;
+    return (
+      cell.type === 'title' ||
+      cell.type === 'markdown' ||
+      cell.type === 'code' ||
+      cell.type === 'test' ||
+      cell.type === 'sql' ||
+      cell.type === 'http' ||
+      cell.type === 'shell' ||
+      cell.type === 'file' ||
+      cell.type === 'widget'
+    );
+  }) as Array<
+    | TitleCellType
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | FileCellType
+    | WidgetCellType
+    | MarkdownCellType
+  >;
 
   return (
     <>
@@ -18,7 +48,13 @@ export default function SessionMenuPanelTableOfContents(_props: PropsType) {
 
       <div className="max-w-60 text-tertiary-foreground pr-10">
         {cells.map((cell) => {
-          const isRunningCell = cell.type === 'code' && cell.status === 'running';
+          const isRunningCell =
+            (cell.type === 'code' ||
+              cell.type === 'test' ||
+              cell.type === 'sql' ||
+              cell.type === 'http' ||
+              cell.type === 'shell') &&
+            cell.status === 'running';
           return (
             <div
               key={cell.id}
@@ -44,11 +80,31 @@ export default function SessionMenuPanelTableOfContents(_props: PropsType) {
   );
 }
 
-const tocFromCell = (cell: TitleCellType | CodeCellType | MarkdownCellType) => {
+const tocFromCell = (
+  cell:
+    | TitleCellType
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | FileCellType
+    | WidgetCellType
+    | MarkdownCellType,
+) => {
   if (cell.type === 'title') {
     return cell.text;
-  } else if (cell.type === 'code') {
+  } else if (
+    cell.type === 'code' ||
+    cell.type === 'test' ||
+    cell.type === 'sql' ||
+    cell.type === 'http' ||
+    cell.type === 'shell' ||
+    cell.type === 'file'
+  ) {
     return cell.filename;
+  } else if (cell.type === 'widget') {
+    return cell.name;
   } else if (cell.type === 'markdown') {
     const tokens = marked.lexer(cell.text);
     const heading = tokens.find((token) => token.type === 'heading') as Tokens.Heading | undefined;
@@ -0,0 +1,607 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import {
+  LineMap,
+  parseInlineSourceMap,
+  type CodeCellType,
+  type CodeLanguageType,
+  type DebugMessagePayloadType,
+  type DebugStatusPayloadType,
+} from '@srcbook/shared';
+import { SessionChannel } from '@/clients/websocket';
+import { useCells } from '@srcbook/components/src/components/use-cell';
+
+// The parts of the Chrome DevTools Protocol types used here.
+// See https://chromedevtools.github.io/devtools-protocol/v8/
+
+export type RemoteObjectType = {
+  type: string;
+  subtype?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+};
+
+export type PropertyType = {
+  name: string;
+  value?: RemoteObjectType;
+};
+
+export type ScopeType = {
+  type: string;
+  name?: string;
+  object: RemoteObjectType;
+};
+
+type CallFrameType = {
+  callFrameId: string;
+  functionName: string;
+  url: string;
+  location: { scriptId: string; lineNumber: number };
+  scopeChain: ScopeType[];
+};
+
+type ScriptParsedParamsType = {
+  scriptId: string;
+  url: string;
+  sourceMapURL?: string;
+};
+
+type PausedParamsType = {
+  reason: string;
+  callFrames: CallFrameType[];
+  // Set for instrumentation pauses, to the script about to run.
+  data?: { scriptId?: string };
+};
+
+type EvaluateResultType = {
+  result?: RemoteObjectType;
+  exceptionDetails?: { text: string };
+};
+
+// A response to a command when it has an id, an event otherwise.
+type ProtocolMessageType = {
+  id?: number;
+  result?: unknown;
+  error?: { message: string };
+  method?: string;
+  params?: unknown;
+};
+
+export type FrameType = {
+  id: string;
+  functionName: string;
+  // The cell the frame is in, or null for code outside of the srcbook's cells.
+  cellId: string | null;
+  url: string;
+  // 1-based, in the source of the cell when the frame is in one.
+  line: number;
+  scopes: ScopeType[];
+};
+
+export type WatchType = {
+  expression: string;
+  result?: RemoteObjectType;
+  error?: string;
+};
+
+export type DebugStatusType = 'starting' | 'running' | 'paused';
+
+export interface DebuggerContextValue {
+  // The cell being debugged, if any.
+  cellId: string | null;
+  status: DebugStatusType | null;
+  // The call stack while paused, innermost frame first.
+  frames: FrameType[];
+  selectedFrame: number;
+  selectFrame: (index: number) => void;
+  watches: WatchType[];
+  addWatch: (expression: string) => void;
+  removeWatch: (index: number) => void;
+  // 1-based lines of the breakpoints of a cell.
+  breakpoints: (cellId: string) => number[];
+  toggleBreakpoint: (cellId: string, line: number) => void;
+  // The 1-based line the debugger is paused on in a cell, if any.
+  pausedLine: (cellId: string) => number | null;
+  debugCell: (cell: CodeCellType) => void;
+  resume: () => void;
+  stepOver: () => void;
+  stepInto: () => void;
+  stepOut: () => void;
+  stop: () => void;
+  getProperties: (objectId: string) => Promise<PropertyType[]>;
+}
+
+const DebuggerContext = createContext<DebuggerContextValue | undefined>(undefined);
+
+type ScriptType = {
+  cellId: string;
+  // Set when the runtime compiled the cell, like tsx does for TypeScript.
+  lineMap: LineMap | null;
+};
+
+// The inspector of the cell being debugged.
+type TargetType = {
+  cellId: string;
+  seq: number;
+  pending: Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>;
+  // Scripts of cells the runtime parsed, by script id.
+  scripts: Map<string, ScriptType>;
+  // `${cellId}:${line}` -> id of the breakpoint in the inspector.
+  breakpointIds: Map<string, string>;
+};
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function cellUrlRegex(cell: CodeCellType) {
+  return `[/\\\\]src[/\\\\]${escapeRegExp(cell.filename)}$`;
+}
+
+type ProviderPropsType = {
+  language: CodeLanguageType;
+  channel: SessionChannel;
+  children: React.ReactNode;
+};
+
+/**
+ * An interface for debugging code cells.
+ *
+ * The server starts the cell under the node inspector and relays the Chrome DevTools Protocol
+ * both ways. Everything else happens here: setting breakpoints, stepping, reading scopes and
+ * evaluating watch expressions.
+ *
+ * TypeScript cells run compiled. Their breakpoints are set once the runtime has parsed them,
+ * using the source map of the compiled code.
+ */
+export function DebuggerProvider({ language, channel, children }: ProviderPropsType) {
+  const { cells } = useCells();
+
+  const [cellId, setCellId] = useState<string | null>(null);
+  const [status, setStatus] = useState<DebugStatusType | null>(null);
+  const [frames, setFrames] = useState<FrameType[]>([]);
+  const [selectedFrame, setSelectedFrame] = useState(0);
+  const [watches, setWatches] = useState<WatchType[]>([]);
+  const [allBreakpoints, setAllBreakpoints] = useState<Record<string, number[]>>({});
+
+  const targetRef = useRef<TargetType | null>(null);
+
+  // Event handlers are registered once and read the latest values through these.
+  const cellsRef = useRef(cells);
+  const breakpointsRef = useRef(allBreakpoints);
+  const watchesRef = useRef(watches);
+  const framesRef = useRef(frames);
+
+  cellsRef.current = cells;
+  breakpointsRef.current = allBreakpoints;
+  watchesRef.current = watches;
+  framesRef.current = frames;
+
+  const send = useCallback(
+    <T = unknown,>(method: string, params: object = {}): Promise<T> => {
+      const target = targetRef.current;
+
+      if (!target) {
+        return Promise.reject(new Error('No cell is being debugged.'));
+      }
+
+      const id = ++target.seq;
+
+      channel.push('debug:send', {
+        cellId: target.cellId,
+        message: JSON.stringify({ id, method, params }),
+      });
+
+      return new Promise<T>((resolve, reject) =>
+        target.pending.set(id, { resolve: (result) => resolve(result as T), reject }),
+      );
+    },
+    [channel],
+  );
+
+  const reset = useCallback(() => {
+    const target = targetRef.current;
+
+    if (target) {
+      for (const { reject } of target.pending.values()) {
+        reject(new Error('The debugger detached.'));
+      }
+    }
+
+    targetRef.current = null;
+    setCellId(null);
+    setStatus(null);
+    setFrames([]);
+    setSelectedFrame(0);
+  }, []);
+
+  function codeCell(id: string) {
+    return cellsRef.current.find((cell) => cell.id === id && cell.type === 'code') as
+      | CodeCellType
+      | undefined;
+  }
+
+  const setBreakpoint = useCallback(
+    async (id: string, line: number) => {
+      const target = targetRef.current;
+      const cell = codeCell(id);
+
+      if (!target || !cell) {
+        return;
+      }
+
+      const script = [...target.scripts.entries()].find(([, script]) => script.cellId === id);
+      let response: { breakpointId: string };
+
+      try {
+        if (script) {
+          const [scriptId, { lineMap }] = script;
+          const lineNumber = lineMap ? lineMap.generatedLine(line - 1) : line - 1;
+
+          if (lineNumber === null) {
+            return;
+          }
+
+          response = await send<{ breakpointId: string }>('Debugger.setBreakpoint', {
+            location: { scriptId, lineNumber },
+          });
+        } else if (language === 'javascript') {
+          response = await send<{ breakpointId: string }>('Debugger.setBreakpointByUrl', {
+            urlRegex: cellUrlRegex(cell),
+            lineNumber: line - 1,
+          });
+        } else {
+          // Set once the cell is parsed, see the instrumentation pause in `onPaused`.
+          return;
+        }
+      } catch (error) {
+        console.error(error);
+        return;
+      }
+
+      target.breakpointIds.set(`${id}:${line}`, response.breakpointId);
+    },
+    [language, send],
+  );
+
+  const removeBreakpoint = useCallback(
+    (id: string, line: number) => {
+      const target = targetRef.current;
+      const breakpointId = target?.breakpointIds.get(`${id}:${line}`);
+
+      if (!target || !breakpointId) {
+        return;
+      }
+
+      target.breakpointIds.delete(`${id}:${line}`);
+      send('Debugger.removeBreakpoint', { breakpointId }).catch(console.error);
+    },
+    [send],
+  );
+
+  const evaluateWatches = useCallback(
+    async (watches: WatchType[], frame: FrameType | undefined) => {
+      if (!frame) {
+        setWatches(watches.map(({ expression }) => ({ expression })));
+        return;
+      }
+
+      const evaluated = await Promise.all(
+        watches.map(async ({ expression }): Promise<WatchType> => {
+          try {
+            const { result, exceptionDetails } = await send<EvaluateResultType>(
+              'Debugger.evaluateOnCallFrame',
+              {
+                callFrameId: frame.id,
+                expression,
+                silent: true,
+              },
+            );
+
+            return exceptionDetails
+              ? { expression, error: result?.description ?? exceptionDetails.text }
+              : { expression, result };
+          } catch (error) {
+            return { expression, error: (error as Error).message };
+          }
+        }),
+      );
+
+      setWatches(evaluated);
+    },
+    [send],
+  );
+
+  const start = useCallback(
+    async (target: TargetType) => {
+      const cell = codeCell(target.cellId);
+
+      if (!cell) {
+        return;
+      }
+
+      await send('Runtime.enable');
+      await send('Debugger.enable');
+
+      if (language === 'typescript') {
+        await send('Debugger.setInstrumentationBreakpoint', {
+          instrumentation: 'beforeScriptWithSourceMapExecution',
+        });
+      }
+
+      for (const [id, lines] of Object.entries(breakpointsRef.current)) {
+        for (const line of lines) {
+          await setBreakpoint(id, line);
+        }
+      }
+
+      // Without breakpoints of its own, the cell pauses on its first line.
+      if ((breakpointsRef.current[cell.id] ?? []).length === 0) {
+        await send('Debugger.setBreakpointByUrl', { urlRegex: cellUrlRegex(cell), lineNumber: 0 });
+      }
+
+      await send('Runtime.runIfWaitingForDebugger');
+      setStatus('running');
+    },
+    [language, send, setBreakpoint],
+  );
+
+  const toFrame = useCallback((frame: CallFrameType): FrameType => {
+    const script = targetRef.current?.scripts.get(frame.location.scriptId);
+    const lineNumber = frame.location.lineNumber;
+    const line = script?.lineMap ? script.lineMap.originalLine(lineNumber) : lineNumber;
+
+    return {
+      id: frame.callFrameId,
+      functionName: frame.functionName,
+      cellId: script?.cellId ?? null,
+      url: frame.url,
+      line: (line ?? lineNumber) + 1,
+      scopes: frame.scopeChain,
+    };
+  }, []);
+
+  const onPaused = useCallback(
+    async (params: PausedParamsType) => {
+      // The runtime is about to run a script with a source map. If it is a cell, its
+      // breakpoints can now be set on the lines of the compiled code.
+      if (params.reason === 'instrumentation') {
+        const scriptId = params.data?.scriptId;
+        const script = scriptId ? targetRef.current?.scripts.get(scriptId) : undefined;
+
+        for (const line of script ? (breakpointsRef.current[script.cellId] ?? []) : []) {
+          await setBreakpoint(script!.cellId, line);
+        }
+
+        send('Debugger.resume').catch(console.error);
+        return;
+      }
+
+      // `--inspect-brk` pauses before anything runs, we pause at breakpoints instead.
+      if (params.reason === 'Break on start') {
+        send('Debugger.resume').catch(console.error);
+        return;
+      }
+
+      const frames = params.callFrames.map(toFrame);
+
+      setFrames(frames);
+      setSelectedFrame(0);
+      setStatus('paused');
+
+      evaluateWatches(watchesRef.current, frames[0]);
+    },
+    [send, setBreakpoint, toFrame, evaluateWatches],
+  );
+
+  useEffect(() => {
+    const callback = (payload: DebugStatusPayloadType) => {
+      const target = targetRef.current;
+
+      if (!target || target.cellId !== payload.cellId) {
+        return;
+      }
+
+      if (payload.attached) {
+        start(target).catch(console.error);
+      } else {
+        reset();
+      }
+    };
+
+    channel.on('debug:status', callback);
+
+    return () => channel.off('debug:status', callback);
+  }, [channel, start, reset]);
+
+  useEffect(() => {
+    const callback = (payload: DebugMessagePayloadType) => {
+      const target = targetRef.current;
+
+      if (!target || target.cellId !== payload.cellId) {
+        return;
+      }
+
+      const message: ProtocolMessageType = JSON.parse(payload.message);
+
+      if (message.id !== undefined) {
+        const pending = target.pending.get(message.id);
+        target.pending.delete(message.id);
+
+        if (message.error) {
+          pending?.reject(new Error(message.error.message));
+        } else {
+          pending?.resolve(message.result);
+        }
+
+        return;
+      }
+
+      switch (message.method) {
+        case 'Debugger.scriptParsed': {
+          const { scriptId, url, sourceMapURL } = message.params as ScriptParsedParamsType;
+          const cell = cellsRef.current.find(
+            (cell) => cell.type === 'code' && url.endsWith(`/src/${cell.filename}`),
+          );
+
+          if (cell) {
+            target.scripts.set(scriptId, {
+              cellId: cell.id,
+              lineMap: sourceMapURL ? parseInlineSourceMap(sourceMapURL) : null,
+            });
+          }
+          break;
+        }
+        case 'Debugger.paused':
+          onPaused(message.params as PausedParamsType).catch(console.error);
+          break;
+        case 'Debugger.resumed':
+          setStatus('running');
+          setFrames([]);
+          setWatches((watches) => watches.map(({ expression }) => ({ expression })));
+          break;
+      }
+    };
+
+    channel.on('debug:message', callback);
+
+    return () => channel.off('debug:message', callback);
+  }, [channel, onPaused]);
+
+  // The cell may finish, or fail to start, before the debugger attaches.
+  useEffect(() => {
+    const target = targetRef.current;
+    const cell = target ? cells.find((cell) => cell.id === target.cellId) : undefined;
+
+    if (target && (!cell || (cell.type === 'code' && cell.status !== 'running'))) {
+      reset();
+    }
+  }, [cells, reset]);
+
+  const debugCell = useCallback(
+    (cell: CodeCellType) => {
+      if (targetRef.current) {
+        return;
+      }
+
+      targetRef.current = {
+        cellId: cell.id,
+        seq: 0,
+        pending: new Map(),
+        scripts: new Map(),
+        breakpointIds: new Map(),
+      };
+
+      setCellId(cell.id);
+      setStatus('starting');
+      channel.push('cell:debug', { cellId: cell.id });
+    },
+    [channel],
+  );
+
+  const breakpoints = useCallback((id: string) => allBreakpoints[id] ?? [], [allBreakpoints]);
+
+  const toggleBreakpoint = useCallback(
+    (id: string, line: number) => {
+      const lines = breakpointsRef.current[id] ?? [];
+      const removing = lines.includes(line);
+
+      setAllBreakpoints({
+        ...breakpointsRef.current,
+        [id]: removing ? lines.filter((l) => l !== line) : [...lines, line].sort((a, b) => a - b),
+      });
+
+      if (removing) {
+        removeBreakpoint(id, line);
+      } else {
+        setBreakpoint(id, line);
+      }
+    },
+    [setBreakpoint, removeBreakpoint],
+  );
+
+  const pausedLine = useCallback(
+    (id: string) => {
+      const frame = frames[selectedFrame];
+      return status === 'paused' && frame?.cellId === id ? frame.line : null;
+    },
+    [status, frames, selectedFrame],
+  );
+
+  function command(method: string) {
+    return () => {
+      send(method).catch(console.error);
+    };
+  }
+
+  const stop = useCallback(() => {
+    if (targetRef.current) {
+      channel.push('cell:stop', { cellId: targetRef.current.cellId });
+    }
+  }, [channel]);
+
+  const selectFrame = useCallback(
+    (index: number) => {
+      setSelectedFrame(index);
+      evaluateWatches(watchesRef.current, framesRef.current[index]);
+    },
+    [evaluateWatches],
+  );
+
+  const addWatch = useCallback(
+    (expression: string) => {
+      evaluateWatches([...watchesRef.current, { expression }], framesRef.current[selectedFrame]);
+    },
+    [evaluateWatches, selectedFrame],
+  );
+
+  const removeWatch = useCallback((index: number) => {
+    setWatches((watches) => watches.filter((_, i) => i !== index));
+  }, []);
+
+  const getProperties = useCallback(
+    async (objectId: string) => {
+      const { result } = await send<{ result: PropertyType[] }>('Runtime.getProperties', {
+        objectId,
+        ownProperties: true,
+      });
+
+      return result;
+    },
+    [send],
+  );
+
+  const context: DebuggerContextValue = {
+    cellId,
+    status,
+    frames,
+    selectedFrame,
+    selectFrame,
+    watches,
+    addWatch,
+    removeWatch,
+    breakpoints,
+    toggleBreakpoint,
+    pausedLine,
+    debugCell,
+    resume: command('Debugger.resume'),
+    stepOver: command('Debugger.stepOver'),
+    stepInto: command('Debugger.stepInto'),
+    stepOut: command('Debugger.stepOut'),
+    stop,
+    getProperties,
+  };
+
+  return <DebuggerContext.Provider value={context}>{children}</DebuggerContext.Provider>;
+}
+
+export function useDebugger() {
+  const context = useContext(DebuggerContext);
+
+  if (!context) {
+    throw new Error('useDebugger must be used within a DebuggerProvider');
+  }
+
+  return context;
+}
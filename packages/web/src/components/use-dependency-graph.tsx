@@ -0,0 +1,105 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { CellDependencyGraphType, GraphUpdatedPayloadType } from '@srcbook/shared';
+import { SessionChannel } from '@/clients/websocket';
+
+export interface DependencyGraphContextValue {
+  graph: CellDependencyGraphType;
+  // The cell and the code cells it imports, directly or not, in the order they run.
+  upstreamCellIds: (cellId: string) => string[];
+  // The cell and the code cells importing it, directly or not.
+  downstreamCellIds: (cellId: string) => string[];
+}
+
+const DependencyGraphContext = createContext<DependencyGraphContextValue | undefined>(undefined);
+
+type ProviderPropsType = {
+  graph: CellDependencyGraphType;
+  channel: SessionChannel;
+  children: React.ReactNode;
+};
+
+/**
+ * An interface for reading which code cells import which.
+ *
+ * Starts from the graph loaded with the session and follows the server as cells change.
+ */
+export function DependencyGraphProvider({ graph, channel, children }: ProviderPropsType) {
+  const [current, setCurrent] = useState(graph);
+
+  // Start over when loading a different session.
+  useEffect(() => setCurrent(graph), [graph]);
+
+  useEffect(() => {
+    const callback = (payload: GraphUpdatedPayloadType) => setCurrent(payload.graph);
+
+    channel.on('graph:updated', callback);
+
+    return () => channel.off('graph:updated', callback);
+  }, [channel]);
+
+  // Same order as the server runs them in, see srcbook/graph.mts.
+  const upstreamCellIds = useCallback(
+    (cellId: string) => {
+      const ordered: string[] = [];
+      const visited = new Set<string>();
+
+      function visit(id: string) {
+        if (visited.has(id)) {
+          return;
+        }
+
+        visited.add(id);
+
+        const node = current.cells.find((node) => node.cellId === id);
+
+        for (const imported of node?.imports ?? []) {
+          visit(imported);
+        }
+
+        ordered.push(id);
+      }
+
+      visit(cellId);
+
+      return ordered;
+    },
+    [current],
+  );
+
+  const downstreamCellIds = useCallback(
+    (cellId: string) => {
+      const dependents = [cellId];
+
+      for (let i = 0; i < dependents.length; i++) {
+        for (const node of current.cells) {
+          if (node.imports.includes(dependents[i]!) && !dependents.includes(node.cellId)) {
+            dependents.push(node.cellId);
+          }
+        }
+      }
+
+      return dependents;
+    },
+    [current],
+  );
+
+  const context: DependencyGraphContextValue = {
+    graph: current,
+    upstreamCellIds,
+    downstreamCellIds,
+  };
+
+  return (
+    <DependencyGraphContext.Provider value={context}>{children}</DependencyGraphContext.Provider>
+  );
+}
+
+export function useDependencyGraph() {
+  const context = useContext(DependencyGraphContext);
+
+  if (!context) {
+    throw new Error('useDependencyGraph must be used within a DependencyGraphProvider');
+  }
+
+  return context;
+}
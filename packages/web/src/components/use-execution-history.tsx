@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { CellExecutedPayloadType, CellExecutionType } from '@srcbook/shared';
+import { SessionChannel } from '@/clients/websocket';
+
+export interface ExecutionHistoryContextValue {
+  // Recent runs of the cell, most recent first.
+  executionsForCell: (cellId: string) => CellExecutionType[];
+}
+
+const ExecutionHistoryContext = createContext<ExecutionHistoryContextValue | undefined>(undefined);
+
+type ProviderPropsType = {
+  executions: CellExecutionType[];
+  channel: SessionChannel;
+  children: React.ReactNode;
+};
+
+/**
+ * An interface for reading the session's execution history.
+ *
+ * Starts from the runs loaded with the session and adds runs as the server records them.
+ */
+export function ExecutionHistoryProvider({ executions, channel, children }: ProviderPropsType) {
+  const [history, setHistory] = useState(executions);
+
+  // Start over when loading a different session.
+  useEffect(() => setHistory(executions), [executions]);
+
+  useEffect(() => {
+    const callback = (payload: CellExecutedPayloadType) => {
+      setHistory((history) => [payload.execution, ...history]);
+    };
+
+    channel.on('cell:executed', callback);
+
+    return () => channel.off('cell:executed', callback);
+  }, [channel]);
+
+  const executionsForCell = useCallback(
+    (cellId: string) => history.filter((execution) => execution.cellId === cellId),
+    [history],
+  );
+
+  const context: ExecutionHistoryContextValue = { executionsForCell };
+
+  return (
+    <ExecutionHistoryContext.Provider value={context}>{children}</ExecutionHistoryContext.Provider>
+  );
+}
+
+export function useExecutionHistory() {
+  const context = useContext(ExecutionHistoryContext);
+
+  if (!context) {
+    throw new Error('useExecutionHistory must be used within an ExecutionHistoryProvider');
+  }
+
+  return context;
+}
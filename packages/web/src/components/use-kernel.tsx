@@ -0,0 +1,75 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { KernelStatusPayloadType } from '@srcbook/shared';
+import { SessionType } from '@/types';
+import { SessionChannel } from '@/clients/websocket';
+
+export interface KernelContextValue {
+  // Whether cells run in a long-lived kernel process for this session.
+  enabled: boolean;
+  // Whether the kernel process is currently alive.
+  running: boolean;
+  start: () => void;
+  stop: () => void;
+  restart: () => void;
+}
+
+const KernelContext = createContext<KernelContextValue | undefined>(undefined);
+
+type ProviderPropsType = {
+  session: SessionType;
+  channel: SessionChannel;
+  children: React.ReactNode;
+};
+
+/**
+ * An interface for working with the session's kernel.
+ */
+export function KernelProvider({ channel, session, children }: ProviderPropsType) {
+  const [enabled, setEnabled] = useState(session.kernel === true);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    const callback = (payload: KernelStatusPayloadType) => {
+      setEnabled(payload.enabled);
+      setRunning(payload.running);
+    };
+
+    channel.on('kernel:status', callback);
+
+    return () => channel.off('kernel:status', callback);
+  }, [channel]);
+
+  const start = useCallback(() => {
+    setEnabled(true);
+    channel.push('kernel:start', {});
+  }, [channel]);
+
+  const stop = useCallback(() => {
+    setEnabled(false);
+    channel.push('kernel:stop', {});
+  }, [channel]);
+
+  const restart = useCallback(() => {
+    channel.push('kernel:restart', {});
+  }, [channel]);
+
+  const context: KernelContextValue = {
+    enabled,
+    running,
+    start,
+    stop,
+    restart,
+  };
+
+  return <KernelContext.Provider value={context}>{children}</KernelContext.Provider>;
+}
+
+export function useKernel() {
+  const context = useContext(KernelContext);
+
+  if (!context) {
+    throw new Error('useKernel must be used within a KernelProvider');
+  }
+
+  return context;
+}
@@ -23,9 +23,13 @@ export interface PackageJsonContextValue {
   source: string;
   onChangeSource: (source: string) => void;
   npmInstall: (packages?: string[]) => void;
+  // Take a queued install out of the queue before it starts.
+  cancelInstall: () => void;
   validationError: string | null;
   outdated: boolean | string[];
+  // Also true while the install is queued behind other runs.
   installing: boolean;
+  queued: boolean;
   failed: boolean;
   output: OutputType[];
 }
@@ -83,6 +87,10 @@ export function PackageJsonProvider({ channel, children }: ProviderPropsType) {
     [cell, channel, updateCellOnClient, clearOutput],
   );
 
+  const cancelInstall = useCallback(() => {
+    channel.push('cell:stop', { cellId: cell.id });
+  }, [cell.id, channel]);
+
   useEffect(() => {
     const callback = (response: DepsValidateResponsePayloadType) => {
       // If we receive a response at all, it means there are outdated packages.
@@ -116,10 +124,12 @@ export function PackageJsonProvider({ channel, children }: ProviderPropsType) {
     source: cell.source,
     onChangeSource,
     npmInstall,
+    cancelInstall,
     output: getOutput(cell.id),
     validationError,
     outdated,
-    installing: cell.status === 'running',
+    installing: cell.status === 'running' || cell.status === 'queued',
+    queued: cell.status === 'queued',
     failed: cell.status === 'failed',
   };
 
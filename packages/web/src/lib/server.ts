@@ -3,6 +3,9 @@ import type {
   CodeLanguageType,
   MarkdownCellType,
   CodeCellType,
+  CellExecutionType,
+  CellDependencyGraphType,
+  RuntimeAvailabilityType,
   SecretWithAssociatedSessions,
 } from '@srcbook/shared';
 import { SessionType, ExampleSrcbookType } from '@/types';
@@ -220,8 +223,9 @@ export async function exportSrcmdFile(sessionId: string, request: ExportSrcmdFil
   return response.json();
 }
 
-export async function exportSrcmdText(sessionId: string) {
-  const response = await fetch(API_BASE_URL + '/sessions/' + sessionId + '/export-text');
+export async function exportSrcmdText(sessionId: string, options: { outputs?: boolean } = {}) {
+  const query = options.outputs ? '?outputs=true' : '';
+  const response = await fetch(API_BASE_URL + '/sessions/' + sessionId + '/export-text' + query);
 
   if (!response.ok) {
     console.error(response);
@@ -356,6 +360,54 @@ export async function disassociateSecretWithSession(sessionId: string, secretNam
   }
 }
 
+export async function loadExecutions(
+  sessionId: string,
+): Promise<{ error: boolean; result: CellExecutionType[] }> {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/executions`, {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function loadDependencyGraph(
+  sessionId: string,
+): Promise<{ error: boolean; result: CellDependencyGraphType }> {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/graph`, {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
+export async function loadRuntimes(
+  sessionId: string,
+): Promise<{ error: boolean; result: RuntimeAvailabilityType[] }> {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/runtimes`, {
+    method: 'GET',
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    throw new Error('Request failed');
+  }
+
+  return response.json();
+}
+
 // NPM package search, has to happen on the server given CORS restrictions
 export async function searchNpmPackages(query: string, size: number) {
   if (query === '') {
@@ -9,15 +9,37 @@ import {
   CodeLanguageType,
   MarkdownCellType,
   CodeCellType,
+  TestCellType,
+  SqlCellType,
+  HttpCellType,
+  ShellCellType,
+  FileCellType,
+  WidgetCellType,
   TitleCellType,
   TsServerCellSuggestionsPayloadType,
+  CellsExecScopeType,
+  CellsExecSummaryPayloadType,
+  CellExecutionType,
+  CellDependencyGraphType,
 } from '@srcbook/shared';
-import { loadSession, loadSessions, getConfig } from '@/lib/server';
+import {
+  loadSession,
+  loadSessions,
+  getConfig,
+  loadExecutions,
+  loadDependencyGraph,
+} from '@/lib/server';
 import type { SessionType, SettingsType } from '@/types';
 import { GenerateAICellType, OutputType } from '@srcbook/components/src/types';
 import { TitleCell, MarkdownCell } from '@srcbook/components';
 import ControlledCodeCell from '@/components/cells/code';
 import GenerateAiCell from '@/components/cells/generate-ai';
+import TestCell from '@/components/cells/test';
+import SqlCell from '@/components/cells/sql';
+import HttpCell from '@/components/cells/http';
+import ShellCell from '@/components/cells/shell';
+import FileCell from '@/components/cells/file';
+import WidgetCell from '@/components/cells/widget';
 import SessionMenu, { SESSION_MENU_PANELS, Panel } from '@/components/session-menu';
 import { Button } from '@srcbook/components/src/components/ui/button';
 import { SessionChannel } from '@/clients/websocket';
@@ -29,25 +51,42 @@ import { PackageJsonProvider, usePackageJson } from '@/components/use-package-js
 import { SessionNavbar } from '@/components/navbar';
 import { toast } from 'sonner';
 import { TsConfigProvider } from '@/components/use-tsconfig-json';
+import { KernelProvider } from '@/components/use-kernel';
+import { ExecutionHistoryProvider } from '@/components/use-execution-history';
+import { DependencyGraphProvider, useDependencyGraph } from '@/components/use-dependency-graph';
+import { DebuggerProvider } from '@/components/use-debugger';
 import { VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY } from '@/lib/environment';
 
 async function loader({ params }: LoaderFunctionArgs) {
-  const [{ result: config }, { result: srcbooks }, { result: session }] = await Promise.all([
+  const [
+    { result: config },
+    { result: srcbooks },
+    { result: session },
+    { result: executions },
+    { result: graph },
+  ] = await Promise.all([
     getConfig(),
     loadSessions(),
     loadSession({ id: params.id! }),
+    loadExecutions(params.id!),
+    loadDependencyGraph(params.id!),
   ]);
-  return { config, srcbooks, session };
+  return { config, srcbooks, session, executions, graph };
 }
 
+// Same delay as when running a single cell, so debounced cell updates reach the server first.
+const RUN_CELLS_DELAY = 510;
+
 type SessionLoaderDataType = {
   config: SettingsType;
   srcbooks: Array<SessionType>;
   session: SessionType;
+  executions: CellExecutionType[];
+  graph: CellDependencyGraphType;
 };
 
 function SessionPage() {
-  const { config, srcbooks, session } = useLoaderData() as SessionLoaderDataType;
+  const { config, srcbooks, session, executions, graph } = useLoaderData() as SessionLoaderDataType;
 
   // Because we use refs for our state, we need a way to trigger
   // component re-renders when the ref state changes.
@@ -94,14 +133,27 @@ function SessionPage() {
   }, [session.id, session.language, forceComponentRerender]);
 
   return (
-    <CellsProvider cells={session.cells}>
+    <CellsProvider cells={session.cells} outputs={session.outputs}>
       <PackageJsonProvider channel={channel}>
         <TsConfigProvider session={session} channel={channel}>
-          {VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY ? (
-            <Session readOnly session={session} srcbooks={srcbooks} config={config} />
-          ) : (
-            <Session session={session} channel={channel} srcbooks={srcbooks} config={config} />
-          )}
+          <KernelProvider session={session} channel={channel}>
+            <ExecutionHistoryProvider executions={executions} channel={channel}>
+              <DependencyGraphProvider graph={graph} channel={channel}>
+                <DebuggerProvider language={session.language} channel={channel}>
+                  {VITE_SRCBOOK_DEBUG_RENDER_SESSION_AS_READ_ONLY ? (
+                    <Session readOnly session={session} srcbooks={srcbooks} config={config} />
+                  ) : (
+                    <Session
+                      session={session}
+                      channel={channel}
+                      srcbooks={srcbooks}
+                      config={config}
+                    />
+                  )}
+                </DebuggerProvider>
+              </DependencyGraphProvider>
+            </ExecutionHistoryProvider>
+          </KernelProvider>
         </TsConfigProvider>
       </PackageJsonProvider>
     </CellsProvider>
@@ -127,11 +179,18 @@ function Session(props: SessionProps) {
     updateCell,
     removeCell,
     createCodeCell,
+    createTestCell,
+    createSqlCell,
+    createHttpCell,
+    createShellCell,
+    createFileCell,
+    createWidgetCell,
     createMarkdownCell,
     createGenerateAiCell,
     setOutput,
     setTsServerDiagnostics,
     setTsServerSuggestions,
+    clearOutput,
   } = useCells();
 
   const {
@@ -142,6 +201,8 @@ function Session(props: SessionProps) {
     output: dependencyInstallOutput,
   } = usePackageJson();
 
+  const { upstreamCellIds, downstreamCellIds } = useDependencyGraph();
+
   const [depsInstallModalOpen, setDepsInstallModalOpen] = useState(false);
   const [[selectedPanelName, selectedPanelOpen], setSelectedPanelNameAndOpen] = useState<
     [Panel['name'], boolean]
@@ -158,11 +219,74 @@ function Session(props: SessionProps) {
     }
   });
 
+  // The cell that 'run above' and 'run below' are relative to.
+  const [focusedCellId, setFocusedCellId] = useState<string | null>(null);
+  const [runningCells, setRunningCells] = useState(false);
+
+  function runCells(scope: CellsExecScopeType) {
+    if (!channel || runningCells) {
+      return;
+    }
+
+    const idx = allCells.findIndex((cell) => cell.id === focusedCellId);
+
+    if (scope !== 'all' && idx === -1) {
+      return;
+    }
+
+    const cellsInScope =
+      scope === 'all'
+        ? allCells
+        : scope === 'above'
+          ? allCells.slice(0, idx)
+          : scope === 'upstream'
+            ? allCells.filter((cell) => upstreamCellIds(allCells[idx]!.id).includes(cell.id))
+            : scope === 'downstream'
+              ? allCells.filter((cell) => downstreamCellIds(allCells[idx]!.id).includes(cell.id))
+              : allCells.slice(idx);
+
+    for (const cell of cellsInScope) {
+      if (cell.type === 'code' || cell.type === 'test') {
+        clearOutput(cell.id);
+      }
+    }
+
+    setRunningCells(true);
+
+    setTimeout(() => {
+      channel.push('cells:exec', {
+        scope,
+        cellId: scope === 'all' ? undefined : allCells[idx]!.id,
+      });
+    }, RUN_CELLS_DELAY);
+  }
+
+  function stopAll() {
+    if (!channel) {
+      return;
+    }
+    channel.push('session:stop', {});
+  }
+
+  const hotkeyOptions = { enableOnContentEditable: true, preventDefault: true };
+  useHotkeys('mod+shift+enter', () => runCells('all'), hotkeyOptions);
+  useHotkeys('mod+alt+up', () => runCells('above'), hotkeyOptions);
+  useHotkeys('mod+alt+down', () => runCells('below'), hotkeyOptions);
+
   async function onDeleteCell(cell: CellType | GenerateAICellType) {
     if (!channel) {
       return;
     }
-    if (cell.type !== 'code' && cell.type !== 'markdown') {
+    if (
+      cell.type !== 'code' &&
+      cell.type !== 'test' &&
+      cell.type !== 'sql' &&
+      cell.type !== 'http' &&
+      cell.type !== 'shell' &&
+      cell.type !== 'file' &&
+      cell.type !== 'widget' &&
+      cell.type !== 'markdown'
+    ) {
       throw new Error(`Cannot delete cell of type '${cell.type}'`);
     }
 
@@ -187,6 +311,52 @@ function Session(props: SessionProps) {
     return () => channel.off('cell:output', callback);
   }, [channel, setOutput]);
 
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    const callback = (payload: CellsExecSummaryPayloadType) => {
+      setRunningCells(false);
+
+      if (payload.error) {
+        toast.error(payload.error);
+        return;
+      }
+
+      if (payload.success) {
+        const count = payload.results.length;
+        toast.success(count === 1 ? 'Ran 1 cell' : `Ran ${count} cells`);
+        return;
+      }
+
+      const failed = payload.results[payload.results.length - 1];
+      const cell = allCells.find((cell) => cell.id === failed?.cellId);
+      const filename = cell?.type === 'code' ? cell.filename : 'A cell';
+      const skipped = payload.skipped.length;
+
+      toast.error(
+        skipped === 0
+          ? `${filename} failed`
+          : `${filename} failed, skipped ${skipped} cell${skipped === 1 ? '' : 's'} after it`,
+        {
+          duration: 10000,
+          action: {
+            label: 'Show',
+            onClick: () => {
+              document
+                .getElementById(`cell-${failed?.cellId}`)
+                ?.scrollIntoView({ behavior: 'smooth' });
+            },
+          },
+        },
+      );
+    };
+
+    channel.on('cells:exec:summary', callback);
+
+    return () => channel.off('cells:exec:summary', callback);
+  }, [channel, allCells]);
+
   useEffect(() => {
     if (!channel) {
       return;
@@ -218,13 +388,27 @@ function Session(props: SessionProps) {
       return;
     }
     const callback = (payload: CellUpdatedPayloadType) => {
-      updateCell(payload.cell);
+      const cell = payload.cell;
+      const current = allCells.find((c) => c.id === cell.id);
+
+      // Cells the server starts on its own, like dependents re-run in reactive mode, start
+      // over with empty output. Cells run from here were cleared when they were run.
+      if (
+        cell.type === 'code' &&
+        cell.status === 'running' &&
+        current?.type === 'code' &&
+        current.status !== 'running'
+      ) {
+        clearOutput(cell.id);
+      }
+
+      updateCell(cell);
     };
 
     channel.on('cell:updated', callback);
 
     return () => channel.off('cell:updated', callback);
-  }, [channel, updateCell]);
+  }, [channel, allCells, updateCell, clearOutput]);
 
   function updateCellOnServer(cell: CellType, updates: CellUpdateAttrsType) {
     if (!channel) {
@@ -236,13 +420,25 @@ function Session(props: SessionProps) {
     });
   }
 
-  async function createNewCell(type: 'code' | 'markdown' | 'generate-ai', index: number) {
+  async function createNewCell(
+    type:
+      | 'code'
+      | 'test'
+      | 'sql'
+      | 'http'
+      | 'shell'
+      | 'file'
+      | 'widget'
+      | 'markdown'
+      | 'generate-ai',
+    index: number,
+  ) {
     if (!channel) {
       return;
     }
 
     // First, create the cell on client.
-    // Then, push state to server, _only_ for code or markdown cells. AI generation is a client side only cell.
+    // Then, push state to server, _only_ for code, test, SQL, HTTP, shell, file, widget or markdown cells. AI generation is a client side only cell.
     // TODO: Handle potential errors (eg, rollback optimistic client creation if there are errors)
     let cell;
     switch (type) {
@@ -250,6 +446,30 @@ function Session(props: SessionProps) {
         cell = createCodeCell(index, session.language);
         channel.push('cell:create', { index, cell });
         break;
+      case 'test':
+        cell = createTestCell(index, session.language);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'sql':
+        cell = createSqlCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'http':
+        cell = createHttpCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'shell':
+        cell = createShellCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'file':
+        cell = createFileCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
+      case 'widget':
+        cell = createWidgetCell(index);
+        channel.push('cell:create', { index, cell });
+        break;
       case 'markdown':
         cell = createMarkdownCell(index);
         channel.push('cell:create', { index, cell });
@@ -285,7 +505,17 @@ function Session(props: SessionProps) {
   // TOOD: We need to stop treating titles and package.json as cells.
   const [titleCellUncasted, _packageJsonCell, ...remainingCells] = allCells;
   const titleCell = titleCellUncasted as TitleCellType;
-  const cells = remainingCells as (MarkdownCellType | CodeCellType | GenerateAICellType)[];
+  const cells = remainingCells as (
+    | MarkdownCellType
+    | CodeCellType
+    | TestCellType
+    | SqlCellType
+    | HttpCellType
+    | ShellCellType
+    | FileCellType
+    | WidgetCellType
+    | GenerateAICellType
+  )[];
 
   useEffect(() => {
     let result: () => void = () => {};
@@ -347,6 +577,11 @@ function Session(props: SessionProps) {
         srcbooks={srcbooks}
         baseDir={config.baseDir}
         title={titleCell.text}
+        runCells={runCells}
+        stopAll={stopAll}
+        runningCells={runningCells}
+        canRunRelativeToCell={cells.some((cell) => cell.id === focusedCellId)}
+        canRunUpstream={cells.some((cell) => cell.id === focusedCellId && cell.type === 'code')}
       />
 
       <div className="flex mt-12">
@@ -391,13 +626,19 @@ function Session(props: SessionProps) {
             )}
 
             {cells.map((cell, idx) => (
-              <div key={cell.id}>
+              <div key={cell.id} onFocus={() => setFocusedCellId(cell.id)}>
                 {readOnly ? (
                   <div className="h-5" />
                 ) : (
                   <InsertCellDivider
                     language={session.language}
                     createCodeCell={() => createNewCell('code', idx + 2)}
+                    createTestCell={() => createNewCell('test', idx + 2)}
+                    createSqlCell={() => createNewCell('sql', idx + 2)}
+                    createHttpCell={() => createNewCell('http', idx + 2)}
+                    createShellCell={() => createNewCell('shell', idx + 2)}
+                    createFileCell={() => createNewCell('file', idx + 2)}
+                    createWidgetCell={() => createNewCell('widget', idx + 2)}
                     createMarkdownCell={() => createNewCell('markdown', idx + 2)}
                     createGenerateAiCodeCell={() => createNewCell('generate-ai', idx + 2)}
                   />
@@ -416,6 +657,67 @@ function Session(props: SessionProps) {
                   />
                 )}
 
+                {cell.type === 'test' && readOnly && <TestCell readOnly cell={cell} />}
+                {cell.type === 'test' && !readOnly && (
+                  <TestCell
+                    cell={cell}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
+                {cell.type === 'sql' && readOnly && <SqlCell readOnly cell={cell} />}
+                {cell.type === 'sql' && !readOnly && (
+                  <SqlCell
+                    cell={cell}
+                    sessionId={session.id}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
+                {cell.type === 'http' && readOnly && <HttpCell readOnly cell={cell} />}
+                {cell.type === 'http' && !readOnly && (
+                  <HttpCell
+                    cell={cell}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
+                {cell.type === 'shell' && readOnly && <ShellCell readOnly cell={cell} />}
+                {cell.type === 'shell' && !readOnly && (
+                  <ShellCell
+                    cell={cell}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
+                {cell.type === 'file' && readOnly && <FileCell readOnly cell={cell} />}
+                {cell.type === 'file' && !readOnly && (
+                  <FileCell
+                    cell={cell}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
+                {cell.type === 'widget' && readOnly && <WidgetCell readOnly cell={cell} />}
+                {cell.type === 'widget' && !readOnly && (
+                  <WidgetCell
+                    cell={cell}
+                    channel={props.channel}
+                    updateCellOnServer={updateCellOnServer}
+                    onDeleteCell={onDeleteCell}
+                  />
+                )}
+
                 {cell.type === 'markdown' && readOnly && <MarkdownCell readOnly cell={cell} />}
                 {cell.type === 'markdown' && !readOnly && (
                   <MarkdownCell
@@ -442,6 +744,12 @@ function Session(props: SessionProps) {
               <InsertCellDivider
                 language={session.language}
                 createCodeCell={() => createNewCell('code', allCells.length)}
+                createTestCell={() => createNewCell('test', allCells.length)}
+                createSqlCell={() => createNewCell('sql', allCells.length)}
+                createHttpCell={() => createNewCell('http', allCells.length)}
+                createShellCell={() => createNewCell('shell', allCells.length)}
+                createFileCell={() => createNewCell('file', allCells.length)}
+                createWidgetCell={() => createNewCell('widget', allCells.length)}
                 createMarkdownCell={() => createNewCell('markdown', allCells.length)}
                 createGenerateAiCodeCell={() => createNewCell('generate-ai', allCells.length)}
                 className={cn('h-14', cells.length === 0 && 'opacity-100')}
@@ -456,6 +764,12 @@ function Session(props: SessionProps) {
 
 function InsertCellDivider(props: {
   createCodeCell: () => void;
+  createTestCell: () => void;
+  createSqlCell: () => void;
+  createHttpCell: () => void;
+  createShellCell: () => void;
+  createFileCell: () => void;
+  createWidgetCell: () => void;
   createMarkdownCell: () => void;
   createGenerateAiCodeCell: () => void;
   language: CodeLanguageType;
@@ -481,6 +795,48 @@ function InsertCellDivider(props: {
           >
             {props.language === 'javascript' ? 'JavaScript' : 'TypeScript'}
           </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createTestCell}
+          >
+            Test
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createSqlCell}
+          >
+            SQL
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createHttpCell}
+          >
+            HTTP
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createShellCell}
+          >
+            Shell
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createFileCell}
+          >
+            File
+          </Button>
+          <Button
+            variant="secondary"
+            className="border-none rounded-md rounded-l-none"
+            onClick={props.createWidgetCell}
+          >
+            Widget
+          </Button>
           <Button
             variant="secondary"
             className="border-none rounded-md rounded-l-none"
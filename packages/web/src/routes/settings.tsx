@@ -87,6 +87,15 @@ function Settings() {
           </Select>
         </div>
 
+        <div>
+          <h2 className="text-base font-medium">Concurrent runs</h2>
+          <label className="opacity-70 block pb-3 text-sm" htmlFor="max-concurrent-processes">
+            The most cells and dependency installs running at once across all Srcbooks. Others wait
+            in a queue for their turn.
+          </label>
+          <MaxConcurrentProcesses />
+        </div>
+
         <div>
           <h2 className="text-base font-medium">AI</h2>
           <div className="flex flex-col">
@@ -123,6 +132,35 @@ function Settings() {
   );
 }
 
+function MaxConcurrentProcesses() {
+  const { maxConcurrentProcesses, updateConfig } = useSettings();
+  const [value, setValue] = useState<string>(maxConcurrentProcesses?.toString() ?? '');
+
+  const limit = Number(value);
+  const saveEnabled = Number.isInteger(limit) && limit >= 1 && limit !== maxConcurrentProcesses;
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id="max-concurrent-processes"
+        type="number"
+        min={1}
+        className="w-[180px]"
+        placeholder="One per CPU"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <Button
+        className="px-5"
+        onClick={() => updateConfig({ maxConcurrentProcesses: limit })}
+        disabled={!saveEnabled}
+      >
+        Save
+      </Button>
+    </div>
+  );
+}
+
 function AiInfoBanner() {
   const { aiEnabled, aiProvider } = useSettings();
 
@@ -1,4 +1,14 @@
-import { CellType, CodeLanguageType, AiProviderType } from '@srcbook/shared';
+import {
+  CellType,
+  CellOutputType,
+  CodeLanguageType,
+  AiProviderType,
+  ExecLimitsType,
+  ParameterType,
+  ParameterValueType,
+  PermissionsType,
+  RuntimeType,
+} from '@srcbook/shared';
 
 export interface FsObjectType {
   path: string;
@@ -20,6 +30,7 @@ export type SettingsType = {
   aiModel: string;
   aiBaseUrl?: string | null;
   subscriptionEmail?: string | null;
+  maxConcurrentProcesses?: number | null;
 };
 
 export type SessionType = {
@@ -27,6 +38,16 @@ export type SessionType = {
   cells: CellType[];
   language: CodeLanguageType;
   'tsconfig.json'?: string;
+  kernel?: boolean;
+  limits?: ExecLimitsType;
+  runtime?: RuntimeType;
+  reactive?: boolean;
+  permissions?: PermissionsType;
+  parameters?: ParameterType[];
+  // Values of the parameters set in this session, keyed by name.
+  parameterValues?: Record<string, ParameterValueType>;
+  // The last outputs of each code cell, keyed by cell id.
+  outputs?: Record<string, CellOutputType[]>;
   openedAt: number;
 };
 
@@ -1,4 +1,6 @@
+import fs from 'node:fs/promises';
 import { spawn } from 'node:child_process';
+import chalk from 'chalk';
 import { Command } from 'commander';
 import { pathTo, getPackageJson, isPortAvailable } from './utils.mjs';
 import open from 'open';
@@ -75,6 +77,27 @@ export default function program() {
       });
     });
 
+  program
+    .command('run')
+    .description('Run every code cell of a Srcbook without the web UI')
+    .argument('<path>', 'Path to a .src.md file or a Srcbook directory')
+    .option('--param <name=value>', 'Set a parameter of the Srcbook, can be repeated', collect, [])
+    .action(async (path, { param }) => {
+      const success = await run(path, param);
+      process.exit(success ? 0 : 1);
+    });
+
+  program
+    .command('test')
+    .description('Run the test cells of a Srcbook')
+    .argument('<path>', 'Path to a .src.md file or a Srcbook directory')
+    .option('--param <name=value>', 'Set a parameter of the Srcbook, can be repeated', collect, [])
+    .option('--junit <file>', 'Write the results as JUnit XML to a file')
+    .action(async (path, { param, junit }) => {
+      const success = await test(path, param, junit);
+      process.exit(success ? 0 : 1);
+    });
+
   program
     .command('mcp-server')
     .description('Start the Chassit MCP Server')
@@ -114,6 +137,107 @@ export default function program() {
   program.parse();
 }
 
+function collect(value: string, previous: string[]) {
+  return [...previous, value];
+}
+
+// Cell output goes to stdout and stderr as is. Everything else goes to stderr.
+async function run(path: string, parameters: string[]) {
+  // Imported here so that the other commands do not load the API.
+  const { runSrcbook } = await import('@srcbook/api/headless');
+
+  try {
+    const result = await runSrcbook({
+      path,
+      parameters,
+      stdout: (data) => process.stdout.write(data),
+      stderr: (data) => process.stderr.write(data),
+      onInstall() {
+        console.error(chalk.dim('Installing dependencies...'));
+      },
+      onCellStart(cell) {
+        console.error(chalk.bold(`\n▶ ${cell.filename}`));
+      },
+      onDisplay(_cell, data) {
+        const text = data['text/plain'];
+        console.log(text ?? chalk.dim(`[display: ${Object.keys(data).join(', ')}]`));
+      },
+      onLimitExceeded(cell, limit) {
+        console.error(chalk.red(`${cell.filename} exceeded its ${limit} limit`));
+      },
+      onCellExit(cell, { exitCode, signal }) {
+        if (exitCode !== 0) {
+          const reason = signal ? `signal ${signal}` : `exit code ${exitCode}`;
+          console.error(chalk.red(`${cell.filename} failed with ${reason}`));
+        }
+      },
+    });
+
+    const count = result.results.length;
+
+    if (result.success) {
+      console.error(chalk.green(`\nRan ${count} code cell${count === 1 ? '' : 's'}`));
+    } else if (result.skipped.length > 0) {
+      console.error(chalk.dim(`Skipped ${result.skipped.length} remaining code cell(s)`));
+    }
+
+    return result.success;
+  } catch (e) {
+    const error = e as Error;
+    console.error(chalk.red(error.message));
+    return false;
+  }
+}
+
+const TEST_STATUS_SYMBOLS = {
+  pass: chalk.green('✔'),
+  fail: chalk.red('✖'),
+  skip: chalk.yellow('-'),
+  todo: chalk.yellow('-'),
+};
+
+async function test(path: string, parameters: string[], junit?: string) {
+  // Imported here so that the other commands do not load the API.
+  const { testSrcbook, toJUnitXml } = await import('@srcbook/api/headless');
+
+  try {
+    const result = await testSrcbook({
+      path,
+      parameters,
+      stdout: (data) => process.stderr.write(data),
+      stderr: (data) => process.stderr.write(data),
+      onInstall() {
+        console.error(chalk.dim('Installing dependencies...'));
+      },
+      onCellStart(cell) {
+        console.log(chalk.bold(`\n▶ ${cell.filename}`));
+      },
+      onResult(_cell, { name, status, duration, error }) {
+        console.log(
+          `${TEST_STATUS_SYMBOLS[status]} ${name} ${chalk.dim(`(${duration.toFixed(1)}ms)`)}`,
+        );
+        if (error) console.log(chalk.dim(error));
+      },
+    });
+
+    if (junit) {
+      const suites = result.suites.map(({ cell, results }) => ({ name: cell.filename, results }));
+      await fs.writeFile(junit, toJUnitXml(suites), 'utf8');
+    }
+
+    const results = result.suites.flatMap((suite) => suite.results);
+    const failed = results.filter((r) => r.status === 'fail').length;
+    const summary = `\n${results.length} tests, ${failed} failed`;
+    console.log(result.success ? chalk.green(summary) : chalk.red(summary));
+
+    return result.success;
+  } catch (e) {
+    const error = e as Error;
+    console.error(chalk.red(error.message));
+    return false;
+  }
+}
+
 async function doImport(specifier: string, port: string) {
   const filepath = specifier.endsWith('.src.md') ? specifier : `${specifier}.src.md`;
   const srcbookUrl = `https://hub.srcbook.com/srcbooks/${filepath}`;
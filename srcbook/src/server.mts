@@ -12,7 +12,7 @@ import http from 'node:http';
 import express from 'express';
 // @ts-ignore
 import { WebSocketServer as WsWebSocketServer } from 'ws';
-import { wss, app, posthog } from '@srcbook/api';
+import { wss, app, posthog, lifecycle } from '@srcbook/api';
 import chalk from 'chalk';
 import { pathTo, getPackageJson } from './utils.mjs';
 
@@ -28,6 +28,13 @@ clearScreen();
 
 console.log(chalk.bgGreen.black('  Srcbook  '));
 
+// Processes of a previous run of the server which did not shut down, e.g. after a crash.
+const reaped = await lifecycle.reap();
+
+if (reaped > 0) {
+  console.log(chalk.dim(`Stopped ${reaped} processes left running by a previous run`));
+}
+
 const PUBLIC_DIR = pathTo('public');
 const INDEX_HTML = pathTo('public', 'index.html');
 
@@ -59,9 +66,15 @@ server.listen(port, () => {
   process.send('{"type":"init"}');
 });
 
-process.on('SIGINT', async () => {
+async function shutdown() {
   // Ensure we gracefully shutdown posthog since it may need to flush events
   posthog.shutdown();
   server.close();
+  // Cells, dependency installs and tsservers would otherwise keep running without a server.
+  await lifecycle.shutdown();
   process.exit();
-});
+}
+
+process.on('SIGINT', shutdown);
+// The CLI stops the server with SIGTERM, see cli.mts.
+process.on('SIGTERM', shutdown);